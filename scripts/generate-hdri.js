@@ -0,0 +1,215 @@
+/**
+ * 生成内置的 HDR 环境贴图
+ *
+ * 按程序化的光源布置生成等距柱状投影的 Radiance HDR（RGBE，行程编码）文件，
+ * 输出到 public/assets/hdri，对应 environmentStorage.ts 中的内置环境贴图。
+ *
+ * 用法: npm run generate-hdri -- [选项]
+ *   --out <目录>      输出目录（默认 public/assets/hdri）
+ *   --width <像素>    贴图宽度，高度为宽度的一半（默认 1024）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+
+// 获取当前文件的目录
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+const { values: args } = parseArgs({
+  options: {
+    out: { type: 'string', default: path.join(ROOT_DIR, 'public', 'assets', 'hdri') },
+    width: { type: 'string', default: '1024' }
+  }
+});
+
+// 角度转弧度
+const toRadians = (degrees) => degrees * Math.PI / 180;
+
+// 按方位角和仰角（度）计算单位方向，方位角 0 为 +X，仰角向上为正
+const toDirection = (azimuth, elevation) => {
+  const az = toRadians(azimuth);
+  const el = toRadians(elevation);
+  return [Math.cos(el) * Math.cos(az), Math.sin(el), Math.cos(el) * Math.sin(az)];
+};
+
+// 平滑插值
+const smoothstep = (edge0, edge1, x) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// 两个颜色按比例混合
+const mix = (a, b, t) => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+/**
+ * 圆形光源（柔光箱、灯泡、太阳），边缘柔和过渡
+ * @param light 光源：azimuth、elevation（度），radius 角半径（度），softness 边缘过渡（度），color 颜色，intensity 强度
+ * @returns 按方向计算光源亮度的函数
+ */
+const createLight = ({ azimuth, elevation, radius, softness = radius * 0.3, color = [1, 1, 1], intensity }) => {
+  const center = toDirection(azimuth, elevation);
+  return (direction) => {
+    const cosAngle = direction[0] * center[0] + direction[1] * center[1] + direction[2] * center[2];
+    const angle = Math.acos(Math.min(1, Math.max(-1, cosAngle))) * 180 / Math.PI;
+    const weight = 1 - smoothstep(radius - softness, radius + softness, angle);
+    return [color[0] * intensity * weight, color[1] * intensity * weight, color[2] * intensity * weight];
+  };
+};
+
+/**
+ * 按背景和光源生成环境的亮度函数
+ * @param background 按仰角（-1 到 1 的 sin 值）返回背景颜色的函数
+ * @param lights 光源
+ * @returns 按方向计算亮度的函数
+ */
+const createEnvironment = (background, lights) => (direction) => {
+  const color = background(direction[1], direction);
+  lights.forEach((light) => {
+    const [r, g, b] = light(direction);
+    color[0] += r;
+    color[1] += g;
+    color[2] += b;
+  });
+  return color;
+};
+
+// 各内置环境的布置，亮度为线性值
+const ENVIRONMENTS = {
+  // 摄影棚：深灰背景，主光、辅光和轮廓光三盏柔光箱，顶部一条灯带
+  studio: createEnvironment(
+    (y) => (y >= 0 ? mix([0.06, 0.06, 0.06], [0.1, 0.1, 0.1], y) : mix([0.05, 0.05, 0.05], [0.02, 0.02, 0.02], -y)),
+    [
+      createLight({ azimuth: 45, elevation: 30, radius: 18, color: [1, 0.97, 0.92], intensity: 14 }),
+      createLight({ azimuth: -60, elevation: 15, radius: 24, color: [0.92, 0.96, 1], intensity: 4 }),
+      createLight({ azimuth: 180, elevation: 40, radius: 10, intensity: 10 }),
+      createLight({ azimuth: 90, elevation: 80, radius: 8, intensity: 6 })
+    ]
+  ),
+  // 日光：蓝天渐变、太阳和浅褐色地面
+  daylight: createEnvironment(
+    (y) => (y >= 0
+      ? mix([1.1, 1.2, 1.35], [0.3, 0.5, 1.0], Math.pow(y, 0.5))
+      : mix([0.45, 0.4, 0.33], [0.25, 0.22, 0.18], Math.min(1, -y * 4))),
+    [
+      createLight({ azimuth: 30, elevation: 45, radius: 1.5, softness: 0.5, color: [1, 0.95, 0.85], intensity: 4000 }),
+      createLight({ azimuth: 30, elevation: 45, radius: 10, softness: 8, color: [1, 0.92, 0.8], intensity: 3 })
+    ]
+  ),
+  // 展厅：暖色墙面，顶部多盏筒灯，一侧有冷色的窗光
+  showroom: createEnvironment(
+    (y) => (y >= 0.6
+      ? [0.5, 0.48, 0.45]
+      : y >= -0.05 ? mix([0.3, 0.26, 0.21], [0.4, 0.36, 0.31], (y + 0.05) / 0.65) : [0.12, 0.1, 0.08]),
+    [
+      ...[0, 60, 120, 180, 240, 300].map(azimuth => (
+        createLight({ azimuth, elevation: 65, radius: 4, softness: 1.5, color: [1, 0.9, 0.75], intensity: 60 })
+      )),
+      createLight({ azimuth: -90, elevation: 15, radius: 28, softness: 6, color: [0.85, 0.92, 1], intensity: 3 })
+    ]
+  ),
+  // 阴天：明亮均匀的灰白天空，没有明显的光源方向
+  overcast: createEnvironment(
+    (y) => (y >= 0
+      ? mix([0.8, 0.82, 0.85], [1.3, 1.32, 1.35], y)
+      : mix([0.3, 0.3, 0.28], [0.18, 0.18, 0.17], Math.min(1, -y * 3))),
+    []
+  )
+};
+
+/**
+ * 将线性颜色编码为 RGBE
+ * @returns [r, g, b, e]
+ */
+const toRgbe = ([r, g, b]) => {
+  const value = Math.max(r, g, b);
+  if (value < 1e-32) return [0, 0, 0, 0];
+  const exponent = Math.floor(Math.log2(value)) + 1;
+  const scale = 256 / Math.pow(2, exponent);
+  return [
+    Math.min(255, Math.floor(r * scale)),
+    Math.min(255, Math.floor(g * scale)),
+    Math.min(255, Math.floor(b * scale)),
+    exponent + 128
+  ];
+};
+
+/**
+ * 按行程编码压缩一行中的一个通道（Radiance 新格式）
+ * @param values 通道数据
+ * @returns 编码后的字节
+ */
+const encodeChannel = (values) => {
+  const bytes = [];
+  let start = 0;
+  while (start < values.length) {
+    // 查找下一段至少 4 个相同值的连续数据
+    let runStart = start;
+    let runLength = 0;
+    while (runStart < values.length) {
+      runLength = 1;
+      while (runStart + runLength < values.length && runLength < 127 && values[runStart + runLength] === values[runStart]) {
+        runLength++;
+      }
+      if (runLength >= 4) break;
+      runStart += runLength;
+    }
+
+    // 连续数据之前的部分原样写入，每段最多 128 个
+    while (start < runStart) {
+      const count = Math.min(128, runStart - start);
+      bytes.push(count, ...values.slice(start, start + count));
+      start += count;
+    }
+
+    if (runStart < values.length && runLength >= 4) {
+      bytes.push(128 + runLength, values[runStart]);
+      start = runStart + runLength;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * 生成 HDR 文件
+ * @param radiance 按方向计算亮度的函数
+ * @param width 宽度
+ * @returns 文件数据
+ */
+const createHdrFile = (radiance, width) => {
+  const height = width / 2;
+  const header = `#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`;
+  const chunks = [Buffer.from(header, 'ascii')];
+
+  for (let row = 0; row < height; row++) {
+    // 第一行对应正上方
+    const elevation = 90 - (row + 0.5) / height * 180;
+    const channels = [[], [], [], []];
+    for (let column = 0; column < width; column++) {
+      const azimuth = (column + 0.5) / width * 360 - 180;
+      const rgbe = toRgbe(radiance(toDirection(azimuth, elevation)));
+      rgbe.forEach((value, index) => channels[index].push(value));
+    }
+    chunks.push(Buffer.from([2, 2, width >> 8, width & 0xff]));
+    channels.forEach(channel => chunks.push(Buffer.from(encodeChannel(channel))));
+  }
+
+  return Buffer.concat(chunks);
+};
+
+const width = parseInt(args.width, 10);
+if (!(width >= 8 && width <= 32767 && width % 2 === 0)) {
+  console.error('贴图宽度必须是 8-32767 之间的偶数');
+  process.exit(1);
+}
+
+fs.mkdirSync(args.out, { recursive: true });
+Object.entries(ENVIRONMENTS).forEach(([name, radiance]) => {
+  const filePath = path.join(args.out, `${name}.hdr`);
+  const data = createHdrFile(radiance, width);
+  fs.writeFileSync(filePath, data);
+  console.log(`已生成: ${path.relative(ROOT_DIR, filePath)} (${(data.length / 1024).toFixed(0)}KB)`);
+});
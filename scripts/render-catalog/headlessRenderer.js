@@ -0,0 +1,286 @@
+/**
+ * Node 环境下的离屏渲染器
+ *
+ * 使用 headless-gl 提供 WebGL 上下文、node-canvas 解码贴图和编码 PNG，
+ * 灯光、色调映射和相机取景与前端 src/utils/renderService.ts 一致，
+ * 参数同样来自 src/config/renderSettings.json，灯光使用与前端共用的 src/utils/lightingRig.js 创建。
+ */
+
+import fs from 'fs';
+import path from 'path';
+import createGLContext from 'gl';
+import { createCanvas, loadImage } from 'canvas';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { createLightingRigObject, disposeLightingRigObject } from '../../src/utils/lightingRig.js';
+
+// headless-gl 不支持抗锯齿，按倍数放大渲染后再缩小
+const SUPERSAMPLE = 2;
+
+// 贴图的最大尺寸，批量渲染缩略图不需要更大的贴图
+const MAX_TEXTURE_SIZE = 2048;
+
+// 色板球体的分段数
+const SWATCH_SPHERE_SEGMENTS = 64;
+
+// 归一化后模型包围盒的最长边，与 src/utils/objectTransform.ts 一致
+const NORMALIZED_MODEL_SIZE = 2;
+
+// 不大于给定值的最大2的幂
+const floorPowerOfTwo = (value) => 2 ** Math.floor(Math.log2(Math.max(value, 1)));
+
+// 读取文件为 ArrayBuffer
+const readArrayBuffer = (filePath) => {
+  const data = fs.readFileSync(filePath);
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+};
+
+/**
+ * 提供 GLTFLoader 用到的浏览器全局对象
+ * createImageBitmap 使用 node-canvas 解码贴图，
+ * WebGL 1 不支持非2的幂尺寸贴图的重复平铺和 Mipmap，解码时缩放到2的幂
+ */
+const installBrowserGlobals = () => {
+  globalThis.self = globalThis;
+  globalThis.createImageBitmap = async (blob) => {
+    const image = await loadImage(Buffer.from(await blob.arrayBuffer()));
+    const width = floorPowerOfTwo(Math.min(image.width, MAX_TEXTURE_SIZE));
+    const height = floorPowerOfTwo(Math.min(image.height, MAX_TEXTURE_SIZE));
+    const canvas = createCanvas(width, height);
+    canvas.getContext('2d').drawImage(image, 0, 0, width, height);
+    return canvas;
+  };
+};
+
+// 按角度放置相机，使包围球完整显示在画面中，与 renderService.ts 的 fitCameraToSphere 一致
+const fitCameraToSphere = (camera, sphere, angle, padding) => {
+  const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+  const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+  const fitFov = Math.min(verticalFov, horizontalFov);
+  const radius = Math.max(sphere.radius, 0.001);
+  const distance = (radius / Math.sin(fitFov / 2)) * padding;
+
+  const direction = new THREE.Vector3().setFromSphericalCoords(
+    1,
+    THREE.MathUtils.degToRad(90 - angle.elevation),
+    THREE.MathUtils.degToRad(angle.azimuth)
+  );
+  camera.position.copy(sphere.center).addScaledVector(direction, distance);
+  camera.near = Math.max(distance - radius * 2, distance / 100);
+  camera.far = distance + radius * 2;
+  camera.lookAt(sphere.center);
+  camera.updateProjectionMatrix();
+};
+
+// 将模型缩放到最长边为 NORMALIZED_MODEL_SIZE 并移到原点，与 objectTransform.ts 的 normalizeModelScene 一致，
+// 灯光方案的灯光位置和阴影范围按归一化后的尺寸设置
+const normalizeModel = (object) => {
+  object.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(object);
+  if (box.isEmpty()) return;
+
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  if (!(maxDim > 0)) return;
+  const scale = NORMALIZED_MODEL_SIZE / maxDim;
+  const center = box.getCenter(new THREE.Vector3());
+  object.scale.setScalar(scale);
+  object.position.set(-center.x * scale, -center.y * scale, -center.z * scale);
+};
+
+// 将从底部开始逐行读取的预乘像素转换为从顶部开始的非预乘像素
+const toImageRows = (pixels, width, height) => {
+  const rows = new Uint8ClampedArray(pixels.length);
+  const rowSize = width * 4;
+  for (let y = 0; y < height; y++) {
+    rows.set(pixels.subarray((height - 1 - y) * rowSize, (height - y) * rowSize), y * rowSize);
+  }
+  for (let i = 0; i < rows.length; i += 4) {
+    const alpha = rows[i + 3];
+    if (alpha > 0 && alpha < 255) {
+      rows[i] = (rows[i] * 255) / alpha;
+      rows[i + 1] = (rows[i + 1] * 255) / alpha;
+      rows[i + 2] = (rows[i + 2] * 255) / alpha;
+    }
+  }
+  return rows;
+};
+
+// 释放对象的几何体、材质和贴图
+const disposeObject = (object) => {
+  object.traverse((child) => {
+    if (child.isMesh) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material) => {
+        Object.values(material).forEach((value) => {
+          if (value?.isTexture) value.dispose();
+        });
+        material.dispose();
+      });
+    }
+  });
+};
+
+/**
+ * 创建离屏渲染器
+ * @param {object} settings 渲染配置（renderSettings.json）
+ * @param {object} options
+ * @param {string|null} options.environmentPath HDR 环境贴图文件路径，null 不使用环境贴图
+ */
+export const createHeadlessRenderer = (settings, { environmentPath }) => {
+  installBrowserGlobals();
+
+  const gl = createGLContext(1, 1, { alpha: true, preserveDrawingBuffer: true });
+  if (!gl) {
+    throw new Error('无法创建 WebGL 上下文，请确认 gl 依赖已正确编译');
+  }
+  const resizeExtension = gl.getExtension('STACKGL_resize_drawingbuffer');
+
+  // three 只需要画布的尺寸和事件接口
+  const canvasStub = {
+    width: 1,
+    height: 1,
+    style: {},
+    addEventListener: () => {},
+    removeEventListener: () => {}
+  };
+  const renderer = new THREE.WebGLRenderer({ canvas: canvasStub, context: gl, alpha: true });
+  renderer.toneMapping = THREE.ACESFilmicToneMapping;
+  renderer.outputColorSpace = THREE.SRGBColorSpace;
+  renderer.shadowMap.enabled = true;
+  renderer.shadowMap.type = THREE.PCFShadowMap;
+
+  // 默认灯光方案，与前端 lightingStorage.ts 的默认方案相同
+  const lights = createLightingRigObject({
+    name: '默认',
+    ambientIntensity: settings.lighting.ambientIntensity,
+    lights: settings.lighting.lights
+  });
+
+  // PMREM 预过滤需要半浮点渲染目标，headless-gl 不支持时只使用灯光
+  let environment = null;
+  if (environmentPath) {
+    if (!gl.getExtension('OES_texture_half_float')) {
+      console.warn('当前 WebGL 上下文不支持半浮点贴图，将只使用灯光渲染');
+    } else if (!fs.existsSync(environmentPath)) {
+      console.warn(`环境贴图不存在，将只使用灯光渲染: ${environmentPath}`);
+    } else {
+      const hdr = new RGBELoader().parse(readArrayBuffer(environmentPath));
+      const hdrTexture = new THREE.DataTexture(hdr.data, hdr.width, hdr.height, THREE.RGBAFormat, hdr.type);
+      hdrTexture.mapping = THREE.EquirectangularReflectionMapping;
+      hdrTexture.needsUpdate = true;
+      const pmremGenerator = new THREE.PMREMGenerator(renderer);
+      environment = pmremGenerator.fromEquirectangular(hdrTexture).texture;
+      hdrTexture.dispose();
+      pmremGenerator.dispose();
+    }
+  }
+
+  const gltfLoader = new GLTFLoader().setMeshoptDecoder(MeshoptDecoder);
+  const swatchGeometry = new THREE.SphereGeometry(1, SWATCH_SPHERE_SEGMENTS, SWATCH_SPHERE_SEGMENTS);
+
+  /**
+   * 渲染对象为 PNG
+   * @param {THREE.Object3D} object 要渲染的对象
+   * @param {object} options 渲染参数，与 renderService.ts 的 RenderOptions 相同
+   * @returns {Buffer} PNG 数据
+   */
+  const renderObject = (object, options = {}) => {
+    const {
+      width = settings.thumbnail.width,
+      height = settings.thumbnail.height,
+      cameraAngle = settings.cameraAngle,
+      fov = settings.fov,
+      padding = settings.padding,
+      background = null
+    } = options;
+    const renderWidth = width * SUPERSAMPLE;
+    const renderHeight = height * SUPERSAMPLE;
+
+    const scene = new THREE.Scene();
+    scene.environment = environment;
+    scene.background = background ? new THREE.Color(background) : null;
+
+    scene.add(lights);
+
+    scene.add(object);
+    object.updateMatrixWorld(true);
+
+    const camera = new THREE.PerspectiveCamera(fov, width / height);
+    const box = new THREE.Box3().setFromObject(object);
+    const sphere = box.isEmpty()
+      ? new THREE.Sphere(new THREE.Vector3(), 1)
+      : box.getBoundingSphere(new THREE.Sphere());
+    fitCameraToSphere(camera, sphere, cameraAngle, padding);
+
+    resizeExtension.resize(renderWidth, renderHeight);
+    renderer.setSize(renderWidth, renderHeight, false);
+    renderer.setClearColor(0x000000, 0);
+    renderer.render(scene, camera);
+    scene.remove(object);
+
+    const pixels = new Uint8Array(renderWidth * renderHeight * 4);
+    gl.readPixels(0, 0, renderWidth, renderHeight, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+    const renderCanvas = createCanvas(renderWidth, renderHeight);
+    const renderContext = renderCanvas.getContext('2d');
+    const imageData = renderContext.createImageData(renderWidth, renderHeight);
+    imageData.data.set(toImageRows(pixels, renderWidth, renderHeight));
+    renderContext.putImageData(imageData, 0, 0);
+
+    const outputCanvas = createCanvas(width, height);
+    const outputContext = outputCanvas.getContext('2d');
+    outputContext.imageSmoothingQuality = 'high';
+    outputContext.drawImage(renderCanvas, 0, 0, width, height);
+    return outputCanvas.toBuffer('image/png');
+  };
+
+  /**
+   * 加载 GLB 文件并渲染为 PNG
+   * @param {string} filePath 文件路径
+   * @param {object} options 渲染参数
+   * @returns {Promise<Buffer>} PNG 数据
+   */
+  const renderModelFile = async (filePath, options) => {
+    const gltf = await gltfLoader.parseAsync(readArrayBuffer(filePath), `${path.dirname(filePath)}/`);
+    try {
+      normalizeModel(gltf.scene);
+      return renderObject(gltf.scene, options);
+    } finally {
+      disposeObject(gltf.scene);
+    }
+  };
+
+  /**
+   * 渲染材质色板（使用该材质的球体）为 PNG
+   * @param {object} material 材质列表中的材质（color、roughness、metallic）
+   * @param {object} options 渲染参数
+   * @returns {Buffer} PNG 数据
+   */
+  const renderMaterialSwatch = (material, options) => {
+    const sphereMaterial = new THREE.MeshStandardMaterial({
+      color: material.color,
+      roughness: material.roughness,
+      metalness: material.metallic
+    });
+    try {
+      return renderObject(new THREE.Mesh(swatchGeometry, sphereMaterial), options);
+    } finally {
+      sphereMaterial.dispose();
+    }
+  };
+
+  // 释放渲染器和 WebGL 上下文
+  const dispose = () => {
+    swatchGeometry.dispose();
+    disposeLightingRigObject(lights);
+    environment?.dispose();
+    renderer.dispose();
+    gl.getExtension('STACKGL_destroy_context')?.destroy();
+  };
+
+  return { renderModelFile, renderMaterialSwatch, dispose };
+};
@@ -0,0 +1,149 @@
+/**
+ * 批量渲染模型缩略图和材质色板图片
+ *
+ * 在 Node 中使用 headless-gl 离屏渲染，灯光和取景与网页查看器一致，
+ * 用于在构建步骤中生成素材目录图片，无需打开浏览器。
+ *
+ * 用法: npm run render-catalog -- [选项]
+ *   --models <目录>      遍历其中的 GLB 文件生成缩略图（默认 public/models）
+ *   --out <目录>         缩略图输出目录，保持模型的目录结构（默认 public/thumbnails）
+ *   --materials <文件>   材质列表，按 imagePath 输出色板图片（默认 public/materials/materials.json）
+ *   --only <类型>        只渲染 models 或 materials
+ *   --size <像素>        缩略图尺寸，默认使用 renderSettings.json 中的配置
+ *   --no-environment     不使用 HDR 环境贴图
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { register } from 'module';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+
+// 获取当前文件的目录
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const PUBLIC_DIR = path.join(ROOT_DIR, 'public');
+
+// 渲染配置，与前端 renderService.ts 共用
+const renderSettings = JSON.parse(
+  fs.readFileSync(path.join(ROOT_DIR, 'src', 'config', 'renderSettings.json'), 'utf8')
+);
+
+const { values: args } = parseArgs({
+  options: {
+    models: { type: 'string', default: path.join(PUBLIC_DIR, 'models') },
+    out: { type: 'string', default: path.join(PUBLIC_DIR, 'thumbnails') },
+    materials: { type: 'string', default: path.join(PUBLIC_DIR, 'materials', 'materials.json') },
+    only: { type: 'string' },
+    size: { type: 'string' },
+    'no-environment': { type: 'boolean', default: false }
+  }
+});
+
+if (args.only && !['models', 'materials'].includes(args.only)) {
+  console.error(`--only 只能是 models 或 materials: ${args.only}`);
+  process.exit(1);
+}
+
+// 递归查找目录中的 GLB 文件
+const findGLBFiles = (dir) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findGLBFiles(entryPath);
+    return entry.name.toLowerCase().endsWith('.glb') ? [entryPath] : [];
+  });
+};
+
+// 写入图片文件，目录不存在时创建
+const writeImage = (filePath, data) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, data);
+  console.log(`已生成: ${path.relative(ROOT_DIR, filePath)}`);
+};
+
+// 渲染模型缩略图，返回失败的数量
+const renderModelThumbnails = async (renderer) => {
+  const modelsDir = path.resolve(args.models);
+  const files = findGLBFiles(modelsDir);
+  console.log(`找到 ${files.length} 个模型: ${path.relative(ROOT_DIR, modelsDir) || '.'}`);
+
+  const size = args.size ? parseInt(args.size, 10) : null;
+  let failed = 0;
+
+  for (const filePath of files) {
+    try {
+      const image = await renderer.renderModelFile(filePath, size ? { width: size, height: size } : {});
+      const relativePath = path.relative(modelsDir, filePath).replace(/\.glb$/i, '.png');
+      writeImage(path.join(path.resolve(args.out), relativePath), image);
+    } catch (error) {
+      failed++;
+      console.error(`渲染模型失败: ${filePath}`, error.message);
+    }
+  }
+
+  return failed;
+};
+
+// 渲染材质色板图片，返回失败的数量
+const renderMaterialSwatches = (renderer) => {
+  const materialsFile = path.resolve(args.materials);
+  if (!fs.existsSync(materialsFile)) {
+    console.warn(`材质列表不存在，跳过色板渲染: ${materialsFile}`);
+    return 0;
+  }
+
+  const materials = JSON.parse(fs.readFileSync(materialsFile, 'utf8'));
+  console.log(`找到 ${materials.length} 个材质: ${path.relative(ROOT_DIR, materialsFile)}`);
+
+  let failed = 0;
+  for (const material of materials) {
+    if (!material.imagePath) continue;
+
+    try {
+      const image = renderer.renderMaterialSwatch(material, renderSettings.swatch);
+      writeImage(path.join(PUBLIC_DIR, material.imagePath), image);
+    } catch (error) {
+      failed++;
+      console.error(`渲染材质失败: ${material.name}`, error.message);
+    }
+  }
+
+  return failed;
+};
+
+// 主函数
+const main = async () => {
+  // headless-gl 只支持 WebGL 1，three 及其加载器需要解析到兼容 WebGL 1 的版本，
+  // 因此注册解析钩子后再加载渲染模块
+  register('./threeAliasHooks.js', import.meta.url);
+  const { createHeadlessRenderer } = await import('./headlessRenderer.js');
+
+  const renderer = createHeadlessRenderer(renderSettings, {
+    environmentPath: args['no-environment'] ? null : path.join(PUBLIC_DIR, renderSettings.environment)
+  });
+
+  let failed = 0;
+  try {
+    if (args.only !== 'materials') {
+      failed += await renderModelThumbnails(renderer);
+    }
+    if (args.only !== 'models') {
+      failed += renderMaterialSwatches(renderer);
+    }
+  } finally {
+    renderer.dispose();
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} 个图片渲染失败`);
+    process.exit(1);
+  }
+  console.log('渲染完成');
+};
+
+main().catch(error => {
+  console.error('批量渲染时出错:', error);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+// 模块解析钩子：把 three 及其子路径（包括 three 示例加载器内部的引用）
+// 解析到最后一个支持 WebGL 1 的版本 three-webgl1，headless-gl 只提供 WebGL 1 上下文
+export const resolve = (specifier, context, nextResolve) => {
+  if (specifier === 'three' || specifier.startsWith('three/')) {
+    return nextResolve(specifier.replace(/^three/, 'three-webgl1'), context);
+  }
+  return nextResolve(specifier, context);
+};
@@ -0,0 +1,514 @@
+/**
+ * 会通3D 本地后端服务器
+ *
+ * 提供模型、缩略图、材质和环境贴图文件的上传、列表、下载、删除和元数据接口，
+ * 文件保存在本地磁盘，大小和类型限制来自 src/config/storageBuckets.json
+ * （与前端 fileStorage.ts 中的存储桶配置相同）。
+ *
+ * 接口:
+ *   POST   /api/upload-model               上传模型（表单字段 modelFile）
+ *   POST   /api/:bucket                    上传文件（表单字段 file）
+ *   GET    /api/:bucket                    列出文件元数据
+ *   GET    /api/:bucket/:fileName          下载文件
+ *   GET    /api/:bucket/:fileName/metadata 获取文件元数据
+ *   DELETE /api/:bucket/:fileName          删除文件
+ *   GET    /api/records/:collection        列出模型、材质、环境贴图或灯光方案记录
+ *   GET    /api/records/:collection/:id    获取单条记录
+ *   PUT    /api/records/:collection/:id    添加或更新记录（JSON）
+ *   DELETE /api/records/:collection/:id    删除记录
+ *   GET    /:bucket/:fileName              公开存储桶的静态文件访问（例如 /models/xxx.glb）
+ */
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+
+// 加载环境变量
+dotenv.config();
+
+// 获取当前文件的目录
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PORT = parseInt(process.env.SERVER_PORT || '9000', 10);
+const STORAGE_DIR = path.resolve(process.env.STORAGE_DIR || path.join(__dirname, '..', 'storage'));
+const METADATA_DIR_NAME = '.metadata';
+const RECORDS_DIR_NAME = 'records';
+
+// 记录集合（前端 REST 存储后端使用），材质贴图以Data URL保存在记录中，因此放宽请求体大小
+const RECORD_COLLECTIONS = ['models', 'materials', 'environments', 'lighting-rigs'];
+const RECORD_SIZE_LIMIT_MB = 20;
+
+// 读取存储桶配置
+const bucketConfig = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '..', 'src', 'config', 'storageBuckets.json'), 'utf8')
+);
+
+// 常见扩展名对应的MIME类型，用于下载时设置响应头
+const MIME_TYPES = {
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.obj': 'text/plain',
+  '.fbx': 'application/octet-stream',
+  '.stl': 'model/stl',
+  '.ply': 'application/octet-stream',
+  '.3mf': 'model/3mf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.json': 'application/json',
+  '.hdr': 'image/vnd.radiance',
+  '.exr': 'image/x-exr'
+};
+
+// 请求错误，携带HTTP状态码
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// 获取存储桶配置，不存在时抛出404（只查找配置自身的键，避免匹配到 constructor 等原型属性）
+const getBucket = (bucketName) => {
+  if (!Object.hasOwn(bucketConfig, bucketName)) {
+    throw new HttpError(404, `存储桶不存在: ${bucketName}`);
+  }
+  return bucketConfig[bucketName];
+};
+
+// 存储桶目录
+const getBucketDir = (bucket) => path.join(STORAGE_DIR, bucket.name);
+
+// 元数据目录
+const getMetadataDir = (bucket) => path.join(getBucketDir(bucket), METADATA_DIR_NAME);
+
+// 确保存储桶和记录目录存在
+const ensureBucketDirs = () => {
+  Object.values(bucketConfig).forEach(bucket => {
+    fs.mkdirSync(getMetadataDir(bucket), { recursive: true });
+  });
+  fs.mkdirSync(path.join(STORAGE_DIR, RECORDS_DIR_NAME), { recursive: true });
+};
+
+// 解码路径中的一段，编码无效时抛出400
+const decodePathSegment = (segment) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    throw new HttpError(400, `无效的路径编码: ${segment}`);
+  }
+};
+
+// 校验文件名，防止路径穿越
+const sanitizeFileName = (fileName) => {
+  const baseName = path.basename(decodePathSegment(fileName));
+  if (!baseName || baseName.startsWith('.')) {
+    throw new HttpError(400, '无效的文件名');
+  }
+  return baseName;
+};
+
+// 生成唯一文件名，与前端 generateUniqueFileName 保持一致
+const generateUniqueFileName = (fileName) => {
+  const safeName = path.basename(fileName).replace(/[^\w.\-一-龥]/g, '_');
+  return `${Date.now()}_${safeName}`;
+};
+
+// 检查文件类型是否允许，只根据扩展名判断，客户端声明的MIME类型不可信
+const isFileTypeAllowed = (fileName, allowedTypes) => {
+  const extension = path.extname(fileName).toLowerCase();
+  return !!extension && allowedTypes.includes(extension);
+};
+
+// 读取文件元数据
+const readMetadata = (bucket, fileName) => {
+  const filePath = path.join(getBucketDir(bucket), fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new HttpError(404, `文件不存在: ${fileName}`);
+  }
+
+  const metadataPath = path.join(getMetadataDir(bucket), `${fileName}.json`);
+  if (fs.existsSync(metadataPath)) {
+    return JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+  }
+
+  // 没有元数据文件时（例如手动放入的文件），根据文件信息生成
+  const stats = fs.statSync(filePath);
+  return {
+    name: fileName,
+    originalName: fileName,
+    bucket: bucket.name,
+    size: stats.size,
+    mimeType: MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream',
+    filePath: `/${bucket.name}/${fileName}`,
+    created_at: stats.birthtime.toISOString(),
+    updated_at: stats.mtime.toISOString()
+  };
+};
+
+// 发送JSON响应
+const sendJson = (res, status, data) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+};
+
+// 发送文件
+const sendFile = (res, bucket, fileName, download) => {
+  const metadata = readMetadata(bucket, fileName);
+  const headers = {
+    // 按扩展名确定类型，不使用旧元数据中客户端声明的类型
+    'Content-Type': MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream',
+    'Content-Length': metadata.size
+  };
+  if (download) {
+    headers['Content-Disposition'] = `attachment; filename*=UTF-8''${encodeURIComponent(metadata.originalName)}`;
+  }
+  // 文件可能在检查之后被删除（例如删除请求与读取同时进行），打开成功后才发送响应头，读取出错时不让进程退出
+  const stream = fs.createReadStream(path.join(getBucketDir(bucket), fileName));
+  stream.once('open', () => {
+    res.writeHead(200, headers);
+    stream.pipe(res);
+  });
+  stream.on('error', (error) => {
+    if (res.headersSent) {
+      console.error('读取文件失败:', error);
+      res.destroy(error);
+    } else if (error.code === 'ENOENT') {
+      sendJson(res, 404, { success: false, error: `文件不存在: ${fileName}` });
+    } else {
+      console.error('读取文件失败:', error);
+      sendJson(res, 500, { success: false, error: '服务器内部错误' });
+    }
+  });
+  // 客户端提前断开时停止读取
+  res.on('close', () => stream.destroy());
+};
+
+// multipart表单中边界和其他字段占用的大小余量
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// 解析multipart表单，返回指定字段的文件
+const readUploadedFile = async (req, bucket, fieldName) => {
+  const sizeLimit = bucket.fileSizeLimitMB * 1024 * 1024 + FORM_OVERHEAD_BYTES;
+  const sizeError = new HttpError(413, `文件大小超过限制 (${bucket.fileSizeLimitMB}MB)`);
+  const contentLength = parseInt(req.headers['content-length'] || '0', 10);
+  if (contentLength > sizeLimit) {
+    throw sizeError;
+  }
+
+  // 分块上传没有 Content-Length，读取时累计字节数，超过限制立即停止读取
+  let exceeded = false;
+  const body = new ReadableStream({
+    start: (controller) => {
+      let size = 0;
+      req.on('data', (chunk) => {
+        if (exceeded) return;
+        size += chunk.length;
+        if (size > sizeLimit) {
+          exceeded = true;
+          req.pause();
+          controller.error(sizeError);
+          return;
+        }
+        controller.enqueue(chunk);
+      });
+      req.on('end', () => {
+        if (!exceeded) controller.close();
+      });
+      req.on('error', (error) => {
+        if (!exceeded) controller.error(error);
+      });
+    }
+  });
+
+  const request = new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body,
+    duplex: 'half'
+  });
+
+  let formData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    if (exceeded) throw sizeError;
+    throw new HttpError(400, '无法解析上传的表单数据');
+  }
+
+  const file = formData.get(fieldName);
+  if (!file || typeof file === 'string') {
+    throw new HttpError(400, `缺少上传文件字段: ${fieldName}`);
+  }
+  return file;
+};
+
+// 保存上传的文件并写入元数据
+const saveUploadedFile = async (bucket, file) => {
+  if (file.size > bucket.fileSizeLimitMB * 1024 * 1024) {
+    throw new HttpError(413, `文件大小超过限制 (${bucket.fileSizeLimitMB}MB)`);
+  }
+  if (!isFileTypeAllowed(file.name, bucket.allowedMimeTypes)) {
+    throw new HttpError(415, `不支持的文件类型: ${file.name}`);
+  }
+
+  const fileName = generateUniqueFileName(file.name);
+  const currentTime = new Date().toISOString();
+  const metadata = {
+    name: fileName,
+    originalName: file.name,
+    bucket: bucket.name,
+    size: file.size,
+    // 返回文件时使用的类型，根据扩展名确定
+    mimeType: MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream',
+    filePath: `/${bucket.name}/${fileName}`,
+    created_at: currentTime,
+    updated_at: currentTime
+  };
+
+  await fs.promises.writeFile(path.join(getBucketDir(bucket), fileName), Buffer.from(await file.arrayBuffer()));
+  await fs.promises.writeFile(
+    path.join(getMetadataDir(bucket), `${fileName}.json`),
+    JSON.stringify(metadata, null, 2)
+  );
+
+  console.log(`文件已保存: ${metadata.filePath} (${(file.size / (1024 * 1024)).toFixed(2)}MB)`);
+  return metadata;
+};
+
+// 列出存储桶中的文件
+const listFiles = (bucket) => {
+  return fs.readdirSync(getBucketDir(bucket), { withFileTypes: true })
+    .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+    .map(entry => readMetadata(bucket, entry.name))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// 删除文件及其元数据
+const deleteFile = async (bucket, fileName) => {
+  const filePath = path.join(getBucketDir(bucket), fileName);
+  if (!fs.existsSync(filePath)) {
+    throw new HttpError(404, `文件不存在: ${fileName}`);
+  }
+
+  await fs.promises.unlink(filePath);
+  await fs.promises.rm(path.join(getMetadataDir(bucket), `${fileName}.json`), { force: true });
+  console.log(`文件已删除: /${bucket.name}/${fileName}`);
+};
+
+// 记录集合文件路径
+const getRecordsPath = (collection) => {
+  if (!RECORD_COLLECTIONS.includes(collection)) {
+    throw new HttpError(404, `记录集合不存在: ${collection}`);
+  }
+  return path.join(STORAGE_DIR, RECORDS_DIR_NAME, `${collection}.json`);
+};
+
+// 读取记录集合
+const readRecords = (collection) => {
+  const recordsPath = getRecordsPath(collection);
+  if (!fs.existsSync(recordsPath)) return [];
+  return JSON.parse(fs.readFileSync(recordsPath, 'utf8'));
+};
+
+// 记录写入队列，保证同一时间只有一个请求修改记录文件
+let recordsWriteQueue = Promise.resolve();
+
+// 修改记录集合，updater 返回修改结果；先写临时文件再重命名，避免写入中断导致数据损坏
+const updateRecords = (collection, updater) => {
+  const task = recordsWriteQueue.then(async () => {
+    const records = readRecords(collection);
+    const result = updater(records);
+    const recordsPath = getRecordsPath(collection);
+    const tempPath = `${recordsPath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(records, null, 2));
+    await fs.promises.rename(tempPath, recordsPath);
+    return result;
+  });
+  recordsWriteQueue = task.catch(() => {});
+  return task;
+};
+
+// 读取JSON请求体
+const readJsonBody = async (req) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > RECORD_SIZE_LIMIT_MB * 1024 * 1024) {
+      throw new HttpError(413, `记录大小超过限制 (${RECORD_SIZE_LIMIT_MB}MB)`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    throw new HttpError(400, '无法解析JSON请求体');
+  }
+};
+
+// 处理记录请求
+const handleRecordsRequest = async (req, res, segments) => {
+  const [collection, rawId] = segments;
+
+  if (!rawId) {
+    if (req.method !== 'GET' || segments.length !== 1) throw new HttpError(405, '不支持的请求方法');
+    sendJson(res, 200, { success: true, records: readRecords(collection) });
+    return;
+  }
+
+  const id = decodePathSegment(rawId);
+
+  if (req.method === 'GET') {
+    const record = readRecords(collection).find(item => item.id === id);
+    if (!record) throw new HttpError(404, `记录不存在: ${id}`);
+    sendJson(res, 200, { success: true, record });
+    return;
+  }
+  if (req.method === 'PUT') {
+    getRecordsPath(collection); // 读取请求体前先校验记录集合
+    const record = await readJsonBody(req);
+    if (!record || record.id !== id) {
+      throw new HttpError(400, '记录ID与请求路径不一致');
+    }
+    await updateRecords(collection, records => {
+      const index = records.findIndex(item => item.id === id);
+      if (index >= 0) {
+        records[index] = record;
+      } else {
+        records.push(record);
+      }
+    });
+    sendJson(res, 200, { success: true, record });
+    return;
+  }
+  if (req.method === 'DELETE') {
+    const deleted = await updateRecords(collection, records => {
+      const index = records.findIndex(item => item.id === id);
+      if (index >= 0) records.splice(index, 1);
+      return index >= 0;
+    });
+    if (!deleted) throw new HttpError(404, `记录不存在: ${id}`);
+    sendJson(res, 200, { success: true });
+    return;
+  }
+  throw new HttpError(405, '不支持的请求方法');
+};
+
+// 处理API请求
+const handleApiRequest = async (req, res, segments) => {
+  if (segments[0] === 'records') {
+    await handleRecordsRequest(req, res, segments.slice(1));
+    return;
+  }
+
+  // 兼容后台模型管理使用的上传接口
+  if (segments[0] === 'upload-model' && segments.length === 1) {
+    if (req.method !== 'POST') throw new HttpError(405, '不支持的请求方法');
+    const bucket = getBucket('models');
+    const file = await readUploadedFile(req, bucket, 'modelFile');
+    const metadata = await saveUploadedFile(bucket, file);
+    sendJson(res, 200, { success: true, filePath: metadata.filePath, file: metadata });
+    return;
+  }
+
+  const [bucketName, rawFileName, action] = segments;
+  const bucket = getBucket(bucketName);
+
+  if (!rawFileName) {
+    if (req.method === 'GET') {
+      sendJson(res, 200, { success: true, files: listFiles(bucket) });
+      return;
+    }
+    if (req.method === 'POST') {
+      const file = await readUploadedFile(req, bucket, 'file');
+      const metadata = await saveUploadedFile(bucket, file);
+      sendJson(res, 200, { success: true, filePath: metadata.filePath, file: metadata });
+      return;
+    }
+    throw new HttpError(405, '不支持的请求方法');
+  }
+
+  const fileName = sanitizeFileName(rawFileName);
+
+  if (action === 'metadata' && segments.length === 3 && req.method === 'GET') {
+    sendJson(res, 200, { success: true, file: readMetadata(bucket, fileName) });
+    return;
+  }
+  if (segments.length !== 2) {
+    throw new HttpError(404, '接口不存在');
+  }
+
+  if (req.method === 'GET') {
+    sendFile(res, bucket, fileName, true);
+    return;
+  }
+  if (req.method === 'DELETE') {
+    await deleteFile(bucket, fileName);
+    sendJson(res, 200, { success: true });
+    return;
+  }
+  throw new HttpError(405, '不支持的请求方法');
+};
+
+// 处理请求
+const handleRequest = async (req, res) => {
+  // 允许前端开发服务器跨域访问
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    const { pathname } = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    const segments = pathname.split('/').filter(Boolean);
+
+    if (segments[0] === 'api') {
+      await handleApiRequest(req, res, segments.slice(1));
+      return;
+    }
+
+    // 公开存储桶的静态文件
+    if (segments.length === 2 && req.method === 'GET') {
+      const bucket = getBucket(segments[0]);
+      if (bucket.isPublic) {
+        sendFile(res, bucket, sanitizeFileName(segments[1]), false);
+        return;
+      }
+    }
+
+    throw new HttpError(404, '接口不存在');
+  } catch (error) {
+    // 请求体没有读完时（例如上传超过大小限制），响应后关闭连接，不再接收剩余数据
+    if (!req.complete && !res.headersSent) {
+      res.setHeader('Connection', 'close');
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { success: false, error: error.message });
+      return;
+    }
+    console.error('处理请求时出错:', error);
+    if (!res.headersSent) {
+      sendJson(res, 500, { success: false, error: '服务器内部错误' });
+    } else {
+      res.end();
+    }
+  }
+};
+
+ensureBucketDirs();
+
+http.createServer(handleRequest).listen(PORT, () => {
+  console.log(`本地后端服务器已启动: http://localhost:${PORT}`);
+  console.log(`文件存储目录: ${STORAGE_DIR}`);
+});
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { PauseIcon, PlayIcon } from 'lucide-react';
+import {
+  ANIMATION_LOOP_MODES,
+  ANIMATION_SPEED_OPTIONS,
+  type AnimationLoopMode,
+  type AnimationPlayer
+} from '../utils/animationPlayer';
+
+interface AnimationControlsProps {
+  player: AnimationPlayer;
+}
+
+// 下拉框的样式
+const SELECT_CLASS_NAME = 'h-7 px-1 rounded-md bg-container-hover text-text-secondary text-xs outline-none';
+
+/**
+ * 格式化动画时间
+ * @param time 时间（秒）
+ * @returns 保留两位小数的秒数
+ */
+const formatTime = (time: number): string => `${time.toFixed(2)}s`;
+
+/**
+ * 模型动画播放控制条
+ * 选择动画片段，播放/暂停，拖动时间轴，设置循环方式和播放速度
+ */
+const AnimationControls: React.FC<AnimationControlsProps> = ({ player }) => {
+  const [state, setState] = useState(player.getState());
+
+  // 订阅播放器状态，播放时每帧更新时间轴
+  useEffect(() => {
+    setState(player.getState());
+    return player.subscribe(setState);
+  }, [player]);
+
+  return (
+    <div className="px-3 py-2 bg-container rounded-xl flex items-center gap-2 text-text-secondary text-xs">
+      <button
+        onClick={() => (state.playing ? player.pause() : player.play())}
+        className="w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-md hover:bg-container-hover"
+        title={state.playing ? '暂停' : '播放'}
+      >
+        {state.playing ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+      </button>
+
+      {player.clips.length > 1 && (
+        <select
+          value={state.clipIndex}
+          onChange={(e) => player.setClip(Number(e.target.value))}
+          className={`${SELECT_CLASS_NAME} max-w-[120px]`}
+          title="动画片段"
+        >
+          {player.clips.map((clip, index) => (
+            <option key={index} value={index}>{clip.name || `动画 ${index + 1}`}</option>
+          ))}
+        </select>
+      )}
+
+      <input
+        type="range"
+        min={0}
+        max={state.duration}
+        step={0.01}
+        value={state.time}
+        onChange={(e) => {
+          player.pause();
+          player.seek(Number(e.target.value));
+        }}
+        className="flex-1 min-w-0"
+        title="时间轴"
+      />
+
+      <span className="w-[88px] flex-shrink-0 text-right tabular-nums">
+        {formatTime(state.time)} / {formatTime(state.duration)}
+      </span>
+
+      <select
+        value={state.loopMode}
+        onChange={(e) => player.setLoopMode(e.target.value as AnimationLoopMode)}
+        className={SELECT_CLASS_NAME}
+        title="循环方式"
+      >
+        {(Object.keys(ANIMATION_LOOP_MODES) as AnimationLoopMode[]).map(value => (
+          <option key={value} value={value}>{ANIMATION_LOOP_MODES[value]}</option>
+        ))}
+      </select>
+
+      <select
+        value={state.speed}
+        onChange={(e) => player.setSpeed(Number(e.target.value))}
+        className={SELECT_CLASS_NAME}
+        title="播放速度"
+      >
+        {ANIMATION_SPEED_OPTIONS.map(value => (
+          <option key={value} value={value}>{value}×</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default AnimationControls;
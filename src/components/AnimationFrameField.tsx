@@ -0,0 +1,56 @@
+import React from 'react';
+
+interface AnimationFrameFieldProps {
+  duration: number;           // 当前动画片段的时长（秒）
+  value: number | null;       // 导出的动画时间，null 使用当前画面的姿态
+  disabled?: boolean;
+  onChange: (value: number | null) => void;
+}
+
+/**
+ * 导出对话框中选择动画帧的表单项
+ */
+const AnimationFrameField: React.FC<AnimationFrameFieldProps> = ({ duration, value, disabled, onChange }) => {
+  return (
+    <div className="col-span-2 flex flex-col gap-1">
+      <div className="flex items-center gap-4">
+        <span>动画帧</span>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={value === null}
+            disabled={disabled}
+            onChange={() => onChange(null)}
+          />
+          当前画面
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={value !== null}
+            disabled={disabled}
+            onChange={() => onChange(0)}
+          />
+          指定时间
+        </label>
+      </div>
+      {value !== null && (
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={value}
+            disabled={disabled}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="w-24 text-right tabular-nums">{value.toFixed(2)}s / {duration.toFixed(2)}s</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnimationFrameField;
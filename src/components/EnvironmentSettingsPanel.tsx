@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  ENVIRONMENT_BACKGROUNDS,
+  type EnvironmentBackground,
+  type EnvironmentMap,
+  type EnvironmentSettings
+} from '../lib/environmentStorage';
+import { type LightingRig } from '../lib/lightingStorage';
+
+interface EnvironmentSettingsPanelProps {
+  environments: EnvironmentMap[];  // 内置和管理员上传的环境贴图
+  settings: EnvironmentSettings;
+  onChange: (changes: Partial<EnvironmentSettings>) => void;
+  lightingRigs: LightingRig[];     // 内置和管理员创建的灯光方案
+  lightingRigId: string;
+  onLightingRigChange: (rigId: string) => void;
+}
+
+// 环境参数滑块
+const SLIDER_FIELDS: Array<{
+  key: 'rotation' | 'exposure' | 'intensity';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}> = [
+  { key: 'rotation', label: '旋转', min: -180, max: 180, step: 1 },
+  { key: 'exposure', label: '曝光', min: 0.1, max: 3, step: 0.05 },
+  { key: 'intensity', label: '强度', min: 0, max: 3, step: 0.05 }
+];
+
+// 选项按钮的样式
+const getChipClassName = (active: boolean): string => (
+  `h-7 px-2 max-w-full rounded-md text-sm truncate border border-solid ${active ? 'bg-container-hover text-text-primary border-border-emphasis' : 'bg-container text-text-secondary border-transparent hover:bg-container-hover'}`
+);
+
+// 滑块和颜色选择器的样式，与材质设置一致
+const SLIDER_CLASS_NAME = 'w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary';
+const COLOR_INPUT_CLASS_NAME = 'w-8 h-8 bg-input-bg rounded-lg border-0 cursor-pointer [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:border-none flex-shrink-0';
+
+/**
+ * 环境设置面板
+ * 选择环境贴图和灯光方案，调整旋转、曝光和强度，设置查看器背景
+ */
+const EnvironmentSettingsPanel: React.FC<EnvironmentSettingsPanelProps> = ({
+  environments,
+  settings,
+  onChange,
+  lightingRigs,
+  lightingRigId,
+  onLightingRigChange
+}) => {
+  return (
+    <div className="flex flex-col gap-sm w-full">
+      <div className="flex flex-wrap gap-xs w-full">
+        {environments.map(environment => (
+          <button
+            key={environment.id}
+            title={environment.name}
+            onClick={() => onChange({ environmentId: environment.id })}
+            className={getChipClassName(environment.id === settings.environmentId)}
+          >
+            {environment.name}
+          </button>
+        ))}
+      </div>
+
+      {SLIDER_FIELDS.map(({ key, label, min, max, step }) => (
+        <div key={key} className="space-y-xs w-full">
+          <div className="flex justify-between w-full">
+            <label className="text-text-secondary text-sm font-medium leading-normal">{label}</label>
+            <span className="text-text-tertiary text-sm font-medium leading-normal">
+              {key === 'rotation' ? `${settings.rotation}°` : settings[key]}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={settings[key]}
+            onChange={(e) => onChange({ [key]: parseFloat(e.target.value) })}
+            className={SLIDER_CLASS_NAME}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-xs w-full">
+        <label className="text-text-secondary text-sm font-medium leading-normal">灯光</label>
+        <div className="flex flex-wrap gap-xs w-full">
+          {lightingRigs.map(rig => (
+            <button
+              key={rig.id}
+              title={rig.name}
+              onClick={() => onLightingRigChange(rig.id)}
+              className={getChipClassName(rig.id === lightingRigId)}
+            >
+              {rig.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-xs w-full">
+        <label className="text-text-secondary text-sm font-medium leading-normal">背景</label>
+        <div className="h-8 p-0.5 w-full bg-container rounded-lg grid grid-cols-5">
+          {(Object.keys(ENVIRONMENT_BACKGROUNDS) as EnvironmentBackground[]).map(background => (
+            <button
+              key={background}
+              onClick={() => onChange({ background })}
+              className={`rounded-md text-xs font-medium ${settings.background === background ? 'bg-container-hover text-text-primary' : 'text-text-secondary'}`}
+            >
+              {ENVIRONMENT_BACKGROUNDS[background]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.background === 'color' && (
+        <input
+          type="color"
+          title="背景颜色"
+          value={settings.backgroundColor}
+          onChange={(e) => onChange({ backgroundColor: e.target.value })}
+          className={COLOR_INPUT_CLASS_NAME}
+        />
+      )}
+
+      {settings.background === 'gradient' && (
+        <div className="flex items-center gap-sm w-full">
+          <input
+            type="color"
+            title="顶部颜色"
+            value={settings.gradientColors[0]}
+            onChange={(e) => onChange({ gradientColors: [e.target.value, settings.gradientColors[1]] })}
+            className={COLOR_INPUT_CLASS_NAME}
+          />
+          <input
+            type="color"
+            title="底部颜色"
+            value={settings.gradientColors[1]}
+            onChange={(e) => onChange({ gradientColors: [settings.gradientColors[0], e.target.value] })}
+            className={COLOR_INPUT_CLASS_NAME}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentSettingsPanel;
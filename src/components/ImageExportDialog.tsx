@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { toast } from './ui/toast';
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  getImageSize,
+  IMAGE_FRAMINGS,
+  MAX_IMAGE_SIZE,
+  SUPERSAMPLE_OPTIONS,
+  type ImageExportOptions,
+  type ImageFraming
+} from '../utils/imageExport';
+import { type AnimationFrameOptions } from '../utils/animationPlayer';
+import AnimationFrameField from './AnimationFrameField';
+
+interface ImageExportDialogProps {
+  viewAspect: number; // 查看器画面的宽高比
+  animationDuration?: number; // 模型当前动画片段的时长，没有动画时不设置
+  onExport: (options: ImageExportOptions & AnimationFrameOptions) => Promise<Blob>;
+  viewpointCount?: number; // 模型上保存的视角数量
+  onExportViewpoints?: (
+    options: ImageExportOptions & AnimationFrameOptions,
+    onProgress: (progress: number) => void
+  ) => Promise<Blob>; // 按保存的各个视角导出，打包为 ZIP
+  onClose: () => void;
+}
+
+// 可选的宽高比，view 跟随画面，custom 自由设置宽高
+const ASPECT_OPTIONS = [
+  { value: 'view', label: '跟随画面', ratio: 0 },
+  { value: '1:1', label: '1:1', ratio: 1 },
+  { value: '4:3', label: '4:3', ratio: 4 / 3 },
+  { value: '3:4', label: '3:4', ratio: 3 / 4 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16', ratio: 9 / 16 },
+  { value: 'custom', label: '自定义', ratio: 0 }
+];
+
+// 常用的图片宽度
+const WIDTH_PRESETS = [
+  { label: '1K', width: 1024 },
+  { label: '2K', width: 2048 },
+  { label: '4K', width: 3840 },
+  { label: '8K', width: 7680 }
+];
+
+// 输入框和下拉框的样式
+const FIELD_CLASS_NAME = 'h-9 w-full px-2 rounded-md border border-gray-200 bg-white text-gray-800';
+
+// 将输入的边长限制在有效范围内
+const clampSize = (value: number): number => Math.min(MAX_IMAGE_SIZE, Math.max(1, Math.round(value) || 1));
+
+/**
+ * 图片导出对话框
+ * 设置分辨率、宽高比、背景、超采样和取景方式后导出 PNG 图片，模型上有保存的视角时可以一次导出所有视角
+ */
+const ImageExportDialog: React.FC<ImageExportDialogProps> = ({
+  viewAspect,
+  animationDuration,
+  onExport,
+  viewpointCount = 0,
+  onExportViewpoints,
+  onClose
+}) => {
+  const initialSize = getImageSize(DEFAULT_IMAGE_EXPORT_OPTIONS.width, viewAspect);
+  const [aspect, setAspect] = useState('view');
+  const [width, setWidth] = useState(initialSize.width);
+  const [height, setHeight] = useState(initialSize.height);
+  const [supersample, setSupersample] = useState(DEFAULT_IMAGE_EXPORT_OPTIONS.supersample);
+  const [framing, setFraming] = useState<ImageFraming>(DEFAULT_IMAGE_EXPORT_OPTIONS.framing);
+  const [transparent, setTransparent] = useState(true);
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [animationTime, setAnimationTime] = useState<number | null>(null);
+  const [exportViewpoints, setExportViewpoints] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  // 当前宽高比的数值，自定义时为0
+  const getRatio = (value: string): number => {
+    if (value === 'view') return viewAspect;
+    return ASPECT_OPTIONS.find(option => option.value === value)?.ratio || 0;
+  };
+  const ratio = getRatio(aspect);
+
+  // 按宽度更新尺寸，固定宽高比时同时更新高度
+  const updateWidth = (value: number, currentRatio = ratio) => {
+    if (!currentRatio) {
+      setWidth(clampSize(value));
+      return;
+    }
+    const size = getImageSize(clampSize(value), currentRatio);
+    setWidth(size.width);
+    setHeight(size.height);
+  };
+
+  // 按高度更新尺寸，固定宽高比时同时更新宽度
+  const updateHeight = (value: number) => {
+    if (!ratio) {
+      setHeight(clampSize(value));
+      return;
+    }
+    updateWidth(clampSize(value) * ratio);
+  };
+
+  const handleAspectChange = (value: string) => {
+    setAspect(value);
+    const nextRatio = getRatio(value);
+    if (nextRatio) {
+      updateWidth(width, nextRatio);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setProgress(0);
+    try {
+      const options = {
+        width,
+        height,
+        supersample,
+        framing,
+        background: transparent ? null : backgroundColor,
+        animationTime
+      };
+      const batch = exportViewpoints && !!onExportViewpoints;
+      const blob = batch ? await onExportViewpoints(options, setProgress) : await onExport(options);
+
+      // 下载导出的图片或压缩包
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = batch ? `模型视角_${new Date().getTime()}.zip` : `模型渲染_${new Date().getTime()}.png`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('图片已导出');
+      onClose();
+    } catch (error) {
+      console.error('导出图片失败:', error);
+      toast.error(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={exporting ? undefined : onClose}>
+      <div
+        className="w-[420px] max-w-[90vw] flex flex-col bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">导出图片</h3>
+          <p className="mt-1 text-sm text-gray-500">使用当前材质导出 PNG 图片，最大 {MAX_IMAGE_SIZE} × {MAX_IMAGE_SIZE}</p>
+        </div>
+
+        <div className="px-6 py-4 grid grid-cols-2 gap-4 text-sm text-gray-600">
+          <label className="col-span-2 flex flex-col gap-1">
+            宽高比
+            <select
+              value={aspect}
+              disabled={exporting}
+              onChange={(e) => handleAspectChange(e.target.value)}
+              className={FIELD_CLASS_NAME}
+            >
+              {ASPECT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            宽度（像素）
+            <input
+              type="number"
+              min={1}
+              max={MAX_IMAGE_SIZE}
+              value={width}
+              disabled={exporting}
+              onChange={(e) => updateWidth(Number(e.target.value))}
+              className={FIELD_CLASS_NAME}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            高度（像素）
+            <input
+              type="number"
+              min={1}
+              max={MAX_IMAGE_SIZE}
+              value={height}
+              disabled={exporting}
+              onChange={(e) => updateHeight(Number(e.target.value))}
+              className={FIELD_CLASS_NAME}
+            />
+          </label>
+
+          <div className="col-span-2 -mt-2 flex gap-2">
+            {WIDTH_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                disabled={exporting}
+                onClick={() => updateWidth(preset.width)}
+                className="px-2 py-1 text-xs rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex flex-col gap-1">
+            超采样
+            <select
+              value={supersample}
+              disabled={exporting}
+              onChange={(e) => setSupersample(Number(e.target.value))}
+              className={FIELD_CLASS_NAME}
+            >
+              {SUPERSAMPLE_OPTIONS.map(value => (
+                <option key={value} value={value}>{value === 1 ? '关闭' : `${value}×`}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            取景
+            <select
+              value={framing}
+              disabled={exporting}
+              onChange={(e) => setFraming(e.target.value as ImageFraming)}
+              className={FIELD_CLASS_NAME}
+            >
+              {(Object.keys(IMAGE_FRAMINGS) as ImageFraming[]).map(value => (
+                <option key={value} value={value}>{IMAGE_FRAMINGS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="col-span-2 flex items-center gap-4">
+            <span>背景</span>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={transparent}
+                disabled={exporting}
+                onChange={(e) => setTransparent(e.target.checked)}
+              />
+              透明
+            </label>
+            <input
+              type="color"
+              value={backgroundColor}
+              disabled={exporting || transparent}
+              onChange={(e) => setBackgroundColor(e.target.value)}
+              className="h-8 w-12 rounded border border-gray-200"
+            />
+          </div>
+
+          {animationDuration !== undefined && (
+            <AnimationFrameField
+              duration={animationDuration}
+              value={animationTime}
+              disabled={exporting}
+              onChange={setAnimationTime}
+            />
+          )}
+
+          {onExportViewpoints && viewpointCount > 0 && (
+            <label className="col-span-2 flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={exportViewpoints}
+                disabled={exporting}
+                onChange={(e) => setExportViewpoints(e.target.checked)}
+              />
+              导出所有保存的视角（{viewpointCount} 个，ZIP）
+            </label>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 text-sm rounded-md bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+          >
+            {exporting
+              ? (exportViewpoints ? `正在渲染 ${Math.round(progress * 100)}%` : '正在渲染…')
+              : '导出'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportDialog;
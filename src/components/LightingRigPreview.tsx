@@ -0,0 +1,64 @@
+import React, { useEffect, useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { type LightingRig } from '../lib/lightingStorage';
+import { colorTemperatureToColor, createLightingRigObject, disposeLightingRigObject } from '../utils/lightingRig';
+import { DEFAULT_ENVIRONMENT_LIGHTING } from '../utils/sceneEnvironment';
+import SceneEnvironment from './SceneEnvironment';
+
+interface LightingRigPreviewProps {
+  rig: LightingRig;
+  className?: string;
+}
+
+// 预览场景中的灯光，同时在灯光位置显示标记
+const PreviewLights: React.FC<{ rig: LightingRig }> = ({ rig }) => {
+  const lights = useMemo(() => createLightingRigObject(rig), [rig]);
+
+  // 修改灯光方案时释放阴影贴图
+  useEffect(() => {
+    return () => disposeLightingRigObject(lights);
+  }, [lights]);
+
+  return (
+    <>
+      <primitive object={lights} />
+      {rig.lights.map(light => (
+        <mesh key={light.id} position={light.position}>
+          <sphereGeometry args={[0.15, 16, 16]} />
+          <meshBasicMaterial color={colorTemperatureToColor(light.colorTemperature)} />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+/**
+ * 灯光方案预览
+ * 在球体和地面上预览灯光和阴影效果，可以拖动旋转视角
+ */
+const LightingRigPreview: React.FC<LightingRigPreviewProps> = ({ rig, className = '' }) => {
+  return (
+    <div className={className}>
+      <Canvas
+        className="w-full h-full bg-gray-900 rounded-md"
+        shadows="percentage"
+        camera={{ position: [6, 5, 8], fov: 45 }}
+      >
+        <PreviewLights rig={rig} />
+        <mesh position={[0, 0, 0]} castShadow receiveShadow>
+          <sphereGeometry args={[1, 64, 64]} />
+          <meshStandardMaterial color="#ffffff" roughness={0.4} />
+        </mesh>
+        <mesh position={[0, -1, 0]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+          <planeGeometry args={[12, 12]} />
+          <meshStandardMaterial color="#808080" roughness={0.9} />
+        </mesh>
+        <SceneEnvironment lighting={DEFAULT_ENVIRONMENT_LIGHTING} />
+        <OrbitControls enablePan={false} minDistance={4} maxDistance={20} />
+      </Canvas>
+    </div>
+  );
+};
+
+export default LightingRigPreview;
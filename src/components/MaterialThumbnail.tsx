@@ -1,61 +1,56 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { Environment, OrbitControls } from '@react-three/drei';
+import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
+import { type MaterialAppearance } from '../lib/materialStorage';
+import { storage } from '../lib/storage';
+import { createMaterial, needsPhysicalMaterial, updateMaterial } from '../utils/materialFactory';
+import { DEFAULT_ENVIRONMENT_LIGHTING, type EnvironmentLighting } from '../utils/sceneEnvironment';
+import SceneEnvironment from './SceneEnvironment';
 
 interface MaterialThumbnailProps {
-  color: string;      // 16进制颜色值，如 "#FF0000"
-  roughness: number;   // 0-1 范围
-  metallic: number;    // 0-1 范围
+  material: MaterialAppearance; // 材质外观属性（颜色、粗糙度、金属度、贴图等）
   size?: number;       // 缩略图大小，默认 64px
   className?: string;
+  environment?: EnvironmentLighting; // 环境光照，默认使用摄影棚环境
 }
 
 // 材质预览球体组件
 const MaterialSphere: React.FC<{
-  color: string;
-  roughness: number;
-  metallic: number;
-}> = ({ color, roughness, metallic }) => {
-  // 创建PBR材质
-  const material = useRef<THREE.MeshStandardMaterial>(null);
+  appearance: MaterialAppearance;
+}> = ({ appearance }) => {
+  // 创建PBR材质，只在标准/物理材质类型切换时重新创建，其余属性原地更新
+  const physical = needsPhysicalMaterial(appearance);
+  const material = useMemo(() => createMaterial(appearance), [physical]);
   
   // 更新材质属性
   useEffect(() => {
-    if (material.current) {
-      material.current.color.set(color);
-      material.current.roughness = roughness;
-      material.current.metalness = metallic;
-    }
-  }, [color, roughness, metallic]);
+    updateMaterial(material, appearance);
+  }, [material, appearance]);
+
+  // 卸载时释放材质
+  useEffect(() => {
+    return () => material.dispose();
+  }, [material]);
   
   return (
     <mesh position={[0, 0, 0]} castShadow>
       <sphereGeometry args={[1, 64, 64]} />
-      <meshStandardMaterial 
-        ref={material} 
-        color={color} 
-        roughness={roughness} 
-        metalness={metallic} 
-      />
+      <primitive object={material} attach="material" />
     </mesh>
   );
 };
 
 // 材质渲染场景组件 - 使用HDR环境贴图
 const MaterialScene: React.FC<{
-  color: string;
-  roughness: number;
-  metallic: number;
-}> = ({ color, roughness, metallic }) => {
+  appearance: MaterialAppearance;
+  environment: EnvironmentLighting;
+}> = ({ appearance, environment }) => {
   return (
     <>
-      <MaterialSphere color={color} roughness={roughness} metallic={metallic} />
-      {/* 使用与前台相同的HDR环境贴图 */}
-      <Environment
-        files="/assets/hdri/studio.hdr"
-        background={false}
-      />
+      <MaterialSphere appearance={appearance} />
+      {/* 使用与前台相同的环境光照，不显示背景 */}
+      <SceneEnvironment lighting={environment} />
       <OrbitControls enabled={false} />
       <ambientLight intensity={0.1} />
     </>
@@ -72,13 +67,14 @@ export const captureMaterialThumbnail = (): string | null => {
 };
 
 export const MaterialThumbnail: React.FC<MaterialThumbnailProps> = ({
-  color,
-  roughness,
-  metallic,
+  material,
   size = 64,
   className = '',
+  environment = DEFAULT_ENVIRONMENT_LIGHTING,
 }) => {
+  const { color, roughness, metallic } = material;
   const [canvasSupported, setCanvasSupported] = useState(true);
+  const [baseColorUrl, setBaseColorUrl] = useState<string | null>(null);
   
   useEffect(() => {
     // 检查Three.js和WebGL是否受支持
@@ -92,6 +88,24 @@ export const MaterialThumbnail: React.FC<MaterialThumbnailProps> = ({
     }
   }, []);
   
+  // CSS回退方案使用的基础颜色贴图URL
+  const baseColorPath = material.maps?.baseColor;
+  useEffect(() => {
+    if (canvasSupported || !baseColorPath) {
+      setBaseColorUrl(null);
+      return;
+    }
+    let cancelled = false;
+    storage.files.getUrl(baseColorPath)
+      .then(url => {
+        if (!cancelled) setBaseColorUrl(url);
+      })
+      .catch(error => console.error('获取材质贴图失败:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasSupported, baseColorPath]);
+  
   // 如果不支持Canvas/WebGL，则显示CSS回退方案
   if (!canvasSupported) {
     // 不需要解析颜色，直接使用原始颜色字符串
@@ -104,7 +118,8 @@ export const MaterialThumbnail: React.FC<MaterialThumbnailProps> = ({
           height: `${size}px`,
           display: 'inline-block',
           backgroundColor: color,
-          backgroundImage: `linear-gradient(135deg, rgba(255, 255, 255, ${0.9 - roughness * 0.9}) 0%, rgba(255, 255, 255, 0) 50%, rgba(0, 0, 0, ${0.2 + roughness * 0.2}) 100%)`,
+          backgroundImage: `linear-gradient(135deg, rgba(255, 255, 255, ${0.9 - roughness * 0.9}) 0%, rgba(255, 255, 255, 0) 50%, rgba(0, 0, 0, ${0.2 + roughness * 0.2}) 100%)${baseColorUrl ? `, url(${baseColorUrl})` : ''}`,
+          backgroundSize: 'cover',
           boxShadow: `inset 0 0 10px rgba(255, 255, 255, ${metallic * 0.8})`,
           position: 'relative',
           overflow: 'hidden',
@@ -196,11 +211,7 @@ export const MaterialThumbnail: React.FC<MaterialThumbnailProps> = ({
         camera={{ position: [0, 0.1, 2.5], fov: 50 }}
         style={{ background: 'transparent' }}
       >
-        <MaterialScene 
-          color={color} 
-          roughness={roughness} 
-          metallic={metallic} 
-        />
+        <MaterialScene appearance={material} environment={environment} />
       </Canvas>
     </div>
   );
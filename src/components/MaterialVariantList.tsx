@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { XIcon } from 'lucide-react';
+import { type ModelMaterialVariant } from '../lib/localStorage';
+
+interface MaterialVariantListProps {
+  presetNames: string[];                  // 模型文件中定义的材质变体
+  savedVariants: ModelMaterialVariant[];  // 用户保存在模型上的材质变体
+  canSave: boolean;
+  onApplyPreset: (index: number) => void;
+  onApplySaved: (variant: ModelMaterialVariant) => void;
+  onSave: (name: string) => void;
+  onDelete: (variantId: string) => void;
+}
+
+// 变体按钮的样式
+const CHIP_CLASS_NAME = 'h-7 px-2 inline-flex items-center gap-1 rounded-md bg-container text-text-secondary text-sm hover:bg-container-hover max-w-full';
+
+/**
+ * 材质变体列表
+ * 点击变体将其材质分配应用到各部件，也可以将当前的部件材质分配保存为新的变体
+ */
+const MaterialVariantList: React.FC<MaterialVariantListProps> = ({
+  presetNames,
+  savedVariants,
+  canSave,
+  onApplyPreset,
+  onApplySaved,
+  onSave,
+  onDelete
+}) => {
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const name = editingName?.trim();
+    if (!name) return;
+    onSave(name);
+    setEditingName(null);
+  };
+
+  if (presetNames.length === 0 && savedVariants.length === 0 && !canSave) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-xs w-full">
+      <div className="flex items-center justify-between w-full">
+        <span className="text-text-tertiary text-sm font-medium leading-normal">材质变体</span>
+        {canSave && editingName === null && (
+          <button
+            className="text-text-secondary text-sm hover:text-text-primary"
+            onClick={() => setEditingName(`变体 ${savedVariants.length + 1}`)}
+          >
+            保存当前
+          </button>
+        )}
+      </div>
+
+      {editingName !== null && (
+        <div className="flex items-center gap-xs w-full">
+          <input
+            autoFocus
+            value={editingName}
+            onChange={(e) => setEditingName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setEditingName(null);
+            }}
+            className="h-7 flex-1 min-w-0 px-2 rounded-md bg-input-bg text-text-primary text-sm outline-none"
+            placeholder="变体名称"
+          />
+          <button className="text-text-secondary text-sm hover:text-text-primary" onClick={handleSave}>保存</button>
+          <button className="text-text-tertiary text-sm hover:text-text-primary" onClick={() => setEditingName(null)}>取消</button>
+        </div>
+      )}
+
+      {(presetNames.length > 0 || savedVariants.length > 0) && (
+        <div className="flex flex-wrap gap-xs w-full">
+          {presetNames.map((name, index) => (
+            <button
+              key={`preset_${index}`}
+              className={CHIP_CLASS_NAME}
+              title={`模型内置变体: ${name}`}
+              onClick={() => onApplyPreset(index)}
+            >
+              <span className="truncate">{name}</span>
+            </button>
+          ))}
+          {savedVariants.map(variant => (
+            <div key={variant.id} className={CHIP_CLASS_NAME}>
+              <button className="truncate" title={`应用变体: ${variant.name}`} onClick={() => onApplySaved(variant)}>
+                {variant.name}
+              </button>
+              <button
+                className="text-text-tertiary hover:text-text-primary"
+                title="删除变体"
+                onClick={() => onDelete(variant.id)}
+              >
+                <XIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaterialVariantList;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { type ModelMetadata } from '../lib/localStorage';
+import { formatCount, formatFileSize } from '../utils/modelMetadata';
+
+interface ModelDetailsProps {
+  metadata: ModelMetadata;
+}
+
+/**
+ * 模型详情面板
+ * 显示上传时解析得到的模型元数据
+ */
+const ModelDetails: React.FC<ModelDetailsProps> = ({ metadata }) => {
+  const { dimensions, maxTextureSize } = metadata;
+
+  // 基本信息行：名称和值
+  const rows: [string, string][] = [
+    ['格式', metadata.format.toUpperCase()],
+    ['文件大小', metadata.originalSize > metadata.fileSize
+      ? `${formatFileSize(metadata.fileSize)}（原始 ${formatFileSize(metadata.originalSize)}）`
+      : formatFileSize(metadata.fileSize)],
+    ['三角面', formatCount(metadata.triangleCount)],
+    ['顶点', formatCount(metadata.vertexCount)],
+    ['网格', `${metadata.meshNames.length}`],
+    ['尺寸', `${dimensions.x} × ${dimensions.y} × ${dimensions.z}`],
+    ['贴图', maxTextureSize
+      ? `${metadata.textureCount} 张，最大 ${maxTextureSize[0]}×${maxTextureSize[1]}`
+      : `${metadata.textureCount} 张`]
+  ];
+
+  return (
+    <div className="flex flex-col gap-xs w-full text-sm leading-normal">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-sm">
+          <span className="text-text-tertiary flex-shrink-0">{label}</span>
+          <span className="text-text-primary truncate" title={value}>{value}</span>
+        </div>
+      ))}
+
+      {metadata.materialSlots.length > 0 && (
+        <div className="flex flex-col gap-1 mt-1">
+          <span className="text-text-tertiary">部件（{metadata.materialSlots.length}）</span>
+          <div className="flex flex-wrap gap-1">
+            {metadata.materialSlots.map((slotName, index) => (
+              <span key={`${slotName}_${index}`} className="px-1.5 py-0.5 bg-container-hover rounded text-text-secondary truncate max-w-full">
+                {slotName}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {metadata.animations.length > 0 && (
+        <div className="flex flex-col gap-1 mt-1">
+          <span className="text-text-tertiary">动画（{metadata.animations.length}）</span>
+          {metadata.animations.map((animation, index) => (
+            <div key={`${animation.name}_${index}`} className="flex justify-between gap-sm">
+              <span className="text-text-secondary truncate">{animation.name || `动画 ${index + 1}`}</span>
+              <span className="text-text-tertiary flex-shrink-0">{animation.duration.toFixed(2)}s</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelDetails;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { toast } from './ui/toast';
+import {
+  MODEL_EXPORT_FORMATS,
+  type ModelExportFormat,
+  type ModelExportOptions
+} from '../utils/modelExport';
+
+interface ModelExportDialogProps {
+  modelName: string; // 用作下载文件名
+  onExport: (options: ModelExportOptions) => Promise<Blob>;
+  onClose: () => void;
+}
+
+// 输入框和下拉框的样式
+const FIELD_CLASS_NAME = 'h-9 w-full px-2 rounded-md border border-gray-200 bg-white text-gray-800';
+
+/**
+ * 模型导出对话框
+ * 将应用了当前部件材质的模型导出为 GLB，或导出 OBJ、STL 网格
+ */
+const ModelExportDialog: React.FC<ModelExportDialogProps> = ({ modelName, onExport, onClose }) => {
+  const [format, setFormat] = useState<ModelExportFormat>('glb');
+  const [keepViewerScale, setKeepViewerScale] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await onExport({ format, keepViewerScale });
+
+      // 下载导出的模型
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${modelName}_${new Date().getTime()}.${MODEL_EXPORT_FORMATS[format].extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('模型已导出');
+      onClose();
+    } catch (error) {
+      console.error('导出模型失败:', error);
+      toast.error(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={exporting ? undefined : onClose}>
+      <div
+        className="w-[420px] max-w-[90vw] flex flex-col bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">导出模型</h3>
+          <p className="mt-1 text-sm text-gray-500">导出应用了当前部件材质的模型文件</p>
+        </div>
+
+        <div className="px-6 py-4 grid grid-cols-2 gap-4 text-sm text-gray-600">
+          <label className="col-span-2 flex flex-col gap-1">
+            格式
+            <select
+              value={format}
+              disabled={exporting}
+              onChange={(e) => setFormat(e.target.value as ModelExportFormat)}
+              className={FIELD_CLASS_NAME}
+            >
+              {(Object.keys(MODEL_EXPORT_FORMATS) as ModelExportFormat[]).map(value => (
+                <option key={value} value={value}>{MODEL_EXPORT_FORMATS[value].label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-400">{MODEL_EXPORT_FORMATS[format].description}</span>
+          </label>
+
+          <label className="col-span-2 flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={keepViewerScale}
+              disabled={exporting}
+              onChange={(e) => setKeepViewerScale(e.target.checked)}
+            />
+            保留查看器中的缩放和居中
+          </label>
+          <p className="col-span-2 -mt-3 text-xs text-gray-400">
+            {keepViewerScale ? '模型最长边为 2 个单位，并移动到原点' : '恢复模型文件中的原始尺寸和位置'}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 text-sm rounded-md bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+          >
+            {exporting ? '正在导出…' : '导出'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelExportDialog;
@@ -26,28 +26,37 @@ const ModelThumbnail: React.FC<ModelThumbnailProps> = ({ id, thumbnailUrl, class
       return;
     }
 
-    // 尝试从缓存获取图片URL
-    const cachedUrl = getCachedImageUrl(id);
-    if (cachedUrl) {
-      setDisplayUrl(cachedUrl);
-      setIsLoaded(true);
-      return;
-    }
+    let cancelled = false;
 
-    // 如果缓存中没有，使用提供的URL并预加载
-    setDisplayUrl(thumbnailUrl);
-    setIsLoaded(false);
-    setLoadError(false);
-
-    // 预加载图片
-    preloadImage(thumbnailUrl).then(success => {
-      if (success) {
-        cacheImageUrl(id, thumbnailUrl);
+    // 尝试从缓存获取图片URL
+    getCachedImageUrl(id).then(cachedUrl => {
+      if (cancelled) return;
+      if (cachedUrl) {
+        setDisplayUrl(cachedUrl);
         setIsLoaded(true);
-      } else {
-        setLoadError(true);
+        return;
       }
+
+      // 如果缓存中没有，使用提供的URL并预加载
+      setDisplayUrl(thumbnailUrl);
+      setIsLoaded(false);
+      setLoadError(false);
+
+      // 预加载图片
+      preloadImage(thumbnailUrl).then(success => {
+        if (cancelled) return;
+        if (success) {
+          cacheImageUrl(id, thumbnailUrl);
+          setIsLoaded(true);
+        } else {
+          setLoadError(true);
+        }
+      });
     });
+
+    return () => {
+      cancelled = true;
+    };
   }, [id, thumbnailUrl]);
 
   // 如果没有URL或加载失败，显示默认图标
@@ -1,9 +1,78 @@
-import React, { useRef, useEffect, useState, Suspense, useCallback, useMemo } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Html, Environment } from '@react-three/drei';
+import { useRef, useEffect, useState, Suspense, useCallback, useMemo, forwardRef, useImperativeHandle, type MutableRefObject } from 'react';
+import { Canvas, useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Html } from '@react-three/drei';
+import { type OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { type Model } from '../lib/localStorage';
+import { type Model, type ModelViewpoint } from '../lib/localStorage';
+import { type MaterialAppearance } from '../lib/materialStorage';
+import { type SlotMaterialMode } from '../lib/localStorage';
+import { DEFAULT_LIGHTING_RIG, type LightingRig } from '../lib/lightingStorage';
+import { DEFAULT_STAGE_SETTINGS, hasStageObjects, type StageSettings } from '../lib/stageStorage';
+import { DEFAULT_POST_PROCESSING_SETTINGS, type PostProcessingSettings } from '../lib/postProcessingStorage';
+import { createMaterial, isMaterialCompatible, updateMaterial } from '../utils/materialFactory';
+import { cloneModelScene, loadModel } from '../utils/modelCache';
+import { getModelFormat, type ModelFormat } from '../utils/modelLoaders';
+import { getCameraAngle } from '../utils/renderService';
+import { exportTurntable, type TurntableOptions } from '../utils/turntableExport';
+import { exportImage, exportViewpointImages, type ImageExportOptions } from '../utils/imageExport';
+import { exportModel, type ModelExportOptions } from '../utils/modelExport';
+import {
+  createAnimationPlayer,
+  withAnimationFrame,
+  type AnimationFrameOptions,
+  type AnimationPlayer
+} from '../utils/animationPlayer';
+import { createVariantPresets, type MaterialVariantPresets } from '../utils/materialVariants';
+import { DEFAULT_ENVIRONMENT_LIGHTING, type EnvironmentLighting } from '../utils/sceneEnvironment';
+import { createLightingRigObject, disposeLightingRigObject } from '../utils/lightingRig';
+import { normalizeModelScene } from '../utils/objectTransform';
+import { createStageObject, disposeStageObject, getStageStructureKey, updateStageObject } from '../utils/sceneStage';
+import { createPostProcessing, getPostProcessingStructureKey, getToneMapping, hasPostEffects, type PostProcessingPipeline } from '../utils/postProcessing';
+import {
+  CAMERA_VIEW_PRESETS,
+  createCameraTransition,
+  getPresetPose,
+  type CameraPose,
+  type CameraTransition,
+  type CameraViewPreset
+} from '../utils/cameraViews';
+import AnimationControls from './AnimationControls';
+import SceneEnvironment, { type SceneBackground } from './SceneEnvironment';
+
+// 模型材质部件（由原始材质推导）
+export type MaterialSlot = {
+  id: string;
+  name: string;
+  meshCount: number;
+};
+
+// 通过 ref 提供给父组件的导出方法
+export type ModelViewerHandle = {
+  // 将模型导出为 PNG 图片
+  captureImage: (options: ImageExportOptions & AnimationFrameOptions) => Promise<Blob>;
+  // 从当前视角开始环绕模型一周，导出转台动画
+  exportTurntable: (
+    options: TurntableOptions & AnimationFrameOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<Blob>;
+  // 导出已应用部件材质的模型文件
+  exportModel: (options: ModelExportOptions) => Promise<Blob>;
+  // 按模型上保存的各个视角批量导出 PNG 图片，打包为 ZIP
+  captureViewpoints: (
+    options: ImageExportOptions & AnimationFrameOptions,
+    viewpoints: ModelViewpoint[],
+    onProgress?: (progress: number) => void
+  ) => Promise<Blob>;
+  // 当前画面的宽高比
+  getViewAspect: () => number;
+  // 当前的相机位置和观察目标，用于保存视角，相机未就绪时为null
+  getViewpoint: () => Pick<ModelViewpoint, 'position' | 'target'> | null;
+  // 平滑切换到保存的视角
+  showViewpoint: (viewpoint: Pick<ModelViewpoint, 'position' | 'target'>) => void;
+  // 当前模型的动画播放器，模型没有动画时为null
+  getAnimationPlayer: () => AnimationPlayer | null;
+};
 
 // 检测 WebGL 支持情况和环境
 const checkWebGLSupport = (): { supported: boolean; reason?: string; isPreviewEnv: boolean; } => {
@@ -61,6 +130,72 @@ const setupEnvironmentCompat = (isPreviewEnv: boolean): void => {
   }
 };
 
+// 根据模型中网格的原始材质推导材质部件，并在网格上记录部件ID
+const collectMaterialSlots = (scene: THREE.Object3D): MaterialSlot[] => {
+  const slotsByMaterial = new Map<string, MaterialSlot>();
+
+  scene.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const originalMaterials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+
+      // 每个材质组对应一个部件，共享同一原始材质的网格归为同一部件
+      child.userData.slotIds = originalMaterials.map((original, index) => {
+        const key = original ? original.uuid : `${child.uuid}_${index}`;
+        let slot = slotsByMaterial.get(key);
+        if (!slot) {
+          slot = {
+            id: `slot-${slotsByMaterial.size}`,
+            name: original?.name || child.name || `部件 ${slotsByMaterial.size + 1}`,
+            meshCount: 0
+          };
+          slotsByMaterial.set(key, slot);
+        }
+        slot.meshCount += 1;
+        return slot.id;
+      });
+    }
+  });
+
+  return Array.from(slotsByMaterial.values());
+};
+
+// 获取网格的原始材质列表，与 userData.slotIds 一一对应
+const getOriginalMaterials = (mesh: THREE.Mesh): THREE.Material[] => {
+  const original = mesh.userData.originalMaterial || mesh.material;
+  return Array.isArray(original) ? original : [original];
+};
+
+// 获取各部件的原始材质，同一部件的网格共享同一原始材质
+const getSlotOriginalMaterials = (scene: THREE.Object3D): Map<string, THREE.Material> => {
+  const originals = new Map<string, THREE.Material>();
+  scene.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const materials = getOriginalMaterials(child);
+      (child.userData.slotIds || []).forEach((slotId: string, index: number) => {
+        if (materials[index] && !originals.has(slotId)) {
+          originals.set(slotId, materials[index]);
+        }
+      });
+    }
+  });
+  return originals;
+};
+
+// 将各部件的材质应用到网格上，没有指定材质的部件恢复原始材质
+const applySlotMaterials = (
+  scene: THREE.Object3D,
+  materials: Map<string, THREE.Material>
+): void => {
+  scene.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const slotIds: string[] = child.userData.slotIds || [];
+      const originals = getOriginalMaterials(child);
+      const slotMaterials = slotIds.map((slotId, index) => materials.get(slotId) || originals[index]);
+      child.material = Array.isArray(child.material) ? slotMaterials : slotMaterials[0];
+    }
+  });
+};
+
 // 改进的加载指示器组件，显示进度和阶段
 function LoadingIndicator({ progress = 0, stage = '准备中' }: { progress?: number; stage?: string }) {
   return (
@@ -111,14 +246,30 @@ function DefaultModel() {
 // 模型加载组件
 function ModelLoader({
   modelPath,
-  customColor,
-  customRoughness,
-  customMetallic
+  modelFormat,
+  bundleEntry,
+  slotMaterials,
+  slotModes,
+  slotVariants,
+  defaultMaterial,
+  onSlotsChange,
+  onSlotSelect,
+  onAnimationPlayerChange,
+  onVariantPresetsChange,
+  onModelChange
 }: {
   modelPath: string;
-  customColor: string;
-  customRoughness: number;
-  customMetallic: number;
+  modelFormat: ModelFormat;
+  bundleEntry?: string | null;
+  slotMaterials: Record<string, MaterialAppearance>;
+  slotModes?: Record<string, SlotMaterialMode>;
+  slotVariants?: Record<string, number>;
+  defaultMaterial: MaterialAppearance;
+  onSlotsChange?: (slots: MaterialSlot[]) => void;
+  onSlotSelect?: (slotId: string) => void;
+  onAnimationPlayerChange?: (player: AnimationPlayer | null) => void;
+  onVariantPresetsChange?: (presets: MaterialVariantPresets | null) => void;
+  onModelChange?: (model: THREE.Object3D | null) => void;
 }) {
   const [error, setError] = useState<string | null>(null);
   const [useDefaultModel, setUseDefaultModel] = useState(false);
@@ -171,27 +322,6 @@ function ModelLoader({
     // 生成新的模型键，强制重新渲染
     // 添加加载尝试次数到key中，确保重试时会重新渲染
     setModelKey(`${modelPath}_${Date.now()}_attempt_${loadAttempts}`);
-
-    // 检查模型路径是否为Blob URL（上传的文件）
-    if (!normalizedPath.startsWith('blob:')) {
-      // 对于非Blob URL，检查路径是否有效
-      try {
-        // 检查文件扩展名
-        const fileExtension = modelPath.split('.').pop()?.toLowerCase();
-
-        if (!['glb', 'gltf'].includes(fileExtension || '')) {
-          console.error('不支持的文件格式:', fileExtension);
-          setError(`不支持的文件格式: ${fileExtension}`);
-          setUseDefaultModel(true);
-          return;
-        }
-      } catch (e) {
-        console.error('模型路径验证出错:', modelPath, e);
-        setError('模型路径无效');
-        setUseDefaultModel(true);
-        return;
-      }
-    }
   }, [modelPath, loadAttempts]);
 
   // 处理模型加载错误
@@ -244,9 +374,17 @@ function ModelLoader({
       <ModelObject
         key={modelKey} // 使用key强制重新渲染
         modelPath={modelPath}
-        customColor={customColor}
-        customRoughness={customRoughness}
-        customMetallic={customMetallic}
+        modelFormat={modelFormat}
+        bundleEntry={bundleEntry}
+        slotMaterials={slotMaterials}
+        slotModes={slotModes}
+        slotVariants={slotVariants}
+        defaultMaterial={defaultMaterial}
+        onSlotsChange={onSlotsChange}
+        onSlotSelect={onSlotSelect}
+        onAnimationPlayerChange={onAnimationPlayerChange}
+        onVariantPresetsChange={onVariantPresetsChange}
+        onModelChange={onModelChange}
         onError={handleModelError}
       />
     </group>
@@ -254,27 +392,53 @@ function ModelLoader({
 }
 
 // 模型对象组件 - 实际加载和显示3D模型
+// 模型只在路径变化（或重试）时加载一次，材质属性变化时原地更新各部件的材质
 function ModelObject({
   modelPath,
-  customColor,
-  customRoughness,
-  customMetallic,
+  modelFormat,
+  bundleEntry,
+  slotMaterials,
+  slotModes,
+  slotVariants,
+  defaultMaterial,
+  onSlotsChange,
+  onSlotSelect,
+  onAnimationPlayerChange,
+  onVariantPresetsChange,
+  onModelChange,
   onError
 }: {
   modelPath: string;
-  customColor: string;
-  customRoughness: number;
-  customMetallic: number;
+  modelFormat: ModelFormat;
+  bundleEntry?: string | null;
+  slotMaterials: Record<string, MaterialAppearance>;
+  slotModes?: Record<string, SlotMaterialMode>;
+  slotVariants?: Record<string, number>;
+  defaultMaterial: MaterialAppearance;
+  onSlotsChange?: (slots: MaterialSlot[]) => void;
+  onSlotSelect?: (slotId: string) => void;
+  onAnimationPlayerChange?: (player: AnimationPlayer | null) => void;
+  onVariantPresetsChange?: (presets: MaterialVariantPresets | null) => void;
+  onModelChange?: (model: THREE.Object3D | null) => void;
   onError: () => void;
 }) {
   const [modelScene, setModelScene] = useState<THREE.Group | null>(null);
+  const [animations, setAnimations] = useState<THREE.AnimationClip[]>([]);
+  const [variantPresets, setVariantPresets] = useState<MaterialVariantPresets | null>(null);
+  const [materialSlots, setMaterialSlots] = useState<MaterialSlot[]>([]);
   const [loadError, setLoadError] = useState<boolean>(false);
-  const [currentModelPath, setCurrentModelPath] = useState<string>('');
   const [loadProgress, setLoadProgress] = useState<number>(0);
   const [loadStage, setLoadStage] = useState<string>('准备中');
   const [retryCount, setRetryCount] = useState<number>(0);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const maxRetries = 2; // 最大重试次数
+
+  // 各部件的持久材质，属性变化时原地更新，类型变化时替换并释放旧材质
+  const slotMaterialsRef = useRef(new Map<string, THREE.MeshStandardMaterial>());
+  // 已应用部件材质的场景，以及各部件当前使用的材质（恢复原始材质的部件不在其中）
+  const appliedSceneRef = useRef<THREE.Group | null>(null);
+  const appliedMaterialsRef = useRef(new Map<string, THREE.Material>());
+  // 各部件的原始材质
+  const slotOriginalsRef = useRef(new Map<string, THREE.Material>());
   
   // 规范化模型路径函数
   const getNormalizedPath = (path: string | null): string | null => {
@@ -294,148 +458,33 @@ function ModelObject({
     return normalized || '';
   }, [modelPath]);
 
-  // 清理函数 - 用于清理资源
-  const cleanupResources = useCallback(() => {
-    if (currentModelPath) {
-      try {
-        // 如果是Blob URL，释放它
-        if (currentModelPath.startsWith('blob:')) {
-          URL.revokeObjectURL(currentModelPath);
-        }
-      } catch (e) {
-        console.warn('清理资源失败:', e);
-      }
-    }
-  }, [currentModelPath]);
-
-  // 重置加载状态
-  const resetLoadingState = useCallback(() => {
-    setModelScene(null);
-    setLoadProgress(0);
-    setLoadStage('准备中');
-    setIsLoading(false);
-  }, []);
-
   // 重试加载
   const retryLoading = useCallback(() => {
     if (retryCount < maxRetries) {
-      // 尝试重新加载模型
-      setRetryCount(prev => prev + 1);
       setLoadError(false);
-      resetLoadingState();
-      // 延迟一点时间再重试，给浏览器一些时间清理资源
-      setTimeout(() => {
-        setIsLoading(true);
-      }, 500);
+      setRetryCount(prev => prev + 1);
     } else {
       console.error('达到最大重试次数，模型加载失败');
       onError();
     }
-  }, [retryCount, maxRetries, resetLoadingState, onError]);
+  }, [retryCount, maxRetries, onError]);
 
-  // 使用useEffect来处理模型加载和错误
+  // 加载模型 - 只依赖模型路径和重试次数，材质变化不会触发重新加载
   useEffect(() => {
     let isMounted = true;
     let loadingTimeout: ReturnType<typeof setTimeout> | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
 
-    // 如果模型路径发生变化，清除当前模型场景和资源
-    if (currentModelPath !== modelPath) {
-      // 清理之前的资源
-      cleanupResources();
-
-      // 重置状态
-      resetLoadingState();
-      setRetryCount(0);
-      setCurrentModelPath(modelPath);
-      setIsLoading(true);
-    }
-
-    // 如果不在加载状态，不执行加载
-    if (!isLoading) return;
-
-    // 设置加载超时
-    loadingTimeout = setTimeout(() => {
-      if (isMounted && !modelScene && isLoading) {
-        console.warn('模型加载超时，尝试重试');
-        retryLoading();
-      }
-    }, 15000); // 15秒超时
-
-    const loadModel = async () => {
-
-      // 创建自定义加载器以跟踪进度
-      const createProgressTracker = (url: string) => {
-        return new Promise<THREE.Group>((resolve, reject) => {
-          // 使用 THREE.js 的加载管理器跟踪加载进度
-          const manager = new THREE.LoadingManager();
-
-          manager.onProgress = (_, loaded, total) => {
-            if (isMounted) {
-              const progress = Math.min(Math.round((loaded / total) * 80), 80); // 下载阶段占80%
-              setLoadProgress(progress);
-              setLoadStage('下载中');
-            }
-          };
-
-          // 创建 GLTFLoader
-          const loader = new GLTFLoader(manager);
-
-          // 添加超时处理
-          const timeoutId = setTimeout(() => {
-            reject(new Error('加载超时'));
-          }, 10000); // 10秒超时
-
-          // 开始加载
-          console.log('开始加载模型:', url);
-          loader.load(
-            url,
-            (gltf: any) => {
-              // 清除超时
-              clearTimeout(timeoutId);
-              console.log('模型加载成功:', url, gltf);
-
-              // GLTF模型已加载
-              if (isMounted) {
-                setLoadProgress(95);
-                setLoadStage('处理中');
-                
-                try {
-                  // 使用加载好的GLTF模型
-                  if (gltf && gltf.scene) {
-                    resolve(gltf.scene);
-                  } else {
-                    reject(new Error('加载的模型没有场景'));
-                  }
-                } catch (error) {
-                  reject(error);
-                }
-              } else {
-                reject(new Error('组件已卸载'));
-              }
-            },
-            // 进度回调
-            (xhr: any) => {
-              if (xhr.lengthComputable && isMounted) {
-                const progress = Math.min(Math.round((xhr.loaded / xhr.total) * 80), 80);
-                setLoadProgress(progress);
-              }
-            },
-            // 错误回调
-            (error: any) => {
-              clearTimeout(timeoutId);
-              console.error('模型加载错误:', url, error);
-              reject(error);
-            }
-          );
-        });
-      };
+    // 重置加载状态
+    setModelScene(null);
+    setAnimations([]);
+    setVariantPresets(null);
+    setMaterialSlots([]);
+    setLoadProgress(0);
+    setLoadStage('准备中');
 
-      // 跳过HEAD请求检查，直接尝试加载模型
+    const loadScene = async () => {
       try {
-
-        // 使用进度跟踪器加载模型
-        let gltfScene;
-
         // 使用规范化后的路径
         let modelUrl = normalizedPath;
         console.log('加载模型函数 - 原始路径:', modelPath, '规范化后路径:', normalizedPath);
@@ -449,106 +498,215 @@ function ModelObject({
         if (!modelUrl.startsWith('blob:') && !modelUrl.startsWith('http')) {
           // 对于本地文件路径，确保以 / 开头
           modelUrl = modelUrl.startsWith('/') ? modelUrl : `/${modelUrl}`;
-          console.log('规范化后的模型路径:', modelUrl);
-        } else {
-          console.log('使用blob/http模型路径:', modelUrl);
         }
-        
-        // 使用进度跟踪器加载模型，添加超时保护
-        const loadPromise = createProgressTracker(modelUrl);
-        
+
         // 创建超时Promise
-        const timeoutPromise = new Promise<THREE.Group>((_, reject) => {
-          setTimeout(() => reject(new Error('模型加载全局超时')), 20000); // 20秒全局超时
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          loadingTimeout = setTimeout(() => reject(new Error('模型加载超时')), 20000); // 20秒超时
         });
-        
-        // 使用Promise.race竞争，谁先完成就用谁的结果
-        try {
-          gltfScene = await Promise.race([loadPromise, timeoutPromise]);
-        } catch (error) {
-          console.error('模型加载出错或超时:', error);
-          throw error; // 重新抛出错误，让外层catch捕获
-        }
+
+        // 加载模型（已解析过的模型直接从缓存返回）
+        const loadedModel = await Promise.race([
+          loadModel(modelUrl, modelFormat, (progress) => {
+            if (isMounted) {
+              setLoadProgress(Math.min(Math.round(progress * 80), 80)); // 下载阶段占80%
+              setLoadStage('下载中');
+            }
+          }, bundleEntry),
+          timeoutPromise
+        ]);
 
         if (!isMounted) return;
 
-        if (gltfScene) {
-          // 模型场景加载成功，开始处理
-          setLoadStage('应用材质');
-          setLoadProgress(95);
-
-          // 克隆模型场景，以便我们可以修改它
-          const scene = gltfScene.clone();
-
-          // 创建材质
-          const material = new THREE.MeshStandardMaterial({
-            color: new THREE.Color(customColor),
-            roughness: customRoughness,
-            metalness: customMetallic,
-          });
-
-          // 遍历场景中的所有网格，应用材质
-          scene.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-              // 保存原始材质以备将来恢复
-              if (!child.userData.originalMaterial) {
-                child.userData.originalMaterial = child.material;
-              }
-
-              // 应用新材质
-              child.material = material;
-            }
-          });
-
-          setLoadStage('优化模型');
-          setLoadProgress(98);
-
-          // 自动调整模型大小和位置
-          const box = new THREE.Box3().setFromObject(scene);
-          const size = box.getSize(new THREE.Vector3());
-          const maxDim = Math.max(size.x, size.y, size.z);
-          const scale = 2 / maxDim; // 缩放到合适的大小
-          scene.scale.set(scale, scale, scale);
-
-          // 将模型置于中心
-          const center = box.getCenter(new THREE.Vector3());
-          scene.position.x = -center.x * scale;
-          scene.position.y = -center.y * scale;
-          scene.position.z = -center.z * scale;
-
-          // 模型处理完成，设置到场景
-          setLoadProgress(100);
-          setLoadStage('完成');
-          setModelScene(scene);
-          setIsLoading(false); // 加载完成
-        } else {
-          console.error('模型加载失败: 无效的场景');
-          throw new Error('模型加载失败: 无效的场景');
-        }
+        setLoadStage('处理中');
+        setLoadProgress(95);
+
+        // 克隆模型场景，以便我们可以修改它而不影响缓存
+        const scene = cloneModelScene(loadedModel);
+
+        // 遍历场景中的所有网格，保存原始材质以备将来恢复
+        // 设为不可枚举，导出图片和模型时克隆场景不会把材质序列化进 userData
+        scene.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            // 接收和投射灯光方案中的阴影
+            child.castShadow = true;
+            child.receiveShadow = true;
+          }
+          if (child instanceof THREE.Mesh && !child.userData.originalMaterial) {
+            Object.defineProperty(child.userData, 'originalMaterial', {
+              value: child.material,
+              enumerable: false,
+              writable: true,
+              configurable: true
+            });
+          }
+        });
+
+        // 根据原始材质推导部件
+        const slots = collectMaterialSlots(scene);
+        slotOriginalsRef.current = getSlotOriginalMaterials(scene);
+
+        // 自动调整模型大小和位置，记录调整前的位置和缩放，导出模型时可以恢复原始尺寸
+        normalizeModelScene(scene);
+
+        // 模型处理完成，设置到场景
+        setLoadProgress(100);
+        setLoadStage('完成');
+        setMaterialSlots(slots);
+        setAnimations(loadedModel.animations);
+        setVariantPresets(loadedModel.variants ? createVariantPresets(scene, loadedModel.variants) : null);
+        setModelScene(scene);
       } catch (error) {
         console.error('加载模型失败:', error instanceof Error ? error.message : error);
         if (isMounted) {
           if (retryCount < maxRetries) {
-            // 加载失败，自动重试
-            retryLoading();
+            // 加载失败，延迟一点时间后自动重试
+            retryTimeout = setTimeout(() => setRetryCount(prev => prev + 1), 500);
           } else {
             setLoadError(true);
-            setIsLoading(false);
             onError(); // 通知父组件发生错误
           }
         }
+      } finally {
+        if (loadingTimeout) {
+          clearTimeout(loadingTimeout);
+        }
       }
     };
 
-    loadModel();
+    loadScene();
 
     return () => {
       isMounted = false;
       if (loadingTimeout) {
         clearTimeout(loadingTimeout);
       }
+      if (retryTimeout) {
+        clearTimeout(retryTimeout);
+      }
     };
-  }, [modelPath, customColor, customRoughness, customMetallic, onError, currentModelPath, isLoading, retryCount, maxRetries, modelScene, cleanupResources, resetLoadingState, retryLoading]);
+  }, [normalizedPath, modelFormat, bundleEntry, retryCount, maxRetries, onError]);
+
+  // 材质属性或使用方式变化时更新各部件的材质，材质库材质原地更新
+  useEffect(() => {
+    if (!modelScene) return;
+
+    const materials = slotMaterialsRef.current;
+    const originals = slotOriginalsRef.current;
+    const nextApplied = new Map<string, THREE.Material>();
+
+    materialSlots.forEach((slot) => {
+      // 使用材质变体的部件直接分配模型中的变体材质，变体材质属于模型，不在这里释放
+      const variantIndex = slotVariants?.[slot.id];
+      const variantMaterial = variantIndex !== undefined
+        ? variantPresets?.getSlotMaterials(variantIndex).get(slot.id)
+        : undefined;
+      if (variantMaterial) {
+        nextApplied.set(slot.id, variantMaterial);
+        return;
+      }
+
+      const mode = slotModes?.[slot.id] || 'override';
+      if (mode === 'original') return;
+
+      const appearance = slotMaterials[slot.id] || defaultMaterial;
+      // 混合方式保留原始材质的法线和环境光遮蔽贴图
+      const textureSource = mode === 'blend' ? originals.get(slot.id) || null : null;
+      let material = materials.get(slot.id);
+      if (material && isMaterialCompatible(material, appearance)) {
+        updateMaterial(material, appearance, textureSource);
+      } else {
+        // 标准/物理材质类型切换时替换材质并释放旧材质
+        material?.dispose();
+        material = createMaterial(appearance, textureSource);
+        materials.set(slot.id, material);
+      }
+      nextApplied.set(slot.id, material);
+    });
+
+    // 释放已不存在的部件的材质
+    materials.forEach((material, slotId) => {
+      if (!materialSlots.some(slot => slot.id === slotId)) {
+        material.dispose();
+        materials.delete(slotId);
+      }
+    });
+
+    // 只有新场景或部件使用的材质对象变化时才需要重新分配网格材质
+    const applied = appliedMaterialsRef.current;
+    const changed = appliedSceneRef.current !== modelScene
+      || applied.size !== nextApplied.size
+      || Array.from(nextApplied).some(([slotId, material]) => applied.get(slotId) !== material);
+    if (changed) {
+      applySlotMaterials(modelScene, nextApplied);
+      appliedSceneRef.current = modelScene;
+    }
+    appliedMaterialsRef.current = nextApplied;
+  }, [slotMaterials, slotModes, slotVariants, variantPresets, defaultMaterial, materialSlots, modelScene]);
+
+  // 卸载时释放部件材质
+  useEffect(() => {
+    const materials = slotMaterialsRef.current;
+    return () => {
+      materials.forEach(material => material.dispose());
+      materials.clear();
+    };
+  }, []);
+
+  // 模型带有动画时创建播放器，动画绑定到当前显示的场景
+  const animationPlayerRef = useRef<AnimationPlayer | null>(null);
+  useEffect(() => {
+    if (!modelScene || animations.length === 0) return;
+
+    const player = createAnimationPlayer(modelScene, animations);
+    animationPlayerRef.current = player;
+    onAnimationPlayerChange?.(player);
+
+    return () => {
+      animationPlayerRef.current = null;
+      onAnimationPlayerChange?.(null);
+      player.dispose();
+    };
+  }, [modelScene, animations, onAnimationPlayerChange]);
+
+  // 每帧推进动画
+  useFrame((_, delta) => {
+    animationPlayerRef.current?.update(delta);
+  });
+
+  // 通知父组件当前模型的材质变体
+  useEffect(() => {
+    if (!onVariantPresetsChange) return;
+    onVariantPresetsChange(variantPresets);
+    return () => onVariantPresetsChange(null);
+  }, [variantPresets, onVariantPresetsChange]);
+
+  // 通知父组件当前显示的模型，用于放置展台
+  useEffect(() => {
+    if (!onModelChange || !modelScene) return;
+    onModelChange(modelScene);
+    return () => onModelChange(null);
+  }, [modelScene, onModelChange]);
+
+  // 通知父组件当前模型的材质部件
+  useEffect(() => {
+    if (onSlotsChange) {
+      onSlotsChange(materialSlots);
+    }
+  }, [materialSlots, onSlotsChange]);
+
+  // 点击模型部件时选中对应的材质部件
+  const handlePartClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+    // 拖动旋转视角时不视为点击
+    if (event.delta > 4 || !onSlotSelect) return;
+    event.stopPropagation();
+
+    const slotIds: string[] = event.object.userData.slotIds || [];
+    const slotId = slotIds[event.face?.materialIndex ?? 0] || slotIds[0];
+    if (slotId) {
+      onSlotSelect(slotId);
+    }
+  }, [onSlotSelect]);
 
   // 处理加载错误
   if (loadError) {
@@ -573,68 +731,148 @@ function ModelObject({
     );
   }
 
-  // 添加一个新的useEffect来监听材质属性的变化
-  useEffect(() => {
-    // 如果模型已加载，更新材质
-    if (modelScene) {
-      // 创建新的材质
-      const material = new THREE.MeshStandardMaterial({
-        color: new THREE.Color(customColor),
-        roughness: customRoughness,
-        metalness: customMetallic,
-      });
-
-      // 遍历场景中的所有网格，更新材质
-      modelScene.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          // 应用新材质
-          child.material = material;
-        }
-      });
-    }
-  }, [customColor, customRoughness, customMetallic, modelScene]);
-
   return modelScene ? (
-    <primitive object={modelScene} />
+    <primitive
+      object={modelScene}
+      onClick={handlePartClick}
+      onPointerOver={() => { if (onSlotSelect) document.body.style.cursor = 'pointer'; }}
+      onPointerOut={() => { document.body.style.cursor = ''; }}
+    />
   ) : (
     <LoadingIndicator progress={loadProgress} stage={loadStage} />
   );
 }
 
-// 设置场景光照 - 使用简单光照，主要依赖HDR环境贴图
-function SceneLighting() {
-  return (
-    <>
-      {/* 基础环境光 - 较低强度，因为HDR环境贴图会提供主要光照 */}
-      <ambientLight intensity={0.3} />
-
-      {/* 主光源 - 提供主要方向性光照和阴影 */}
-      <directionalLight
-        position={[10, 10, 5]}
-        intensity={0.8}
-        castShadow
-      />
-    </>
-  );
+// 设置场景光照 - 按灯光方案创建灯光，与模型渲染服务使用相同的灯光
+function SceneLighting({ rig }: { rig: LightingRig }) {
+  const lights = useMemo(() => createLightingRigObject(rig), [rig]);
+
+  // 切换灯光方案时释放阴影贴图
+  useEffect(() => {
+    return () => disposeLightingRigObject(lights);
+  }, [lights]);
+
+  return <primitive object={lights} />;
+}
+
+// 设置展台 - 按模型包围盒放置地面、接触阴影和展台，与模型渲染服务使用相同的展台
+function SceneStage({ settings, model }: { settings: StageSettings; model: THREE.Object3D }) {
+  const gl = useThree(state => state.gl);
+  const [stage, setStage] = useState<THREE.Group | null>(null);
+
+  // 只在地面类型、接触阴影和展台形状等结构设置变化时重新创建展台（包括反射贴图和接触阴影烘焙），
+  // 修改展台结构、切换模型或卸载时释放旧的展台
+  const structureKey = getStageStructureKey(settings);
+  useEffect(() => {
+    const nextStage = createStageObject(gl, model, settings);
+    setStage(nextStage);
+    return () => disposeStageObject(nextStage);
+  }, [gl, model, structureKey]);
+
+  // 颜色和不透明度直接更新现有材质
+  useEffect(() => {
+    if (stage) {
+      updateStageObject(stage, settings);
+    }
+  }, [stage, settings]);
+
+  return stage ? <primitive object={stage} /> : null;
+}
+
+// 色调映射和后期效果 - 接管画布的渲染，与模型渲染服务使用相同的后期处理管线
+function ScenePostProcessing({ settings }: { settings: PostProcessingSettings }) {
+  const { gl, scene, camera, size, viewport } = useThree();
+
+  // 色调映射不需要后期处理管线，关闭后期效果时同样生效
+  useEffect(() => {
+    gl.toneMapping = getToneMapping(settings.toneMapping);
+  }, [gl, settings.toneMapping]);
+
+  const [pipeline, setPipeline] = useState<PostProcessingPipeline | null>(null);
+
+  // 只在效果质量或启用的效果变化时重新创建管线，修改效果、切换相机或卸载时释放旧的管线
+  const structureKey = getPostProcessingStructureKey(settings);
+  useEffect(() => {
+    const nextPipeline = hasPostEffects(settings) ? createPostProcessing(gl, scene, camera, settings) : null;
+    setPipeline(nextPipeline);
+    return () => nextPipeline?.dispose();
+  }, [gl, scene, camera, structureKey]);
+
+  // 强度、阈值和调色查找表直接更新现有管线
+  useEffect(() => {
+    pipeline?.update(settings);
+  }, [pipeline, settings]);
+
+  // 画布尺寸或像素比变化时调整管线尺寸
+  useEffect(() => {
+    pipeline?.setSize(Math.round(size.width * viewport.dpr), Math.round(size.height * viewport.dpr));
+  }, [pipeline, size.width, size.height, viewport.dpr]);
+
+  // 优先级大于0时画布不再自动渲染，由这里渲染每一帧
+  useFrame(() => {
+    if (pipeline) {
+      pipeline.render();
+    } else {
+      gl.render(scene, camera);
+    }
+  }, 1);
+
+  return null;
+}
+
+// 视角切换动画 - 每帧推进过渡并同步轨道控制器
+function CameraTransitionUpdater({ transitionRef, controlsRef }: {
+  transitionRef: MutableRefObject<CameraTransition | null>;
+  controlsRef: MutableRefObject<OrbitControlsImpl | null>;
+}) {
+  useFrame((_, delta) => {
+    const transition = transitionRef.current;
+    if (!transition) return;
+    if (transition.update(delta)) {
+      transitionRef.current = null;
+    }
+    controlsRef.current?.update();
+  });
+
+  return null;
 }
 
 // 主渲染组件
 interface ModelViewerProps {
   selectedModel: Model | null;
-  customColor: string;
-  customRoughness: number;
-  customMetallic: number;
+  slotMaterials: Record<string, MaterialAppearance>; // 各部件分配的材质
+  slotModes?: Record<string, SlotMaterialMode>; // 各部件材质的使用方式，默认使用分配的材质
+  slotVariants?: Record<string, number>; // 直接使用模型文件中材质变体材质的部件，值为变体索引
+  defaultMaterial: MaterialAppearance; // 未分配部件使用的材质
+  onSlotsChange?: (slots: MaterialSlot[]) => void;
+  onSlotSelect?: (slotId: string) => void;
+  onVariantPresetsChange?: (presets: MaterialVariantPresets | null) => void; // 模型中的材质变体变化
+  environment?: EnvironmentLighting; // 环境光照，导出图片和动画时使用相同的光照
+  lighting?: LightingRig; // 灯光方案，导出图片和动画时使用相同的灯光
+  background?: SceneBackground; // 场景背景，默认透明
+  stage?: StageSettings; // 地面、接触阴影和展台，导出图片和动画时使用相同的展台
+  postProcessing?: PostProcessingSettings; // 色调映射和后期效果，导出图片和动画时使用相同的效果
 }
 
-export const ModelViewer: React.FC<ModelViewerProps> = ({
+export const ModelViewer = forwardRef<ModelViewerHandle, ModelViewerProps>(({
   selectedModel,
-  customColor,
-  customRoughness,
-  customMetallic
-}) => {
+  slotMaterials,
+  slotModes,
+  slotVariants,
+  defaultMaterial,
+  onSlotsChange,
+  onSlotSelect,
+  onVariantPresetsChange,
+  environment = DEFAULT_ENVIRONMENT_LIGHTING,
+  lighting = DEFAULT_LIGHTING_RIG,
+  background,
+  stage = DEFAULT_STAGE_SETTINGS,
+  postProcessing = DEFAULT_POST_PROCESSING_SETTINGS
+}, ref) => {
   const [modelViewKey, setModelViewKey] = useState<string>('');
   const [modelValid, setModelValid] = useState<boolean>(true);
   const [modelPath, setModelPath] = useState<string>('');
+  const [modelFormat, setModelFormat] = useState<ModelFormat | null>(null);
   const [webGLSupport, setWebGLSupport] = useState<{supported: boolean; reason?: string}>({supported: true});
   const [isPreviewEnv, setIsPreviewEnv] = useState<boolean>(false);
   const previousModelIdRef = useRef<string>('');
@@ -642,7 +880,11 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const defaultCameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const controlsRef = useRef<any>(null);
+  const controlsRef = useRef<OrbitControlsImpl | null>(null);
+  const transitionRef = useRef<CameraTransition | null>(null); // 正在进行的视角切换
+  const modelGroupRef = useRef<THREE.Group>(null); // 模型所在的组，用于导出图片和模型文件
+  const [animationPlayer, setAnimationPlayer] = useState<AnimationPlayer | null>(null);
+  const [stageModel, setStageModel] = useState<THREE.Object3D | null>(null); // 展台对齐的模型
   
   // 检测 WebGL 支持和环境
   useEffect(() => {
@@ -694,12 +936,13 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
         const fileExtension = originalFileName.split('.').pop()?.toLowerCase(); // Extract extension from original name
 
         // 检查是否为支持的格式
-        const isValidFormat = ['glb', 'gltf'].includes(fileExtension || '');
-        setModelValid(isValidFormat);
+        const format = getModelFormat(originalFileName);
+        setModelValid(format !== null);
 
-        if (isValidFormat) {
-          // 设置模型路径
+        if (format) {
+          // 设置模型路径和格式
           setModelPath(filePath);
+          setModelFormat(format);
 
           // 只有在模型变化时才生成新的key
           if (modelChanged) {
@@ -723,119 +966,79 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
     }
   }, [selectedModel]);
 
-  // 捕获当前渲染视图为图片，固定尺寸为1200*1200px
-  const captureScreenshot = useCallback((): string => {
-    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return '';
-
-    // 创建一个离屏渲染器，尺寸为1200*1200
-    const offscreenRenderer = new THREE.WebGLRenderer({
-      antialias: true,
-      alpha: true,
-      preserveDrawingBuffer: true
-    });
-    offscreenRenderer.setSize(1200, 1200);
-    offscreenRenderer.setPixelRatio(2); // 设置更高的像素比以获得更清晰的图像
-
-    // 复制当前场景和相机
-    const scene = sceneRef.current.clone();
-    const camera = cameraRef.current.clone();
-
-    // 查找模型对象并计算包围盒
-    let modelBox = new THREE.Box3();
-    let hasModel = false;
-
-    // 遍历场景中的所有对象，找到包含网格的对象并计算总包围盒
-    scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
-        hasModel = true;
-        // 扩展包围盒以包含此网格
-        modelBox.expandByObject(object);
+  // 获取相机的观察目标，控制器未就绪时为原点
+  const getCameraTarget = useCallback((): THREE.Vector3 => {
+    return controlsRef.current?.target?.clone() || new THREE.Vector3();
+  }, [controlsRef]);
+
+  // 平滑切换相机到指定位置，新的切换会接替正在进行的切换
+  const moveCamera = useCallback((pose: CameraPose) => {
+    if (!cameraRef.current || !controlsRef.current) return;
+    transitionRef.current = createCameraTransition(cameraRef.current, controlsRef.current.target, pose);
+  }, [cameraRef, controlsRef]);
+
+  // 将导出方法暴露给父组件
+  useImperativeHandle(ref, () => ({
+    captureImage: (options) => {
+      const modelGroup = modelGroupRef.current;
+      const camera = cameraRef.current;
+      if (!modelGroup || !camera) {
+        return Promise.reject(new Error('模型尚未加载'));
       }
-    });
-
-    // 如果找到模型，居中所有对象
-    if (hasModel) {
-      // 获取包围盒的中心和大小
-      const center = modelBox.getCenter(new THREE.Vector3());
-      const size = modelBox.getSize(new THREE.Vector3());
-
-      // 创建一个组来包含所有模型部分
-      const modelGroup = new THREE.Group();
-
-      // 将所有子对象移动到新组中，并调整位置
-      while (scene.children.length > 0) {
-        const child = scene.children[0];
-        scene.remove(child);
-        modelGroup.add(child);
+      return withAnimationFrame(animationPlayer, options.animationTime, () => (
+        exportImage(modelGroup, camera, getCameraTarget(), { ...options, environment, lighting, stage, postProcessing })
+      ));
+    },
+    exportTurntable: (options, onProgress, signal) => {
+      const modelGroup = modelGroupRef.current;
+      const camera = cameraRef.current;
+      if (!modelGroup || !camera) {
+        return Promise.reject(new Error('模型尚未加载'));
       }
-
-      // 调整组的位置，使模型居中
-      modelGroup.position.set(-center.x, -center.y, -center.z);
-
-      // 将组添加回场景
-      scene.add(modelGroup);
-
-      // 调整相机视角以适应新的尺寸比例和模型大小
-      if (camera instanceof THREE.PerspectiveCamera) {
-        // 设置相机比例为1:1
-        camera.aspect = 1;
-        camera.updateProjectionMatrix();
-
-        // 根据模型大小调整相机位置
-        const maxDim = Math.max(size.x, size.y, size.z);
-        const fov = camera.fov * (Math.PI / 180);
-        let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
-
-        // 添加一些边距
-        cameraZ *= 1.5;
-
-        // 更新相机位置
-        camera.position.set(0, 0, cameraZ);
-
-        // 确保相机看向模型中心
-        camera.lookAt(new THREE.Vector3(0, 0, 0));
-        camera.updateProjectionMatrix();
+      return withAnimationFrame(animationPlayer, options.animationTime, () => (
+        exportTurntable(modelGroup, {
+          ...options,
+          startAzimuth: getCameraAngle(camera, getCameraTarget()).azimuth,
+          fov: camera.fov,
+          environment,
+          lighting,
+          stage,
+          postProcessing
+        }, onProgress, signal)
+      ));
+    },
+    exportModel: (options) => {
+      if (!modelGroupRef.current) {
+        return Promise.reject(new Error('模型尚未加载'));
       }
-    } else {
-      // 如果没有找到模型，使用默认相机设置
-      if (camera instanceof THREE.PerspectiveCamera) {
-        camera.aspect = 1; // 1:1 比例
-        camera.position.set(0, 0, 5);
-        camera.lookAt(new THREE.Vector3(0, 0, 0));
-        camera.updateProjectionMatrix();
+      return exportModel(modelGroupRef.current, options);
+    },
+    captureViewpoints: (options, viewpoints, onProgress) => {
+      const modelGroup = modelGroupRef.current;
+      const camera = cameraRef.current;
+      if (!modelGroup || !camera) {
+        return Promise.reject(new Error('模型尚未加载'));
       }
-    }
-
-    // 添加必要的光源到克隆的场景中，与SceneLighting组件保持一致
-    // 基础环境光 - 较低强度，因为我们会添加环境贴图
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.3);
-
-    // 主光源 - 提供主要方向性光照和阴影
-    const mainLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    mainLight.position.set(10, 10, 5);
-
-    // 添加光源到场景
-    scene.add(ambientLight);
-    scene.add(mainLight);
-
-    // 注意：在实际应用中，我们应该也克隆环境贴图
-    // 但由于这里无法直接访问环境贴图，我们使用增强的光照来补偿
-    // 在实际渲染中，用户会看到带有HDR环境贴图的效果
-
-    // 设置透明背景
-    offscreenRenderer.setClearColor(0x000000, 0);
-
-    // 渲染场景
-    offscreenRenderer.render(scene, camera);
-
-    // 获取图像数据
-    const dataURL = offscreenRenderer.domElement.toDataURL('image/png');
-
-    // 清理离屏渲染器
-    offscreenRenderer.dispose();
-
-    return dataURL;
-  }, [sceneRef, cameraRef]);
+      const views = viewpoints.map(viewpoint => ({
+        name: viewpoint.name,
+        position: new THREE.Vector3().fromArray(viewpoint.position),
+        target: new THREE.Vector3().fromArray(viewpoint.target)
+      }));
+      return withAnimationFrame(animationPlayer, options.animationTime, () => (
+        exportViewpointImages(modelGroup, camera.fov, views, { ...options, environment, lighting, stage, postProcessing }, onProgress)
+      ));
+    },
+    getViewAspect: () => cameraRef.current?.aspect || 1,
+    getAnimationPlayer: () => animationPlayer,
+    getViewpoint: () => {
+      if (!cameraRef.current) return null;
+      return { position: cameraRef.current.position.toArray(), target: getCameraTarget().toArray() };
+    },
+    showViewpoint: (viewpoint) => moveCamera({
+      position: new THREE.Vector3().fromArray(viewpoint.position),
+      target: new THREE.Vector3().fromArray(viewpoint.target)
+    })
+  }), [getCameraTarget, moveCamera, animationPlayer, environment, lighting, stage, postProcessing]);
 
   // 创建默认摄像机
   useEffect(() => {
@@ -850,31 +1053,18 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
 
   // 恢复默认视图
   const resetToDefaultView = useCallback(() => {
-    if (controlsRef.current && defaultCameraRef.current && cameraRef.current) {
-      // 重置控制器到初始位置
-      controlsRef.current.reset();
-      
-      // 设置相机到默认位置
-      cameraRef.current.position.copy(defaultCameraRef.current.position);
-      cameraRef.current.rotation.copy(defaultCameraRef.current.rotation);
-      cameraRef.current.updateProjectionMatrix();
+    if (defaultCameraRef.current) {
+      // 平滑移动到默认位置，观察目标回到原点
+      moveCamera({ position: defaultCameraRef.current.position.clone(), target: new THREE.Vector3() });
     }
-  }, [controlsRef, cameraRef]);
+  }, [moveCamera]);
 
-  // 将渲染器引用暴露给父组件
-  useEffect(() => {
-    // 将捕获截图的方法暴露给父组件
-    if (window) {
-      (window as any).captureModelScreenshot = captureScreenshot;
-    }
-    
-    // 清理函数
-    return () => {
-      if (window && (window as any).captureModelScreenshot) {
-        delete (window as any).captureModelScreenshot;
-      }
-    };
-  }, [captureScreenshot]);
+  // 切换到标准视角，保持当前的观察距离，观察目标回到原点
+  const showViewPreset = useCallback((preset: CameraViewPreset) => {
+    if (!cameraRef.current) return;
+    const distance = cameraRef.current.position.distanceTo(getCameraTarget());
+    moveCamera(getPresetPose(preset, new THREE.Vector3(), distance));
+  }, [cameraRef, getCameraTarget, moveCamera]);
 
   // 处理 WebGL 不支持的情况
   if (!webGLSupport.supported) {
@@ -892,8 +1082,8 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
   return (
     <div className="w-full h-full">
       {/* 使用三维库绘制画布 */}
+      {/* 切换模型时保留同一个画布和渲染上下文，只重新挂载模型加载组件 */}
       <Canvas
-        key={modelViewKey || 'default-key'}
         className="w-full h-full bg-gray-900 rounded-md"
         gl={{
           antialias: true,
@@ -903,7 +1093,7 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
           powerPreference: "high-performance",
           precision: isPreviewEnv ? "highp" : "mediump"
         }}
-        shadows
+        shadows="percentage" // PCF 阴影，灯光的阴影柔和度通过阴影半径实现
         camera={{ position: [0, 0, 5], fov: 50 }}
         style={{ background: 'transparent' }}
         onCreated={({ gl, scene, camera }) => {
@@ -913,24 +1103,37 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
           cameraRef.current = camera as THREE.PerspectiveCamera;
         }}
       >
-        <SceneLighting />
+        <SceneLighting rig={lighting} />
+        <ScenePostProcessing settings={postProcessing} />
+        <CameraTransitionUpdater transitionRef={transitionRef} controlsRef={controlsRef} />
         <Suspense fallback={<LoadingIndicator progress={10} stage="初始化中" />}>
-          {selectedModel && modelValid && modelPath ? (
-            <ModelLoader
-              key={`loader_${modelViewKey}`} // 使用动态key确保正确重新渲染
-              modelPath={modelPath}
-              customColor={customColor}
-              customRoughness={customRoughness}
-              customMetallic={customMetallic}
-            />
-          ) : (
-            <DefaultModel />
+          <group ref={modelGroupRef}>
+            {selectedModel && modelValid && modelPath && modelFormat ? (
+              <ModelLoader
+                key={`loader_${modelViewKey}`} // 使用动态key确保正确重新渲染
+                modelPath={modelPath}
+                modelFormat={modelFormat}
+                bundleEntry={selectedModel.bundle_entry}
+                slotMaterials={slotMaterials}
+                slotModes={slotModes}
+                slotVariants={slotVariants}
+                defaultMaterial={defaultMaterial}
+                onSlotsChange={onSlotsChange}
+                onSlotSelect={onSlotSelect}
+                onAnimationPlayerChange={setAnimationPlayer}
+                onVariantPresetsChange={onVariantPresetsChange}
+                onModelChange={setStageModel}
+              />
+            ) : (
+              <DefaultModel />
+            )}
+          </group>
+          {/* 地面和展台，放在模型组之外，不随模型导出 */}
+          {stageModel && hasStageObjects(stage) && (
+            <SceneStage settings={stage} model={stageModel} />
           )}
-          {/* 使用本地HDR文件作为环境贴图 */}
-          <Environment
-            files="/assets/hdri/studio.hdr"
-            background={false}
-          />
+          {/* 环境贴图和背景 */}
+          <SceneEnvironment lighting={environment} background={background} />
           <OrbitControls
             ref={controlsRef}
             enableZoom={true}
@@ -939,10 +1142,19 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
             dampingFactor={0}
             minDistance={2}
             maxDistance={10}
+            // 用户拖动时停止正在进行的视角切换
+            onStart={() => { transitionRef.current = null; }}
           />
         </Suspense>
       </Canvas>
 
+      {/* 动画播放控制 */}
+      {animationPlayer && (
+        <div className="absolute bottom-16 left-1/2 transform -translate-x-1/2 z-10 w-[560px] max-w-[90%]">
+          <AnimationControls player={animationPlayer} />
+        </div>
+      )}
+
       {/* 控制按钮区域 */}
       <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 inline-flex justify-start items-center gap-3">
         {/* 默认视图按钮 */}
@@ -960,9 +1172,24 @@ export const ModelViewer: React.FC<ModelViewerProps> = ({
             </svg>
           </div>
         </div>
+
+        {/* 标准视角按钮 */}
+        <div className="p-1 bg-container rounded-[99px] flex justify-start items-center gap-0.5">
+          {(Object.keys(CAMERA_VIEW_PRESETS) as CameraViewPreset[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => showViewPreset(preset)}
+              className="px-2 h-6 rounded-[99px] text-text-secondary text-sm font-medium font-['PingFang_SC'] hover:bg-container-hover"
+            >
+              {CAMERA_VIEW_PRESETS[preset].label}
+            </button>
+          ))}
+        </div>
       </div>
     </div>
   );
-};
+});
+
+ModelViewer.displayName = 'ModelViewer';
 
 export default ModelViewer;
@@ -0,0 +1,152 @@
+import React from 'react';
+import {
+  COLOR_GRADING_LUTS,
+  POST_PROCESSING_QUALITIES,
+  TONE_MAPPING_OPERATORS,
+  type ColorGradingLut,
+  type PostProcessingQuality,
+  type PostProcessingSettings,
+  type ToneMappingOperator
+} from '../lib/postProcessingStorage';
+
+interface PostProcessingPanelProps {
+  settings: PostProcessingSettings;
+  onChange: (changes: Partial<PostProcessingSettings>) => void;
+}
+
+type PostProcessingSliderKey = 'ssaoIntensity' | 'bloomStrength' | 'bloomThreshold' | 'vignetteStrength' | 'lutIntensity';
+
+// 后期效果参数滑块
+const SLIDER_FIELDS: Record<PostProcessingSliderKey, { label: string; min: number; max: number; step: number }> = {
+  ssaoIntensity: { label: '遮蔽强度', min: 0, max: 1, step: 0.05 },
+  bloomStrength: { label: '泛光强度', min: 0, max: 1, step: 0.05 },
+  bloomThreshold: { label: '泛光阈值', min: 0, max: 2, step: 0.05 },
+  vignetteStrength: { label: '暗角强度', min: 0, max: 1, step: 0.05 },
+  lutIntensity: { label: '调色强度', min: 0, max: 1, step: 0.05 }
+};
+
+// 分段按钮的样式，与环境设置一致
+const SEGMENT_CLASS_NAME = 'h-8 p-0.5 w-full bg-container rounded-lg grid grid-cols-3';
+const getSegmentButtonClassName = (active: boolean): string => (
+  `rounded-md text-xs font-medium ${active ? 'bg-container-hover text-text-primary' : 'text-text-secondary'}`
+);
+
+// 选项按钮的样式，与环境设置一致
+const getChipClassName = (active: boolean): string => (
+  `h-7 px-2 max-w-full rounded-md text-sm truncate border border-solid ${active ? 'bg-container-hover text-text-primary border-border-emphasis' : 'bg-container text-text-secondary border-transparent hover:bg-container-hover'}`
+);
+
+// 滑块的样式，与材质设置一致
+const SLIDER_CLASS_NAME = 'w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary';
+
+/**
+ * 后期效果面板
+ * 选择色调映射和效果质量，开关环境光遮蔽、泛光、暗角和调色；配置较低的设备可以把质量设为关闭
+ */
+const PostProcessingPanel: React.FC<PostProcessingPanelProps> = ({ settings, onChange }) => {
+  // 渲染参数滑块
+  const renderSlider = (key: PostProcessingSliderKey) => {
+    const { label, min, max, step } = SLIDER_FIELDS[key];
+    return (
+      <div key={key} className="space-y-xs w-full">
+        <div className="flex justify-between w-full">
+          <label className="text-text-secondary text-sm font-medium leading-normal">{label}</label>
+          <span className="text-text-tertiary text-sm font-medium leading-normal">{settings[key]}</span>
+        </div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={settings[key]}
+          onChange={(e) => onChange({ [key]: parseFloat(e.target.value) })}
+          className={SLIDER_CLASS_NAME}
+        />
+      </div>
+    );
+  };
+
+  // 渲染效果开关
+  const renderToggle = (key: 'ssao' | 'bloom' | 'vignette', label: string, disabled = false) => (
+    <label className={`flex items-center justify-between w-full ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+      <span className="text-text-secondary text-sm font-medium leading-normal">{label}</span>
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        disabled={disabled}
+        onChange={(e) => onChange({ [key]: e.target.checked })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-sm w-full">
+      <div className="space-y-xs w-full">
+        <label className="text-text-secondary text-sm font-medium leading-normal">色调映射</label>
+        <div className={SEGMENT_CLASS_NAME}>
+          {(Object.keys(TONE_MAPPING_OPERATORS) as ToneMappingOperator[]).map(operator => (
+            <button
+              key={operator}
+              onClick={() => onChange({ toneMapping: operator })}
+              className={getSegmentButtonClassName(settings.toneMapping === operator)}
+            >
+              {TONE_MAPPING_OPERATORS[operator]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-xs w-full">
+        <label className="text-text-secondary text-sm font-medium leading-normal">效果质量</label>
+        <div className={SEGMENT_CLASS_NAME}>
+          {(Object.keys(POST_PROCESSING_QUALITIES) as PostProcessingQuality[]).map(quality => (
+            <button
+              key={quality}
+              onClick={() => onChange({ quality })}
+              className={getSegmentButtonClassName(settings.quality === quality)}
+            >
+              {POST_PROCESSING_QUALITIES[quality]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.quality !== 'off' && (
+        <>
+          {/* 环境光遮蔽开销较大，只在高质量下生效 */}
+          {renderToggle('ssao', settings.quality === 'high' ? '环境光遮蔽' : '环境光遮蔽（仅高质量）', settings.quality !== 'high')}
+          {settings.quality === 'high' && settings.ssao && renderSlider('ssaoIntensity')}
+
+          {renderToggle('bloom', '泛光')}
+          {settings.bloom && (
+            <>
+              {renderSlider('bloomStrength')}
+              {renderSlider('bloomThreshold')}
+            </>
+          )}
+
+          {renderToggle('vignette', '暗角')}
+          {settings.vignette && renderSlider('vignetteStrength')}
+
+          <div className="space-y-xs w-full">
+            <label className="text-text-secondary text-sm font-medium leading-normal">调色</label>
+            <div className="flex flex-wrap gap-xs w-full">
+              {(Object.keys(COLOR_GRADING_LUTS) as ColorGradingLut[]).map(lut => (
+                <button
+                  key={lut}
+                  onClick={() => onChange({ lut })}
+                  className={getChipClassName(settings.lut === lut)}
+                >
+                  {COLOR_GRADING_LUTS[lut]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {settings.lut !== 'none' && renderSlider('lutIntensity')}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PostProcessingPanel;
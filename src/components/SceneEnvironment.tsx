@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { type EnvironmentSettings } from '../lib/environmentStorage';
+import {
+  applyEnvironmentLighting,
+  BLURRED_BACKGROUND_BLURRINESS,
+  createGradientTexture,
+  loadEnvironmentTexture,
+  type EnvironmentLighting
+} from '../utils/sceneEnvironment';
+
+// 场景背景设置
+export type SceneBackground = Pick<EnvironmentSettings, 'background' | 'backgroundColor' | 'gradientColors'>;
+
+interface SceneEnvironmentProps {
+  lighting: EnvironmentLighting;
+  background?: SceneBackground; // 不设置时不显示背景（画布透明）
+}
+
+/**
+ * 场景环境
+ * 加载环境贴图并设置环境光照、曝光和背景，在画布内使用
+ */
+const SceneEnvironment: React.FC<SceneEnvironmentProps> = ({ lighting, background }) => {
+  const { scene, gl } = useThree();
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const sourceUrl = lighting.source?.url;
+  const sourceFormat = lighting.source?.format;
+
+  // 加载环境贴图，切换期间保留上一张贴图
+  useEffect(() => {
+    if (!sourceUrl || !sourceFormat) {
+      setTexture(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadEnvironmentTexture({ url: sourceUrl, format: sourceFormat })
+      .then((loaded) => {
+        if (!cancelled) setTexture(loaded);
+      })
+      .catch((error) => {
+        console.error('加载环境贴图失败:', sourceUrl, error);
+        if (!cancelled) setTexture(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceUrl, sourceFormat]);
+
+  // 环境光照和曝光
+  useEffect(() => {
+    applyEnvironmentLighting(scene, texture, lighting);
+    gl.toneMappingExposure = lighting.exposure;
+  }, [scene, gl, texture, lighting]);
+
+  // 卸载时恢复场景
+  useEffect(() => {
+    return () => {
+      scene.environment = null;
+      scene.background = null;
+      gl.toneMappingExposure = 1;
+    };
+  }, [scene, gl]);
+
+  // 渐变背景贴图，颜色变化时重新创建
+  const backgroundMode = background?.background || 'transparent';
+  const [gradientTop, gradientBottom] = background?.gradientColors || ['', ''];
+  const gradientTexture = useMemo(
+    () => backgroundMode === 'gradient' ? createGradientTexture([gradientTop, gradientBottom]) : null,
+    [backgroundMode, gradientTop, gradientBottom]
+  );
+  useEffect(() => {
+    return () => gradientTexture?.dispose();
+  }, [gradientTexture]);
+
+  // 背景
+  const backgroundColor = background?.backgroundColor;
+  useEffect(() => {
+    scene.backgroundBlurriness = 0;
+    scene.backgroundIntensity = 1;
+    scene.backgroundRotation.set(0, 0, 0);
+
+    if (backgroundMode === 'hdri' || backgroundMode === 'blurred') {
+      scene.background = texture;
+      scene.backgroundIntensity = lighting.intensity;
+      scene.backgroundRotation.set(0, THREE.MathUtils.degToRad(lighting.rotation), 0);
+      if (backgroundMode === 'blurred') {
+        scene.backgroundBlurriness = BLURRED_BACKGROUND_BLURRINESS;
+      }
+    } else if (backgroundMode === 'color' && backgroundColor) {
+      scene.background = new THREE.Color(backgroundColor);
+    } else if (backgroundMode === 'gradient') {
+      scene.background = gradientTexture;
+    } else {
+      scene.background = null;
+    }
+  }, [scene, texture, backgroundMode, backgroundColor, gradientTexture, lighting.intensity, lighting.rotation]);
+
+  return null;
+};
+
+export default SceneEnvironment;
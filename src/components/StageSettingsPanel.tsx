@@ -0,0 +1,147 @@
+import React from 'react';
+import {
+  PEDESTAL_SHAPES,
+  STAGE_GROUNDS,
+  type PedestalShape,
+  type StageGround,
+  type StageSettings
+} from '../lib/stageStorage';
+
+interface StageSettingsPanelProps {
+  settings: StageSettings;
+  onChange: (changes: Partial<StageSettings>) => void;
+}
+
+type StageSliderKey = 'shadowOpacity' | 'reflectivity' | 'contactShadowOpacity' | 'contactShadowBlur' | 'pedestalHeight' | 'pedestalMargin';
+
+// 展台参数滑块
+const SLIDER_FIELDS: Record<StageSliderKey, { label: string; min: number; max: number; step: number }> = {
+  shadowOpacity: { label: '阴影浓度', min: 0, max: 1, step: 0.05 },
+  reflectivity: { label: '反射强度', min: 0, max: 1, step: 0.05 },
+  contactShadowOpacity: { label: '接触阴影浓度', min: 0, max: 1, step: 0.05 },
+  contactShadowBlur: { label: '接触阴影模糊', min: 0, max: 10, step: 0.5 },
+  pedestalHeight: { label: '展台高度', min: 0.02, max: 1, step: 0.02 },
+  pedestalMargin: { label: '展台边距', min: 0, max: 1, step: 0.05 }
+};
+
+// 分段按钮和开关的样式，与环境设置一致
+const SEGMENT_CLASS_NAME = 'h-8 p-0.5 w-full bg-container rounded-lg grid';
+const getSegmentButtonClassName = (active: boolean): string => (
+  `rounded-md text-xs font-medium ${active ? 'bg-container-hover text-text-primary' : 'text-text-secondary'}`
+);
+
+// 滑块和颜色选择器的样式，与材质设置一致
+const SLIDER_CLASS_NAME = 'w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary';
+const COLOR_INPUT_CLASS_NAME = 'w-8 h-8 bg-input-bg rounded-lg border-0 cursor-pointer [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:border-none flex-shrink-0';
+
+/**
+ * 展台设置面板
+ * 设置模型下方的阴影地面或反光地面、接触阴影和展台
+ */
+const StageSettingsPanel: React.FC<StageSettingsPanelProps> = ({ settings, onChange }) => {
+  // 渲染参数滑块
+  const renderSlider = (key: StageSliderKey) => {
+    const { label, min, max, step } = SLIDER_FIELDS[key];
+    return (
+      <div key={key} className="space-y-xs w-full">
+        <div className="flex justify-between w-full">
+          <label className="text-text-secondary text-sm font-medium leading-normal">{label}</label>
+          <span className="text-text-tertiary text-sm font-medium leading-normal">{settings[key]}</span>
+        </div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={settings[key]}
+          onChange={(e) => onChange({ [key]: parseFloat(e.target.value) })}
+          className={SLIDER_CLASS_NAME}
+        />
+      </div>
+    );
+  };
+
+  // 渲染颜色选择器
+  const renderColor = (key: 'floorColor' | 'pedestalColor', label: string) => (
+    <div className="flex items-center justify-between w-full">
+      <label className="text-text-secondary text-sm font-medium leading-normal">{label}</label>
+      <input
+        type="color"
+        title={label}
+        value={settings[key]}
+        onChange={(e) => onChange({ [key]: e.target.value })}
+        className={COLOR_INPUT_CLASS_NAME}
+      />
+    </div>
+  );
+
+  // 渲染开关
+  const renderToggle = (key: 'contactShadow' | 'pedestal', label: string) => (
+    <label className="flex items-center justify-between w-full cursor-pointer">
+      <span className="text-text-secondary text-sm font-medium leading-normal">{label}</span>
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={(e) => onChange({ [key]: e.target.checked })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-sm w-full">
+      <div className="space-y-xs w-full">
+        <label className="text-text-secondary text-sm font-medium leading-normal">地面</label>
+        <div className={`${SEGMENT_CLASS_NAME} grid-cols-3`}>
+          {(Object.keys(STAGE_GROUNDS) as StageGround[]).map(ground => (
+            <button
+              key={ground}
+              onClick={() => onChange({ ground })}
+              className={getSegmentButtonClassName(settings.ground === ground)}
+            >
+              {STAGE_GROUNDS[ground]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.ground === 'shadow' && renderSlider('shadowOpacity')}
+
+      {settings.ground === 'reflective' && (
+        <>
+          {renderSlider('reflectivity')}
+          {renderColor('floorColor', '地面颜色')}
+        </>
+      )}
+
+      {renderToggle('contactShadow', '接触阴影')}
+      {settings.contactShadow && (
+        <>
+          {renderSlider('contactShadowOpacity')}
+          {renderSlider('contactShadowBlur')}
+        </>
+      )}
+
+      {renderToggle('pedestal', '展台')}
+      {settings.pedestal && (
+        <>
+          <div className={`${SEGMENT_CLASS_NAME} grid-cols-2`}>
+            {(Object.keys(PEDESTAL_SHAPES) as PedestalShape[]).map(shape => (
+              <button
+                key={shape}
+                onClick={() => onChange({ pedestalShape: shape })}
+                className={getSegmentButtonClassName(settings.pedestalShape === shape)}
+              >
+                {PEDESTAL_SHAPES[shape]}
+              </button>
+            ))}
+          </div>
+          {renderSlider('pedestalHeight')}
+          {renderSlider('pedestalMargin')}
+          {renderColor('pedestalColor', '展台颜色')}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StageSettingsPanel;
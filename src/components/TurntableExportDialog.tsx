@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from './ui/toast';
+import { TURNTABLE_FORMATS, type TurntableFormat, type TurntableOptions } from '../utils/turntableExport';
+import { type AnimationFrameOptions } from '../utils/animationPlayer';
+import AnimationFrameField from './AnimationFrameField';
+
+interface TurntableExportDialogProps {
+  animationDuration?: number; // 模型当前动画片段的时长，没有动画时不设置
+  onExport: (options: TurntableOptions & AnimationFrameOptions, onProgress: (progress: number) => void, signal: AbortSignal) => Promise<Blob>;
+  onClose: () => void;
+}
+
+// 可选的画面尺寸
+const SIZE_OPTIONS = [480, 720, 1080];
+
+// 输入框和下拉框的样式
+const FIELD_CLASS_NAME = 'h-9 w-full px-2 rounded-md border border-gray-200 bg-white text-gray-800';
+
+/**
+ * 转台动画导出对话框
+ * 设置格式、时长、分辨率、仰角和背景后，从当前视角环绕模型一周导出
+ */
+const TurntableExportDialog: React.FC<TurntableExportDialogProps> = ({ animationDuration, onExport, onClose }) => {
+  const [format, setFormat] = useState<TurntableFormat>('gif');
+  const [duration, setDuration] = useState(6);
+  const [size, setSize] = useState(720);
+  const [elevation, setElevation] = useState(15);
+  const [transparent, setTransparent] = useState(false);
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [animationTime, setAnimationTime] = useState<number | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 关闭对话框时取消正在进行的导出
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const exporting = progress !== null;
+  // WebM 视频不支持透明背景
+  const supportsTransparent = format !== 'webm';
+
+  const handleExport = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress(0);
+
+    try {
+      const blob = await onExport({
+        format,
+        duration,
+        size,
+        elevation,
+        background: transparent && supportsTransparent ? null : backgroundColor,
+        animationTime
+      }, setProgress, abortController.signal);
+
+      // 下载导出的文件
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `模型转台_${new Date().getTime()}.${TURNTABLE_FORMATS[format].extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('转台动画已导出');
+      onClose();
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error('导出转台动画失败:', error);
+      toast.error(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      setProgress(null);
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    if (exporting) {
+      abortControllerRef.current?.abort();
+      setProgress(null);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={exporting ? undefined : onClose}>
+      <div
+        className="w-[420px] max-w-[90vw] flex flex-col bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">导出转台动画</h3>
+          <p className="mt-1 text-sm text-gray-500">从当前视角环绕模型一周，使用当前材质</p>
+        </div>
+
+        <div className="px-6 py-4 grid grid-cols-2 gap-4 text-sm text-gray-600">
+          <label className="col-span-2 flex flex-col gap-1">
+            格式
+            <select
+              value={format}
+              disabled={exporting}
+              onChange={(e) => setFormat(e.target.value as TurntableFormat)}
+              className={FIELD_CLASS_NAME}
+            >
+              {(Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).map(value => (
+                <option key={value} value={value}>{TURNTABLE_FORMATS[value].label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            时长（秒）
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={duration}
+              disabled={exporting}
+              onChange={(e) => setDuration(Math.min(30, Math.max(1, Number(e.target.value) || 1)))}
+              className={FIELD_CLASS_NAME}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            分辨率
+            <select
+              value={size}
+              disabled={exporting}
+              onChange={(e) => setSize(Number(e.target.value))}
+              className={FIELD_CLASS_NAME}
+            >
+              {SIZE_OPTIONS.map(value => (
+                <option key={value} value={value}>{value} × {value}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="col-span-2 flex flex-col gap-1">
+            相机仰角 {elevation}°
+            <input
+              type="range"
+              min={-30}
+              max={60}
+              value={elevation}
+              disabled={exporting}
+              onChange={(e) => setElevation(Number(e.target.value))}
+            />
+          </label>
+
+          <div className="col-span-2 flex items-center gap-4">
+            <span>背景</span>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={transparent && supportsTransparent}
+                disabled={exporting || !supportsTransparent}
+                onChange={(e) => setTransparent(e.target.checked)}
+              />
+              透明
+            </label>
+            <input
+              type="color"
+              value={backgroundColor}
+              disabled={exporting || (transparent && supportsTransparent)}
+              onChange={(e) => setBackgroundColor(e.target.value)}
+              className="h-8 w-12 rounded border border-gray-200"
+            />
+          </div>
+          {!supportsTransparent && (
+            <p className="col-span-2 -mt-2 text-xs text-gray-400">WebM 视频不支持透明背景</p>
+          )}
+
+          {animationDuration !== undefined && (
+            <AnimationFrameField
+              duration={animationDuration}
+              value={animationTime}
+              disabled={exporting}
+              onChange={setAnimationTime}
+            />
+          )}
+        </div>
+
+        {exporting && (
+          <div className="px-6 pb-2">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-500 h-2 rounded-full transition-all duration-300 ease-in-out"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {progress < 0.9 ? '正在渲染' : '正在编码'} {Math.round(progress * 100)}%
+            </p>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            {exporting ? '取消导出' : '取消'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 text-sm rounded-md bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+          >
+            导出
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TurntableExportDialog;
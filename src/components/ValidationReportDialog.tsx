@@ -0,0 +1,107 @@
+import React from 'react';
+import { AlertTriangleIcon, InfoIcon, XCircleIcon } from 'lucide-react';
+import { type ModelValidationReport, type ValidationSeverity } from '../utils/modelValidation';
+
+interface ValidationReportDialogProps {
+  report: ModelValidationReport;
+  blocked: boolean;          // 是否阻止上传，阻止时只能关闭
+  confirmLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// 各严重程度的图标、颜色和名称
+const SEVERITY_STYLES: Record<ValidationSeverity, { icon: React.ElementType; className: string; label: string }> = {
+  error: { icon: XCircleIcon, className: 'text-red-600', label: '错误' },
+  warning: { icon: AlertTriangleIcon, className: 'text-amber-500', label: '警告' },
+  info: { icon: InfoIcon, className: 'text-blue-500', label: '信息' }
+};
+
+// 严重程度的排列顺序
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * 模型校验报告对话框
+ * 按严重程度列出上传模型的问题，由上传者决定继续或取消上传
+ */
+const ValidationReportDialog: React.FC<ValidationReportDialogProps> = ({
+  report,
+  blocked,
+  confirmLabel = '继续上传',
+  onConfirm,
+  onCancel
+}) => {
+  const issues = [...report.issues].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onCancel}>
+      <div
+        className="w-[560px] max-w-[90vw] max-h-[80vh] flex flex-col bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {blocked ? '模型未通过校验' : '模型校验报告'}
+          </h3>
+          <p className="mt-1 text-sm text-gray-500 truncate" title={report.fileName}>
+            {report.fileName}
+            {report.triangleCount !== null && ` · ${report.triangleCount.toLocaleString('zh-CN')} 个三角面`}
+          </p>
+          <div className="mt-2 flex gap-4 text-sm">
+            {SEVERITY_ORDER.map((severity) => {
+              const { icon: Icon, className, label } = SEVERITY_STYLES[severity];
+              const count = { error: report.errorCount, warning: report.warningCount, info: report.infoCount }[severity];
+              return (
+                <span key={severity} className={`inline-flex items-center gap-1 ${count > 0 ? className : 'text-gray-400'}`}>
+                  <Icon className="w-4 h-4" />
+                  {label} {count}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-3 space-y-3">
+          {issues.map((issue, index) => {
+            const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+            return (
+              <li key={`${issue.code}_${index}`} className="flex gap-2">
+                <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${className}`} />
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-800 break-words">{issue.message}</p>
+                  <p className="text-xs text-gray-400 break-all">
+                    {issue.code}{issue.pointer && ` · ${issue.pointer}`}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+          {blocked && (
+            <p className="flex-1 self-center text-sm text-red-600">请修复错误后重新上传</p>
+          )}
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            {blocked ? '关闭' : '取消上传'}
+          </button>
+          {!blocked && (
+            <button
+              onClick={onConfirm}
+              className="px-4 py-2 text-sm rounded-md bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {confirmLabel}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportDialog;
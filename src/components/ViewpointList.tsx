@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { XIcon } from 'lucide-react';
+import { type ModelViewpoint } from '../lib/localStorage';
+
+interface ViewpointListProps {
+  viewpoints: ModelViewpoint[];  // 用户保存在模型上的视角
+  onApply: (viewpoint: ModelViewpoint) => void;
+  onSave: (name: string) => void;
+  onDelete: (viewpointId: string) => void;
+}
+
+// 视角按钮的样式，与材质变体一致
+const CHIP_CLASS_NAME = 'h-7 px-2 inline-flex items-center gap-1 rounded-md bg-container text-text-secondary text-sm hover:bg-container-hover max-w-full';
+
+/**
+ * 视角列表
+ * 将查看器的当前视角保存到模型上，点击视角时相机平滑切换过去
+ */
+const ViewpointList: React.FC<ViewpointListProps> = ({ viewpoints, onApply, onSave, onDelete }) => {
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const name = editingName?.trim();
+    if (!name) return;
+    onSave(name);
+    setEditingName(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-xs w-full">
+      <div className="flex items-center justify-between w-full">
+        <span className="text-text-tertiary text-sm font-medium leading-normal">视角</span>
+        {editingName === null && (
+          <button
+            className="text-text-secondary text-sm hover:text-text-primary"
+            onClick={() => setEditingName(`视角 ${viewpoints.length + 1}`)}
+          >
+            保存当前
+          </button>
+        )}
+      </div>
+
+      {editingName !== null && (
+        <div className="flex items-center gap-xs w-full">
+          <input
+            autoFocus
+            value={editingName}
+            onChange={(e) => setEditingName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setEditingName(null);
+            }}
+            className="h-7 flex-1 min-w-0 px-2 rounded-md bg-input-bg text-text-primary text-sm outline-none"
+            placeholder="视角名称"
+          />
+          <button className="text-text-secondary text-sm hover:text-text-primary" onClick={handleSave}>保存</button>
+          <button className="text-text-tertiary text-sm hover:text-text-primary" onClick={() => setEditingName(null)}>取消</button>
+        </div>
+      )}
+
+      {viewpoints.length > 0 && (
+        <div className="flex flex-wrap gap-xs w-full">
+          {viewpoints.map(viewpoint => (
+            <div key={viewpoint.id} className={CHIP_CLASS_NAME}>
+              <button className="truncate" title={`切换到视角: ${viewpoint.name}`} onClick={() => onApply(viewpoint)}>
+                {viewpoint.name}
+              </button>
+              <button
+                className="text-text-tertiary hover:text-text-primary"
+                title="删除视角"
+                onClick={() => onDelete(viewpoint.id)}
+              >
+                <XIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewpointList;
@@ -7,7 +7,9 @@ import {
   AdminLayout, 
   AdminDashboard, 
   ModelsManagement, 
-  MaterialsManagement 
+  MaterialsManagement,
+  EnvironmentsManagement,
+  LightingManagement
 } from "./screens/Admin";
 import { ToastProvider, useToast, setToastFunction } from "./components/ui/toast";
 
@@ -33,6 +35,8 @@ const App = () => {
           <Route path="dashboard" element={<AdminDashboard />} />
           <Route path="models" element={<ModelsManagement />} />
           <Route path="materials" element={<MaterialsManagement />} />
+          <Route path="environments" element={<EnvironmentsManagement />} />
+          <Route path="lighting" element={<LightingManagement />} />
         </Route>
         
         {/* 404路由 */}
@@ -0,0 +1,162 @@
+/**
+ * 环境贴图本地存储管理工具
+ * 内置的环境贴图放在 public/assets/hdri 目录（由 scripts/generate-hdri.js 生成），
+ * 管理员上传的 HDR/EXR 文件保存在 environments 存储桶
+ */
+
+import { deleteFileByPath } from './storage/files';
+
+// 环境贴图文件格式
+export type EnvironmentFormat = 'hdr' | 'exr';
+
+// 环境贴图数据类型定义
+export type EnvironmentMap = {
+  id: string;
+  name: string;
+  file_path: string;
+  format: EnvironmentFormat;
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+// 背景显示方式：hdri 显示环境贴图，blurred 显示模糊的环境贴图，color 纯色，gradient 上下渐变，transparent 透明
+export type EnvironmentBackground = 'hdri' | 'blurred' | 'color' | 'gradient' | 'transparent';
+
+// 查看器的环境设置
+export type EnvironmentSettings = {
+  environmentId: string;
+  rotation: number;     // 环境贴图绕竖直方向的旋转角度（度）
+  exposure: number;     // 色调映射曝光
+  intensity: number;    // 环境光照强度
+  background: EnvironmentBackground;
+  backgroundColor: string;
+  gradientColors: [string, string];  // 渐变背景的顶部和底部颜色
+};
+
+// 内置的环境贴图
+export const BUILT_IN_ENVIRONMENTS: EnvironmentMap[] = [
+  { id: 'studio', name: '摄影棚', file_path: '/assets/hdri/studio.hdr', format: 'hdr', created_at: null, updated_at: null },
+  { id: 'daylight', name: '日光', file_path: '/assets/hdri/daylight.hdr', format: 'hdr', created_at: null, updated_at: null },
+  { id: 'showroom', name: '展厅', file_path: '/assets/hdri/showroom.hdr', format: 'hdr', created_at: null, updated_at: null },
+  { id: 'overcast', name: '阴天', file_path: '/assets/hdri/overcast.hdr', format: 'hdr', created_at: null, updated_at: null }
+];
+
+// 各背景显示方式的名称
+export const ENVIRONMENT_BACKGROUNDS: Record<EnvironmentBackground, string> = {
+  hdri: '环境贴图',
+  blurred: '模糊环境',
+  color: '纯色',
+  gradient: '渐变',
+  transparent: '透明'
+};
+
+// 默认的环境设置，与之前固定的摄影棚环境效果一致
+export const DEFAULT_ENVIRONMENT_SETTINGS: EnvironmentSettings = {
+  environmentId: 'studio',
+  rotation: 0,
+  exposure: 1,
+  intensity: 1,
+  background: 'transparent',
+  backgroundColor: '#262626',
+  gradientColors: ['#3a3a3a', '#141414']
+};
+
+// 本地存储键名
+const ENVIRONMENTS_STORAGE_KEY = 'huitong3d_environments';
+const ENVIRONMENT_SETTINGS_KEY = 'huitong3d_environment_settings';
+
+/**
+ * 根据文件名判断环境贴图格式
+ * @param fileName 文件名
+ * @returns 环境贴图格式，不支持的文件返回null
+ */
+export const getEnvironmentFormat = (fileName: string): EnvironmentFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'hdr' || extension === 'exr' ? extension : null;
+};
+
+/**
+ * 保存环境贴图数据到本地存储
+ * @param environments 环境贴图数据数组
+ */
+export const saveEnvironments = (environments: EnvironmentMap[]): void => {
+  localStorage.setItem(ENVIRONMENTS_STORAGE_KEY, JSON.stringify(environments));
+};
+
+/**
+ * 从本地存储获取管理员上传的环境贴图
+ * @returns 环境贴图数据数组
+ */
+export const getEnvironments = (): EnvironmentMap[] => {
+  const environmentsJson = localStorage.getItem(ENVIRONMENTS_STORAGE_KEY);
+  if (!environmentsJson) return [];
+
+  try {
+    return JSON.parse(environmentsJson) as EnvironmentMap[];
+  } catch (error) {
+    console.error('解析本地存储的环境贴图数据失败:', error);
+    return [];
+  }
+};
+
+/**
+ * 添加或更新单个环境贴图
+ * @param environment 环境贴图数据
+ */
+export const saveEnvironment = (environment: EnvironmentMap): void => {
+  const environments = getEnvironments();
+  const existingIndex = environments.findIndex(item => item.id === environment.id);
+
+  if (existingIndex >= 0) {
+    environments[existingIndex] = environment;
+  } else {
+    environments.push(environment);
+  }
+
+  saveEnvironments(environments);
+};
+
+/**
+ * 删除单个环境贴图，同时删除其文件
+ * @param environmentId 环境贴图ID
+ * @returns 是否成功删除
+ */
+export const deleteEnvironment = (environmentId: string): boolean => {
+  const environments = getEnvironments();
+  const environmentToDelete = environments.find(item => item.id === environmentId);
+
+  if (environmentToDelete) {
+    saveEnvironments(environments.filter(item => item.id !== environmentId));
+
+    deleteFileByPath(environmentToDelete.file_path).catch(error => {
+      console.error('删除环境贴图文件失败:', error);
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * 获取查看器的环境设置
+ * @returns 环境设置，未保存过时为默认设置
+ */
+export const getEnvironmentSettings = (): EnvironmentSettings => {
+  const settingsJson = localStorage.getItem(ENVIRONMENT_SETTINGS_KEY);
+  if (!settingsJson) return DEFAULT_ENVIRONMENT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_ENVIRONMENT_SETTINGS, ...JSON.parse(settingsJson) };
+  } catch (error) {
+    console.error('解析本地存储的环境设置失败:', error);
+    return DEFAULT_ENVIRONMENT_SETTINGS;
+  }
+};
+
+/**
+ * 保存查看器的环境设置
+ * @param settings 环境设置
+ */
+export const saveEnvironmentSettings = (settings: EnvironmentSettings): void => {
+  localStorage.setItem(ENVIRONMENT_SETTINGS_KEY, JSON.stringify(settings));
+};
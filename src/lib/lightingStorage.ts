@@ -0,0 +1,212 @@
+/**
+ * 灯光方案本地存储管理工具
+ * 内置灯光方案只读，管理员可以在后台复制内置方案或新建方案并编辑灯光
+ */
+
+import renderSettings from '../config/renderSettings.json';
+
+// 灯光类型：directional 平行光，spot 聚光灯，point 点光源（聚光灯和点光源不随距离衰减）
+export type RigLightType = 'directional' | 'spot' | 'point';
+
+// 灯光方案中的单个灯光
+export type RigLight = {
+  id: string;
+  name: string;
+  type: RigLightType;
+  // 灯光位置，使用查看器中归一化后的模型坐标（模型最长边为2并位于原点），灯光始终朝向原点
+  position: [number, number, number];
+  intensity: number;
+  colorTemperature: number;  // 色温（K）
+  castShadow: boolean;
+  shadowSoftness: number;    // 阴影柔和度 0-1
+};
+
+// 灯光方案数据类型定义
+export type LightingRig = {
+  id: string;
+  name: string;
+  ambientIntensity: number;
+  lights: RigLight[];
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+// 各灯光类型的名称
+export const RIG_LIGHT_TYPES: Record<RigLightType, string> = {
+  directional: '平行光',
+  spot: '聚光灯',
+  point: '点光源'
+};
+
+// 色温范围（K）
+export const MIN_COLOR_TEMPERATURE = 2000;
+export const MAX_COLOR_TEMPERATURE = 10000;
+
+// 中性白光的色温
+export const NEUTRAL_COLOR_TEMPERATURE = 6500;
+
+/**
+ * 创建灯光
+ * @param id 灯光ID
+ * @param name 灯光名称
+ * @param type 灯光类型
+ * @param position 灯光位置
+ * @param options 其他参数，未设置时为中性白光、不投射阴影
+ * @returns 灯光
+ */
+export const createRigLight = (
+  id: string,
+  name: string,
+  type: RigLightType,
+  position: [number, number, number],
+  options: Partial<Pick<RigLight, 'intensity' | 'colorTemperature' | 'castShadow' | 'shadowSoftness'>> = {}
+): RigLight => ({
+  id,
+  name,
+  type,
+  position,
+  intensity: 1,
+  colorTemperature: NEUTRAL_COLOR_TEMPERATURE,
+  castShadow: false,
+  shadowSoftness: 0.5,
+  ...options
+});
+
+// 内置灯光方案，默认方案的灯光来自 renderSettings.json（缩略图和批量渲染脚本也使用该方案）
+export const BUILT_IN_LIGHTING_RIGS: LightingRig[] = [
+  {
+    id: 'default',
+    name: '默认',
+    ambientIntensity: renderSettings.lighting.ambientIntensity,
+    lights: renderSettings.lighting.lights as RigLight[],
+    created_at: null,
+    updated_at: null
+  },
+  {
+    id: 'three-point',
+    name: '三点布光',
+    ambientIntensity: 0.15,
+    lights: [
+      createRigLight('key', '主光', 'directional', [5, 6, 5], { intensity: 1.2, colorTemperature: 5600, castShadow: true, shadowSoftness: 0.4 }),
+      createRigLight('fill', '补光', 'directional', [-6, 3, 4], { intensity: 0.4 }),
+      createRigLight('back', '背光', 'directional', [0, 5, -6], { intensity: 0.8, colorTemperature: 7000 })
+    ],
+    created_at: null,
+    updated_at: null
+  },
+  {
+    id: 'softbox',
+    name: '柔光箱',
+    ambientIntensity: 0.25,
+    lights: [
+      createRigLight('key', '主柔光箱', 'spot', [3, 6, 4], { intensity: 1, colorTemperature: 5500, castShadow: true, shadowSoftness: 0.9 }),
+      createRigLight('fill', '侧柔光箱', 'spot', [-4, 4, 3], { intensity: 0.5, colorTemperature: 5500, shadowSoftness: 0.9 })
+    ],
+    created_at: null,
+    updated_at: null
+  },
+  {
+    id: 'rim',
+    name: '轮廓光',
+    ambientIntensity: 0.05,
+    lights: [
+      createRigLight('rim-left', '左轮廓光', 'directional', [-5, 3, -5], { intensity: 1.2, colorTemperature: 8000 }),
+      createRigLight('rim-right', '右轮廓光', 'directional', [5, 3, -5], { intensity: 1.2, colorTemperature: 8000 }),
+      createRigLight('front', '正面弱光', 'directional', [0, 2, 6], { intensity: 0.2, colorTemperature: 4500 })
+    ],
+    created_at: null,
+    updated_at: null
+  },
+  {
+    id: 'top-down',
+    name: '俯拍目录',
+    ambientIntensity: 0.4,
+    lights: [
+      createRigLight('top', '顶光', 'directional', [0, 10, 0.5], { intensity: 1, colorTemperature: 6000, castShadow: true, shadowSoftness: 0.8 }),
+      createRigLight('front', '正面补光', 'directional', [0, 4, 6], { intensity: 0.3 })
+    ],
+    created_at: null,
+    updated_at: null
+  }
+];
+
+// 默认灯光方案
+export const DEFAULT_LIGHTING_RIG = BUILT_IN_LIGHTING_RIGS[0];
+
+// 本地存储键名
+const LIGHTING_RIGS_STORAGE_KEY = 'huitong3d_lighting_rigs';
+const SELECTED_LIGHTING_RIG_KEY = 'huitong3d_selected_lighting_rig';
+
+/**
+ * 保存灯光方案数据到本地存储
+ * @param rigs 灯光方案数据数组
+ */
+export const saveLightingRigs = (rigs: LightingRig[]): void => {
+  localStorage.setItem(LIGHTING_RIGS_STORAGE_KEY, JSON.stringify(rigs));
+};
+
+/**
+ * 从本地存储获取管理员创建的灯光方案
+ * @returns 灯光方案数据数组
+ */
+export const getLightingRigs = (): LightingRig[] => {
+  const rigsJson = localStorage.getItem(LIGHTING_RIGS_STORAGE_KEY);
+  if (!rigsJson) return [];
+
+  try {
+    return JSON.parse(rigsJson) as LightingRig[];
+  } catch (error) {
+    console.error('解析本地存储的灯光方案数据失败:', error);
+    return [];
+  }
+};
+
+/**
+ * 添加或更新单个灯光方案
+ * @param rig 灯光方案数据
+ */
+export const saveLightingRig = (rig: LightingRig): void => {
+  const rigs = getLightingRigs();
+  const existingIndex = rigs.findIndex(item => item.id === rig.id);
+
+  if (existingIndex >= 0) {
+    rigs[existingIndex] = rig;
+  } else {
+    rigs.push(rig);
+  }
+
+  saveLightingRigs(rigs);
+};
+
+/**
+ * 删除单个灯光方案
+ * @param rigId 灯光方案ID
+ * @returns 是否成功删除
+ */
+export const deleteLightingRig = (rigId: string): boolean => {
+  const rigs = getLightingRigs();
+  const filteredRigs = rigs.filter(rig => rig.id !== rigId);
+
+  if (filteredRigs.length !== rigs.length) {
+    saveLightingRigs(filteredRigs);
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * 获取前台选择的灯光方案ID
+ * @returns 灯光方案ID，未选择过时为默认方案
+ */
+export const getSelectedLightingRigId = (): string => {
+  return localStorage.getItem(SELECTED_LIGHTING_RIG_KEY) || DEFAULT_LIGHTING_RIG.id;
+};
+
+/**
+ * 保存前台选择的灯光方案ID
+ * @param rigId 灯光方案ID
+ */
+export const saveSelectedLightingRigId = (rigId: string): void => {
+  localStorage.setItem(SELECTED_LIGHTING_RIG_KEY, rigId);
+};
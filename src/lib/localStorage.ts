@@ -3,13 +3,72 @@
  * 用于替代之前的Supabase存储
  */
 
+import { deleteFileByPath } from './storage/files';
+import { type MaterialAppearance } from './materialStorage';
+
+// 模型元数据，上传时解析模型得到
+export type ModelMetadata = {
+  format: string;           // 文件格式（扩展名）
+  fileSize: number;         // 保存的文件大小（字节）
+  originalSize: number;     // 上传的原始文件大小，包含外部资源（字节）
+  vertexCount: number;
+  triangleCount: number;
+  meshNames: string[];
+  materialSlots: string[];  // 部件名称，与模型查看器中的部件一一对应
+  dimensions: { x: number; y: number; z: number };  // 包围盒尺寸（模型单位）
+  textureCount: number;
+  maxTextureSize: [number, number] | null;  // 最大贴图的宽高
+  animations: { name: string; duration: number }[];  // 动画名称和时长（秒）
+};
+
+// 部件材质的使用方式：override 使用材质库材质，original 恢复模型原始材质，
+// blend 保留原始材质的法线和环境光遮蔽贴图，只使用材质库材质的颜色、粗糙度和金属度等属性
+export type SlotMaterialMode = 'override' | 'original' | 'blend';
+
+// 模型部件的材质分配，materialId 为 null 表示自定义材质
+export type SlotAssignment = {
+  materialId: string | null;
+  appearance: MaterialAppearance;
+  mode?: SlotMaterialMode;  // 默认为 override
+  variant?: number;  // 使用模型文件中材质变体的材质（glTF 变体索引），此时 appearance 不生效
+};
+
+// 材质变体中保存的部件材质分配：材质库材质只保存ID，模型文件中的变体只保存变体索引，自定义材质保存材质属性
+export type SavedSlotAssignment = {
+  materialId?: string | null;
+  variant?: number;
+  appearance?: MaterialAppearance;
+  mode?: SlotMaterialMode;
+};
+
+// 保存在模型上的材质变体
+export type ModelMaterialVariant = {
+  id: string;
+  name: string;
+  assignments: Record<string, SavedSlotAssignment>;  // 各部件的材质分配，键为部件ID
+  created_at: string;
+};
+
+// 保存在模型上的视角，相机位置和观察目标使用查看器中归一化后的模型坐标
+export type ModelViewpoint = {
+  id: string;
+  name: string;
+  position: [number, number, number];
+  target: [number, number, number];
+  created_at: string;
+};
+
 // 模型数据类型定义
 export type Model = {
   id: string;
   name: string;
   description: string | null;
   file_path: string;
+  bundle_entry?: string | null;  // 文件包中的主模型路径，存在时 file_path 指向包含模型和资源文件的 ZIP
   thumbnail_url?: string | null;
+  metadata?: ModelMetadata | null;
+  material_variants?: ModelMaterialVariant[];  // 用户保存的材质变体
+  viewpoints?: ModelViewpoint[];  // 用户保存的视角
   created_at: string | null;
   updated_at: string | null;
 };
@@ -65,11 +124,15 @@ export const saveModel = (model: Model): void => {
  */
 export const deleteModel = (modelId: string): boolean => {
   const models = getModels();
-  const initialLength = models.length;
-  const filteredModels = models.filter(model => model.id !== modelId);
+  const modelToDelete = models.find(model => model.id === modelId);
   
-  if (filteredModels.length !== initialLength) {
-    saveModels(filteredModels);
+  if (modelToDelete) {
+    saveModels(models.filter(model => model.id !== modelId));
+    
+    // 删除IndexedDB或服务器中保存的模型文件
+    deleteFileByPath(modelToDelete.file_path).catch(error => {
+      console.error('删除模型文件失败:', error);
+    });
     return true;
   }
   
@@ -2,6 +2,18 @@
  * 材质本地存储管理工具
  */
 
+import { deleteFileByPath } from './storage/files';
+
+// 材质贴图类型定义，值为贴图文件路径（上传的贴图保存在 materials 存储桶）或图片URL
+export type MaterialTextureMaps = {
+  baseColor?: string;  // 基础颜色贴图
+  normal?: string;     // 法线贴图
+  roughness?: string;  // 粗糙度贴图
+  metalness?: string;  // 金属度贴图
+  ao?: string;         // 环境光遮蔽贴图
+  height?: string;     // 高度贴图
+};
+
 // 材质数据类型定义
 export type Material = {
   id: string;
@@ -10,10 +22,44 @@ export type Material = {
   color: string;
   roughness: number;
   metallic: number;
+  maps?: MaterialTextureMaps;
+  uvScale?: number;     // 贴图平铺倍数，默认 1
+  uvRotation?: number;  // 贴图旋转角度（度），默认 0
+  clearcoat?: number;           // 清漆强度 0-1
+  clearcoatRoughness?: number;  // 清漆粗糙度 0-1
+  transmission?: number;        // 透射率 0-1
+  thickness?: number;           // 透射厚度
+  ior?: number;                 // 折射率，默认 1.5
+  sheen?: number;               // 绒面光泽 0-1
+  opacity?: number;             // 不透明度 0-1，默认 1
   created_at: string;
   updated_at: string;
 };
 
+// 物理材质参数键名
+export type PhysicalMaterialKey = 'clearcoat' | 'clearcoatRoughness' | 'transmission' | 'thickness' | 'ior' | 'sheen' | 'opacity';
+
+// 物理材质参数定义，用于编辑界面和判断是否需要物理材质
+export const PHYSICAL_MATERIAL_FIELDS: Array<{
+  key: PhysicalMaterialKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}> = [
+  { key: 'clearcoat', label: '清漆', min: 0, max: 1, step: 0.01, defaultValue: 0 },
+  { key: 'clearcoatRoughness', label: '清漆粗糙度', min: 0, max: 1, step: 0.01, defaultValue: 0 },
+  { key: 'transmission', label: '透射', min: 0, max: 1, step: 0.01, defaultValue: 0 },
+  { key: 'thickness', label: '厚度', min: 0, max: 5, step: 0.05, defaultValue: 0 },
+  { key: 'ior', label: '折射率', min: 1, max: 2.333, step: 0.01, defaultValue: 1.5 },
+  { key: 'sheen', label: '绒面光泽', min: 0, max: 1, step: 0.01, defaultValue: 0 },
+  { key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.01, defaultValue: 1 },
+];
+
+// 材质外观属性（不含元数据），用于渲染和部件材质分配
+export type MaterialAppearance = Omit<Material, 'id' | 'name' | 'description' | 'created_at' | 'updated_at'>;
+
 // 本地存储键名
 const MATERIALS_STORAGE_KEY = 'huitong3d_materials';
 
@@ -58,6 +104,19 @@ export const saveMaterial = (material: Material): void => {
   saveMaterials(materials);
 };
 
+/**
+ * 删除材质贴图文件，Data URL 和外部链接不做处理
+ * @param maps 材质贴图
+ */
+export const deleteMaterialMapFiles = (maps: MaterialTextureMaps | undefined): void => {
+  Object.values(maps || {}).forEach(filePath => {
+    if (!filePath) return;
+    deleteFileByPath(filePath).catch(error => {
+      console.error('删除材质贴图文件失败:', error);
+    });
+  });
+};
+
 /**
  * 删除单个材质
  * @param materialId 材质ID
@@ -70,8 +129,19 @@ export const deleteMaterial = (materialId: string): boolean => {
   
   if (filteredMaterials.length !== initialLength) {
     saveMaterials(filteredMaterials);
+    deleteMaterialMapFiles(materials.find(material => material.id === materialId)?.maps);
     return true;
   }
   
   return false;
 };
+
+/**
+ * 提取材质的外观属性
+ * @param material 材质数据
+ * @returns 材质外观属性
+ */
+export const getMaterialAppearance = (material: Material): MaterialAppearance => {
+  const { id, name, description, created_at, updated_at, ...appearance } = material;
+  return appearance;
+};
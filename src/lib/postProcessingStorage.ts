@@ -0,0 +1,95 @@
+/**
+ * 后期处理设置本地存储管理工具
+ * 查看器的色调映射、环境光遮蔽、泛光、暗角和调色，导出图片和转台动画使用相同的设置
+ * 曝光在环境设置中调整（见 environmentStorage）
+ */
+
+// 色调映射算法
+export type ToneMappingOperator = 'aces' | 'agx' | 'neutral';
+
+// 效果质量：off 关闭所有后期效果，low 不使用环境光遮蔽和多重采样，high 启用全部效果
+export type PostProcessingQuality = 'off' | 'low' | 'high';
+
+// 内置的调色查找表
+export type ColorGradingLut = 'none' | 'warm' | 'cool' | 'cinematic' | 'vivid' | 'mono';
+
+// 查看器的后期处理设置
+export type PostProcessingSettings = {
+  quality: PostProcessingQuality;
+  toneMapping: ToneMappingOperator;
+  ssao: boolean;               // 环境光遮蔽，只在高质量下生效
+  ssaoIntensity: number;       // 0-1
+  bloom: boolean;
+  bloomStrength: number;       // 0-1
+  bloomThreshold: number;      // 发光的亮度阈值（线性亮度）
+  vignette: boolean;
+  vignetteStrength: number;    // 0-1
+  lut: ColorGradingLut;
+  lutIntensity: number;        // 0-1
+};
+
+// 各色调映射算法的名称
+export const TONE_MAPPING_OPERATORS: Record<ToneMappingOperator, string> = {
+  aces: 'ACES',
+  agx: 'AgX',
+  neutral: 'Neutral'
+};
+
+// 各效果质量的名称
+export const POST_PROCESSING_QUALITIES: Record<PostProcessingQuality, string> = {
+  off: '关闭',
+  low: '低',
+  high: '高'
+};
+
+// 各调色查找表的名称
+export const COLOR_GRADING_LUTS: Record<ColorGradingLut, string> = {
+  none: '无',
+  warm: '暖色',
+  cool: '冷色',
+  cinematic: '电影',
+  vivid: '鲜艳',
+  mono: '黑白'
+};
+
+// 默认的后期处理设置，与之前的 ACES 色调映射、无后期效果一致
+export const DEFAULT_POST_PROCESSING_SETTINGS: PostProcessingSettings = {
+  quality: 'off',
+  toneMapping: 'aces',
+  ssao: true,
+  ssaoIntensity: 0.8,
+  bloom: true,
+  bloomStrength: 0.3,
+  bloomThreshold: 0.9,
+  vignette: false,
+  vignetteStrength: 0.4,
+  lut: 'none',
+  lutIntensity: 1
+};
+
+// 本地存储键名
+const POST_PROCESSING_SETTINGS_KEY = 'huitong3d_post_processing_settings';
+
+/**
+ * 获取查看器的后期处理设置
+ * @returns 后期处理设置，未保存过时为默认设置
+ */
+export const getPostProcessingSettings = (): PostProcessingSettings => {
+  const settingsJson = localStorage.getItem(POST_PROCESSING_SETTINGS_KEY);
+  if (!settingsJson) return DEFAULT_POST_PROCESSING_SETTINGS;
+
+  try {
+    return { ...DEFAULT_POST_PROCESSING_SETTINGS, ...JSON.parse(settingsJson) };
+  } catch (error) {
+    console.error('解析本地存储的后期处理设置失败:', error);
+    return DEFAULT_POST_PROCESSING_SETTINGS;
+  }
+};
+
+/**
+ * 保存查看器的后期处理设置
+ * @param settings 后期处理设置
+ */
+export const savePostProcessingSettings = (settings: PostProcessingSettings): void => {
+  localStorage.setItem(POST_PROCESSING_SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,91 @@
+/**
+ * 展台设置本地存储管理工具
+ * 查看器中模型下方的地面、接触阴影和展台，导出图片和转台动画使用相同的设置
+ */
+
+// 地面类型：none 无地面，shadow 只显示阴影的透明地面，reflective 反光地面
+export type StageGround = 'none' | 'shadow' | 'reflective';
+
+// 展台形状
+export type PedestalShape = 'cylinder' | 'box';
+
+// 查看器的展台设置，尺寸使用归一化后的模型坐标（模型最长边为2）
+export type StageSettings = {
+  ground: StageGround;
+  shadowOpacity: number;         // 地面上灯光阴影的不透明度 0-1
+  reflectivity: number;          // 反光地面的反射强度 0-1
+  floorColor: string;            // 反光地面的颜色
+  contactShadow: boolean;        // 模型与地面接触处的柔和阴影，不依赖灯光
+  contactShadowOpacity: number;  // 接触阴影的不透明度 0-1
+  contactShadowBlur: number;     // 接触阴影的模糊程度 0-10
+  pedestal: boolean;
+  pedestalShape: PedestalShape;
+  pedestalHeight: number;        // 展台高度
+  pedestalMargin: number;        // 展台超出模型底面的边距
+  pedestalColor: string;
+};
+
+// 各地面类型的名称
+export const STAGE_GROUNDS: Record<StageGround, string> = {
+  none: '无',
+  shadow: '阴影地面',
+  reflective: '反光地面'
+};
+
+// 各展台形状的名称
+export const PEDESTAL_SHAPES: Record<PedestalShape, string> = {
+  cylinder: '圆柱',
+  box: '方形'
+};
+
+// 默认的展台设置，不显示地面和展台，与之前悬空显示的效果一致
+export const DEFAULT_STAGE_SETTINGS: StageSettings = {
+  ground: 'none',
+  shadowOpacity: 0.4,
+  reflectivity: 0.5,
+  floorColor: '#808080',
+  contactShadow: false,
+  contactShadowOpacity: 0.6,
+  contactShadowBlur: 3,
+  pedestal: false,
+  pedestalShape: 'cylinder',
+  pedestalHeight: 0.2,
+  pedestalMargin: 0.2,
+  pedestalColor: '#e5e5e5'
+};
+
+// 本地存储键名
+const STAGE_SETTINGS_KEY = 'huitong3d_stage_settings';
+
+/**
+ * 判断展台设置是否会在场景中添加对象
+ * @param settings 展台设置
+ * @returns 是否显示地面、接触阴影或展台
+ */
+export const hasStageObjects = (settings: StageSettings): boolean => {
+  return settings.ground !== 'none' || settings.contactShadow || settings.pedestal;
+};
+
+/**
+ * 获取查看器的展台设置
+ * @returns 展台设置，未保存过时为默认设置
+ */
+export const getStageSettings = (): StageSettings => {
+  const settingsJson = localStorage.getItem(STAGE_SETTINGS_KEY);
+  if (!settingsJson) return DEFAULT_STAGE_SETTINGS;
+
+  try {
+    return { ...DEFAULT_STAGE_SETTINGS, ...JSON.parse(settingsJson) };
+  } catch (error) {
+    console.error('解析本地存储的展台设置失败:', error);
+    return DEFAULT_STAGE_SETTINGS;
+  }
+};
+
+/**
+ * 保存查看器的展台设置
+ * @param settings 展台设置
+ */
+export const saveStageSettings = (settings: StageSettings): void => {
+  localStorage.setItem(STAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,62 @@
+/**
+ * 文件路径解析工具
+ * 模型记录中的文件路径可能来自不同后端（IndexedDB 引用或服务器路径），统一在这里解析和删除
+ */
+
+import bucketConfig from '../../config/storageBuckets.json';
+import { deleteStoredFile, getStoredFileUrl, isStoredFileRef } from '../../utils/fileStorage';
+
+/**
+ * 获取后端服务器地址
+ * @returns 服务器地址，部署在同源时为空字符串
+ */
+export const getServerBaseUrl = (): string => {
+  if (import.meta.env.VITE_API_BASE_URL) {
+    return import.meta.env.VITE_API_BASE_URL.replace(/\/$/, '');
+  }
+  return window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
+    ? `http://${window.location.hostname}:9000`
+    : '';
+};
+
+/**
+ * 判断是否为服务器存储桶中的文件路径（例如 /models/xxx.glb）
+ * @param filePath 文件路径
+ * @returns 是否为服务器文件路径
+ */
+export const isServerFilePath = (filePath: string): boolean => {
+  return Object.keys(bucketConfig).some(bucketName => filePath.startsWith(`/${bucketName}/`));
+};
+
+/**
+ * 将记录中的文件路径解析为可加载的URL
+ * @param filePath 文件路径
+ * @returns 可加载的URL，文件不存在时返回null
+ */
+export const resolveFileUrl = async (filePath: string): Promise<string | null> => {
+  if (isStoredFileRef(filePath)) {
+    return getStoredFileUrl(filePath);
+  }
+  if (isServerFilePath(filePath)) {
+    return `${getServerBaseUrl()}${filePath}`;
+  }
+  return filePath;
+};
+
+/**
+ * 删除记录中引用的文件，其他类型的URL（例如 blob: 或外部链接）不做处理
+ * @param filePath 文件路径
+ */
+export const deleteFileByPath = async (filePath: string): Promise<void> => {
+  if (isStoredFileRef(filePath)) {
+    await deleteStoredFile(filePath);
+    return;
+  }
+  if (isServerFilePath(filePath)) {
+    const response = await fetch(`${getServerBaseUrl()}/api${filePath}`, { method: 'DELETE' });
+    // 文件已不存在时视为删除成功
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`服务器响应错误: ${response.status}`);
+    }
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * 存储后端入口
+ * 根据环境变量 VITE_STORAGE_BACKEND 选择存储后端：
+ *   local     - localStorage（默认）
+ *   indexeddb - 浏览器 IndexedDB
+ *   rest      - 本地后端服务器（npm run server）
+ */
+
+import { createIndexedDBBackend } from './indexedDBBackend';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { createRestBackend } from './restBackend';
+import type { StorageBackend, StorageBackendType } from './types';
+
+export type {
+  CacheRepository,
+  EnvironmentRepository,
+  FileBucketName,
+  FileRepository,
+  LightingRigRepository,
+  MaterialRepository,
+  ModelRepository,
+  StorageBackend,
+  StorageBackendType
+} from './types';
+export { getServerBaseUrl, resolveFileUrl } from './files';
+
+/**
+ * 创建指定类型的存储后端
+ * @param type 存储后端类型
+ * @returns 存储后端
+ */
+export const createStorageBackend = (type: StorageBackendType): StorageBackend => {
+  switch (type) {
+    case 'indexeddb':
+      return createIndexedDBBackend();
+    case 'rest':
+      return createRestBackend();
+    default:
+      return createLocalStorageBackend();
+  }
+};
+
+/**
+ * 读取配置的存储后端类型
+ * @returns 存储后端类型，未配置或配置无效时为 local
+ */
+const getConfiguredBackendType = (): StorageBackendType => {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND;
+  if (configured === 'indexeddb' || configured === 'rest' || configured === 'local') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`未知的存储后端 "${configured}"，使用 localStorage`);
+  }
+  return 'local';
+};
+
+// 当前使用的存储后端
+export const storage: StorageBackend = createStorageBackend(getConfiguredBackendType());
@@ -0,0 +1,196 @@
+/**
+ * IndexedDB 存储后端
+ * 模型、材质、环境贴图、灯光方案记录和缓存都保存在 IndexedDB，适合保存较大的贴图和缩略图数据
+ */
+
+import type { Model } from '../localStorage';
+import { deleteMaterialMapFiles, type Material } from '../materialStorage';
+import type { EnvironmentMap } from '../environmentStorage';
+import type { LightingRig } from '../lightingStorage';
+import { saveFileToStorage } from '../../utils/fileStorage';
+import { deleteFileByPath, resolveFileUrl } from './files';
+import type { StorageBackend } from './types';
+
+// 数据库配置
+const DATA_DB_NAME = 'huitong3d_data';
+const DATA_DB_VERSION = 3;
+const MODELS_STORE = 'models';
+const MATERIALS_STORE = 'materials';
+const ENVIRONMENTS_STORE = 'environments';
+const LIGHTING_RIGS_STORE = 'lighting_rigs';
+const CACHE_STORE = 'cache';
+
+// 缓存记录
+type CacheRecord = {
+  key: string;
+  value: string;
+};
+
+// 数据库连接，只打开一次
+let dataDatabasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开数据数据库
+ * @returns 数据库连接
+ */
+const openDataDatabase = (): Promise<IDBDatabase> => {
+  if (!dataDatabasePromise) {
+    dataDatabasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATA_DB_NAME, DATA_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MODELS_STORE)) {
+          db.createObjectStore(MODELS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MATERIALS_STORE)) {
+          db.createObjectStore(MATERIALS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ENVIRONMENTS_STORE)) {
+          db.createObjectStore(ENVIRONMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LIGHTING_RIGS_STORE)) {
+          db.createObjectStore(LIGHTING_RIGS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dataDatabasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dataDatabasePromise;
+};
+
+/**
+ * 在指定对象仓库上执行一次请求
+ * @param storeName 对象仓库名称
+ * @param mode 事务模式
+ * @param createRequest 创建请求的函数
+ * @returns 请求结果
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDataDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 创建按ID存取的记录仓库
+ * @param storeName 对象仓库名称
+ * @returns 记录仓库
+ */
+const createRecordStore = <T extends { id: string; created_at: string | null }>(storeName: string) => ({
+  list: async (): Promise<T[]> => {
+    const records = await runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+    // 保持与 localStorage 后端相同的添加顺序
+    return records.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  },
+  get: async (id: string): Promise<T | null> => {
+    const record = await runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+    return record || null;
+  },
+  save: async (record: T): Promise<void> => {
+    await runRequest(storeName, 'readwrite', store => store.put(record));
+  },
+  delete: async (id: string): Promise<boolean> => {
+    const existing = await runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+    if (!existing) return false;
+    await runRequest(storeName, 'readwrite', store => store.delete(id));
+    return true;
+  }
+});
+
+/**
+ * 创建 IndexedDB 存储后端
+ * @returns 存储后端
+ */
+export const createIndexedDBBackend = (): StorageBackend => {
+  const models = createRecordStore<Model>(MODELS_STORE);
+  const materials = createRecordStore<Material>(MATERIALS_STORE);
+  const environments = createRecordStore<EnvironmentMap>(ENVIRONMENTS_STORE);
+
+  return {
+    type: 'indexeddb',
+    label: '浏览器数据库 (IndexedDB)',
+    models: {
+      ...models,
+      delete: async (modelId) => {
+        const model = await models.get(modelId);
+        if (!model) return false;
+        await models.delete(modelId);
+
+        // 删除模型文件
+        deleteFileByPath(model.file_path).catch(error => {
+          console.error('删除模型文件失败:', error);
+        });
+        return true;
+      },
+      updateThumbnail: async (modelId, thumbnailUrl) => {
+        const model = await models.get(modelId);
+        if (!model) return false;
+        await models.save({ ...model, thumbnail_url: thumbnailUrl, updated_at: new Date().toISOString() });
+        return true;
+      }
+    },
+    materials: {
+      ...materials,
+      delete: async (materialId) => {
+        const material = await materials.get(materialId);
+        if (!material) return false;
+        await materials.delete(materialId);
+
+        // 删除材质贴图文件
+        deleteMaterialMapFiles(material.maps);
+        return true;
+      }
+    },
+    environments: {
+      ...environments,
+      delete: async (environmentId) => {
+        const environment = await environments.get(environmentId);
+        if (!environment) return false;
+        await environments.delete(environmentId);
+
+        // 删除环境贴图文件
+        deleteFileByPath(environment.file_path).catch(error => {
+          console.error('删除环境贴图文件失败:', error);
+        });
+        return true;
+      }
+    },
+    lightingRigs: createRecordStore<LightingRig>(LIGHTING_RIGS_STORE),
+    files: {
+      save: (file, fileName) => saveFileToStorage(file, fileName),
+      getUrl: resolveFileUrl,
+      delete: deleteFileByPath
+    },
+    cache: {
+      get: async (key) => {
+        const record = await runRequest<CacheRecord | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+        return record ? record.value : null;
+      },
+      set: async (key, value) => {
+        await runRequest(CACHE_STORE, 'readwrite', store => store.put({ key, value }));
+      },
+      remove: async (key) => {
+        await runRequest(CACHE_STORE, 'readwrite', store => store.delete(key));
+      },
+      clear: async () => {
+        await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+      }
+    }
+  };
+};
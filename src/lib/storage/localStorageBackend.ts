@@ -0,0 +1,75 @@
+/**
+ * localStorage 存储后端
+ * 模型、材质、环境贴图和灯光方案记录保存在 localStorage，文件保存在 IndexedDB（localStorage 容量不足以保存模型文件）
+ */
+
+import { deleteModel, getModels, saveModel, updateModelThumbnail } from '../localStorage';
+import { deleteMaterial, getMaterials, saveMaterial } from '../materialStorage';
+import { deleteEnvironment, getEnvironments, saveEnvironment } from '../environmentStorage';
+import { deleteLightingRig, getLightingRigs, saveLightingRig } from '../lightingStorage';
+import { saveFileToStorage } from '../../utils/fileStorage';
+import { deleteFileByPath, resolveFileUrl } from './files';
+import type { CacheRepository, StorageBackend } from './types';
+
+// 缓存键前缀
+const CACHE_PREFIX = 'huitong3d_img_cache_';
+
+/**
+ * 创建基于 localStorage 的缓存
+ * @returns 缓存仓库
+ */
+export const createLocalStorageCache = (): CacheRepository => ({
+  get: async (key) => localStorage.getItem(`${CACHE_PREFIX}${key}`),
+  set: async (key, value) => localStorage.setItem(`${CACHE_PREFIX}${key}`, value),
+  remove: async (key) => localStorage.removeItem(`${CACHE_PREFIX}${key}`),
+  clear: async () => {
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(CACHE_PREFIX)) {
+        keysToRemove.push(key);
+      }
+    }
+    keysToRemove.forEach(key => localStorage.removeItem(key));
+  }
+});
+
+/**
+ * 创建 localStorage 存储后端
+ * @returns 存储后端
+ */
+export const createLocalStorageBackend = (): StorageBackend => ({
+  type: 'local',
+  label: '本地存储 (localStorage)',
+  models: {
+    list: async () => getModels(),
+    get: async (modelId) => getModels().find(model => model.id === modelId) || null,
+    save: async (model) => saveModel(model),
+    delete: async (modelId) => deleteModel(modelId),
+    updateThumbnail: async (modelId, thumbnailUrl) => updateModelThumbnail(modelId, thumbnailUrl)
+  },
+  materials: {
+    list: async () => getMaterials(),
+    get: async (materialId) => getMaterials().find(material => material.id === materialId) || null,
+    save: async (material) => saveMaterial(material),
+    delete: async (materialId) => deleteMaterial(materialId)
+  },
+  environments: {
+    list: async () => getEnvironments(),
+    get: async (environmentId) => getEnvironments().find(environment => environment.id === environmentId) || null,
+    save: async (environment) => saveEnvironment(environment),
+    delete: async (environmentId) => deleteEnvironment(environmentId)
+  },
+  lightingRigs: {
+    list: async () => getLightingRigs(),
+    get: async (rigId) => getLightingRigs().find(rig => rig.id === rigId) || null,
+    save: async (rig) => saveLightingRig(rig),
+    delete: async (rigId) => deleteLightingRig(rigId)
+  },
+  files: {
+    save: (file, fileName) => saveFileToStorage(file, fileName),
+    getUrl: resolveFileUrl,
+    delete: deleteFileByPath
+  },
+  cache: createLocalStorageCache()
+});
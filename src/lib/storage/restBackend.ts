@@ -0,0 +1,137 @@
+/**
+ * REST 存储后端
+ * 模型、材质、环境贴图、灯光方案记录和文件都保存在本地后端服务器（server/index.js），多个浏览器可以共享数据
+ */
+
+import type { Model } from '../localStorage';
+import { deleteMaterialMapFiles, type Material } from '../materialStorage';
+import type { EnvironmentMap } from '../environmentStorage';
+import type { LightingRig } from '../lightingStorage';
+import { deleteFileByPath, getServerBaseUrl, resolveFileUrl } from './files';
+import { createLocalStorageCache } from './localStorageBackend';
+import type { StorageBackend } from './types';
+
+/**
+ * 请求服务器接口
+ * @param path 接口路径
+ * @param init 请求配置
+ * @returns 响应数据
+ */
+const requestApi = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${getServerBaseUrl()}/api${path}`, init);
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `服务器响应错误: ${response.status}`);
+  }
+  return result as T;
+};
+
+/**
+ * 创建服务器记录仓库
+ * @param collection 记录集合名称
+ * @returns 记录仓库
+ */
+const createRecordCollection = <T extends { id: string }>(collection: string) => ({
+  list: async (): Promise<T[]> => {
+    const { records } = await requestApi<{ records: T[] }>(`/records/${collection}`);
+    return records;
+  },
+  get: async (id: string): Promise<T | null> => {
+    try {
+      const { record } = await requestApi<{ record: T }>(`/records/${collection}/${encodeURIComponent(id)}`);
+      return record;
+    } catch {
+      return null;
+    }
+  },
+  save: async (record: T): Promise<void> => {
+    await requestApi(`/records/${collection}/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(record)
+    });
+  },
+  delete: async (id: string): Promise<boolean> => {
+    try {
+      await requestApi(`/records/${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+});
+
+/**
+ * 创建 REST 存储后端
+ * @returns 存储后端
+ */
+export const createRestBackend = (): StorageBackend => {
+  const models = createRecordCollection<Model>('models');
+  const materials = createRecordCollection<Material>('materials');
+  const environments = createRecordCollection<EnvironmentMap>('environments');
+
+  return {
+    type: 'rest',
+    label: '本地后端服务器 (REST)',
+    models: {
+      ...models,
+      delete: async (modelId) => {
+        const model = await models.get(modelId);
+        if (!model || !(await models.delete(modelId))) return false;
+
+        // 删除模型文件
+        deleteFileByPath(model.file_path).catch(error => {
+          console.error('删除模型文件失败:', error);
+        });
+        return true;
+      },
+      updateThumbnail: async (modelId, thumbnailUrl) => {
+        const model = await models.get(modelId);
+        if (!model) return false;
+        await models.save({ ...model, thumbnail_url: thumbnailUrl, updated_at: new Date().toISOString() });
+        return true;
+      }
+    },
+    materials: {
+      ...materials,
+      delete: async (materialId) => {
+        const material = await materials.get(materialId);
+        if (!material || !(await materials.delete(materialId))) return false;
+
+        // 删除材质贴图文件
+        deleteMaterialMapFiles(material.maps);
+        return true;
+      }
+    },
+    environments: {
+      ...environments,
+      delete: async (environmentId) => {
+        const environment = await environments.get(environmentId);
+        if (!environment || !(await environments.delete(environmentId))) return false;
+
+        // 删除环境贴图文件
+        deleteFileByPath(environment.file_path).catch(error => {
+          console.error('删除环境贴图文件失败:', error);
+        });
+        return true;
+      }
+    },
+    lightingRigs: createRecordCollection<LightingRig>('lighting-rigs'),
+    files: {
+      save: async (file, fileName, bucket) => {
+        const formData = new FormData();
+        formData.append('file', file, fileName);
+        const { filePath } = await requestApi<{ filePath: string }>(`/${bucket}`, {
+          method: 'POST',
+          body: formData
+        });
+        return filePath;
+      },
+      getUrl: resolveFileUrl,
+      delete: deleteFileByPath
+    },
+    // 缩略图等缓存只与当前浏览器有关，保存在 localStorage
+    cache: createLocalStorageCache()
+  };
+};
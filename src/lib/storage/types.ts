@@ -0,0 +1,78 @@
+/**
+ * 存储后端类型定义
+ * 模型、材质、环境贴图、灯光方案、文件和缓存的异步仓库接口，由 localStorage、IndexedDB 和 REST 后端分别实现
+ */
+
+import type { Model } from '../localStorage';
+import type { Material } from '../materialStorage';
+import type { EnvironmentMap } from '../environmentStorage';
+import type { LightingRig } from '../lightingStorage';
+
+// 可选的存储后端
+export type StorageBackendType = 'local' | 'indexeddb' | 'rest';
+
+// 文件存储桶名称，与 src/config/storageBuckets.json 对应
+export type FileBucketName = 'models' | 'thumbnails' | 'materials' | 'environments';
+
+// 模型仓库
+export type ModelRepository = {
+  list: () => Promise<Model[]>;
+  get: (modelId: string) => Promise<Model | null>;
+  save: (model: Model) => Promise<void>;
+  // 删除模型记录，同时删除其模型文件
+  delete: (modelId: string) => Promise<boolean>;
+  updateThumbnail: (modelId: string, thumbnailUrl: string) => Promise<boolean>;
+};
+
+// 材质仓库
+export type MaterialRepository = {
+  list: () => Promise<Material[]>;
+  get: (materialId: string) => Promise<Material | null>;
+  save: (material: Material) => Promise<void>;
+  delete: (materialId: string) => Promise<boolean>;
+};
+
+// 环境贴图仓库（管理员上传的环境贴图，不含内置环境贴图）
+export type EnvironmentRepository = {
+  list: () => Promise<EnvironmentMap[]>;
+  get: (environmentId: string) => Promise<EnvironmentMap | null>;
+  save: (environment: EnvironmentMap) => Promise<void>;
+  // 删除环境贴图记录，同时删除其文件
+  delete: (environmentId: string) => Promise<boolean>;
+};
+
+// 灯光方案仓库（管理员创建的灯光方案，不含内置方案）
+export type LightingRigRepository = {
+  list: () => Promise<LightingRig[]>;
+  get: (rigId: string) => Promise<LightingRig | null>;
+  save: (rig: LightingRig) => Promise<void>;
+  delete: (rigId: string) => Promise<boolean>;
+};
+
+// 文件仓库，保存后返回写入记录的文件路径
+export type FileRepository = {
+  save: (file: Blob, fileName: string, bucket: FileBucketName) => Promise<string>;
+  // 将记录中的文件路径解析为可加载的URL，文件不存在时返回null
+  getUrl: (filePath: string) => Promise<string | null>;
+  delete: (filePath: string) => Promise<void>;
+};
+
+// 键值缓存（例如缩略图缓存）
+export type CacheRepository = {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+// 存储后端
+export type StorageBackend = {
+  type: StorageBackendType;
+  label: string;  // 在管理后台显示的名称
+  models: ModelRepository;
+  materials: MaterialRepository;
+  environments: EnvironmentRepository;
+  lightingRigs: LightingRigRepository;
+  files: FileRepository;
+  cache: CacheRepository;
+};
@@ -0,0 +1,38 @@
+/**
+ * 模型上传校验策略
+ * 由管理员设置，决定用户上传的模型在校验出错误或警告时是否被阻止
+ */
+
+import { type UploadValidationPolicy } from '../utils/modelValidation';
+
+// 存储键名
+const UPLOAD_POLICY_KEY = 'huitong3d_upload_policy';
+
+// 默认策略：出现错误时阻止上传
+const DEFAULT_UPLOAD_POLICY: UploadValidationPolicy = 'block-errors';
+
+// 可选的策略及说明
+export const UPLOAD_POLICY_OPTIONS: { value: UploadValidationPolicy; label: string }[] = [
+  { value: 'block-errors', label: '有错误时阻止' },
+  { value: 'block-warnings', label: '有错误或警告时阻止' },
+  { value: 'allow-all', label: '不阻止（仅提示）' }
+];
+
+/**
+ * 获取上传校验策略
+ * @returns 上传校验策略
+ */
+export const getUploadValidationPolicy = (): UploadValidationPolicy => {
+  const policy = localStorage.getItem(UPLOAD_POLICY_KEY);
+  return UPLOAD_POLICY_OPTIONS.some(option => option.value === policy)
+    ? policy as UploadValidationPolicy
+    : DEFAULT_UPLOAD_POLICY;
+};
+
+/**
+ * 保存上传校验策略
+ * @param policy 上传校验策略
+ */
+export const saveUploadValidationPolicy = (policy: UploadValidationPolicy): void => {
+  localStorage.setItem(UPLOAD_POLICY_KEY, policy);
+};
@@ -1,6 +1,5 @@
 import { useState, useEffect } from "react";
-import { getModels } from "../../lib/localStorage";
-import { getMaterials } from "../../lib/materialStorage";
+import { storage } from "../../lib/storage";
 import { Card, CardContent } from "../../components/ui/card";
 
 export const AdminDashboard = (): JSX.Element => {
@@ -9,11 +8,21 @@ export const AdminDashboard = (): JSX.Element => {
   
   useEffect(() => {
     // 获取模型和材质数量
-    const models = getModels();
-    const materials = getMaterials();
+    const fetchCounts = async () => {
+      try {
+        const [models, materials] = await Promise.all([
+          storage.models.list(),
+          storage.materials.list()
+        ]);
+        
+        setModelCount(models.length);
+        setMaterialCount(materials.length);
+      } catch (error) {
+        console.error('获取模型和材质数量失败:', error);
+      }
+    };
     
-    setModelCount(models.length);
-    setMaterialCount(materials.length);
+    fetchCounts();
   }, []);
   
   return (
@@ -45,7 +54,7 @@ export const AdminDashboard = (): JSX.Element => {
           </li>
           <li className="flex justify-between">
             <span>数据存储</span>
-            <span>本地存储 (localStorage)</span>
+            <span>{storage.label}</span>
           </li>
           <li className="flex justify-between">
             <span>最近更新</span>
@@ -59,6 +68,8 @@ export const AdminDashboard = (): JSX.Element => {
         <ul className="list-disc list-inside space-y-1 text-gray-600">
           <li>在 <strong className="text-gray-800">模型管理</strong> 页面可以上传、删除和查看3D模型</li>
           <li>在 <strong className="text-gray-800">材质管理</strong> 页面可以创建、编辑和删除自定义材质</li>
+          <li>在 <strong className="text-gray-800">环境贴图</strong> 页面可以上传和删除 HDR/EXR 环境贴图</li>
+          <li>在 <strong className="text-gray-800">灯光方案</strong> 页面可以复制内置灯光方案，调整灯光位置、强度、色温和阴影柔和度</li>
         </ul>
       </div>
     </div>
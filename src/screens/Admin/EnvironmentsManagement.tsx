@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from "react";
+import { toast } from '../../components/ui/toast';
+import {
+  BUILT_IN_ENVIRONMENTS,
+  getEnvironmentFormat,
+  type EnvironmentMap
+} from "../../lib/environmentStorage";
+import { storage } from "../../lib/storage";
+import { Button } from "../../components/ui/button";
+import { TrashIcon, UploadIcon } from "lucide-react";
+import { getBucket, isFileSizeAllowed } from "../../utils/fileStorage";
+
+// 可上传的环境贴图文件
+const ENVIRONMENT_UPLOAD_ACCEPT = '.hdr,.exr';
+
+export const EnvironmentsManagement = (): JSX.Element => {
+  const [environments, setEnvironments] = useState<EnvironmentMap[]>([]);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 初始化时获取环境贴图列表
+  useEffect(() => {
+    fetchEnvironments();
+  }, []);
+
+  // 获取管理员上传的环境贴图
+  const fetchEnvironments = async () => {
+    try {
+      setEnvironments(await storage.environments.list());
+    } catch (error) {
+      console.error('获取环境贴图列表失败:', error);
+      toast.error('获取环境贴图列表失败');
+    }
+  };
+
+  // 上传 HDR/EXR 环境贴图，文件名（不含扩展名）作为环境名称
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const format = getEnvironmentFormat(file.name);
+    if (!format) {
+      toast.error('请上传 .hdr 或 .exr 格式的环境贴图');
+      return;
+    }
+
+    const sizeLimitMB = (getBucket('environments')?.fileSizeLimit || 0) / 1024 / 1024;
+    if (sizeLimitMB && !isFileSizeAllowed(file, sizeLimitMB)) {
+      toast.error(`环境贴图大小超过限制（最大${sizeLimitMB}MB）`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const filePath = await storage.files.save(file, file.name, 'environments');
+      const currentTime = new Date().toISOString();
+      await storage.environments.save({
+        id: `environment-${Date.now()}`,
+        name: file.name.replace(/\.(hdr|exr)$/i, ''),
+        file_path: filePath,
+        format,
+        created_at: currentTime,
+        updated_at: currentTime
+      });
+      toast.success('环境贴图上传成功!');
+      fetchEnvironments();
+    } catch (error) {
+      console.error('上传环境贴图失败:', error);
+      toast.error(`上传环境贴图失败: ${error instanceof Error ? error.message : '请重试'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 删除环境贴图
+  const handleDeleteEnvironment = async (environmentId: string) => {
+    if (window.confirm('确定要删除此环境贴图吗？正在使用它的用户将切换到默认环境。')) {
+      try {
+        await storage.environments.delete(environmentId);
+      } catch (error) {
+        console.error('删除环境贴图失败:', error);
+        toast.error('删除环境贴图失败，请重试');
+      }
+      fetchEnvironments();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">环境贴图</h2>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">
+          上传的 HDR/EXR 环境贴图会显示在前台的环境设置中，供查看器、材质预览和导出图片使用
+        </p>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileUpload}
+          className="hidden"
+          accept={ENVIRONMENT_UPLOAD_ACCEPT}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+          disabled={loading}
+        >
+          <UploadIcon className="h-4 w-4 mr-2" />
+          {loading ? '上传中...' : '上传环境贴图'}
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                名称
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                格式
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                来源
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                上传时间
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                操作
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {[...BUILT_IN_ENVIRONMENTS, ...environments].map((environment) => {
+              const builtIn = BUILT_IN_ENVIRONMENTS.includes(environment);
+              return (
+                <tr key={environment.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{environment.name}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 uppercase">{environment.format}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-500">{builtIn ? '内置' : '上传'}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-500">
+                      {environment.created_at ? new Date(environment.created_at).toLocaleString() : '-'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {!builtIn && (
+                      <button
+                        onClick={() => handleDeleteEnvironment(environment.id)}
+                        className="text-red-600 hover:text-red-900"
+                        title="删除"
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
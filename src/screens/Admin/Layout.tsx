@@ -84,6 +84,34 @@ export const AdminLayout = (): JSX.Element => {
                     材质管理
                   </NavLink>
                 </li>
+                <li>
+                  <NavLink 
+                    to="/admin/environments" 
+                    className={({ isActive }) => 
+                      `block px-4 py-2 rounded-md ${
+                        isActive 
+                          ? 'bg-blue-50 text-blue-600 font-medium' 
+                          : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                      }`
+                    }
+                  >
+                    环境贴图
+                  </NavLink>
+                </li>
+                <li>
+                  <NavLink 
+                    to="/admin/lighting" 
+                    className={({ isActive }) => 
+                      `block px-4 py-2 rounded-md ${
+                        isActive 
+                          ? 'bg-blue-50 text-blue-600 font-medium' 
+                          : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                      }`
+                    }
+                  >
+                    灯光方案
+                  </NavLink>
+                </li>
                 <li>
                   <NavLink 
                     to="/"
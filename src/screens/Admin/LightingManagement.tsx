@@ -0,0 +1,436 @@
+import { useState, useEffect } from "react";
+import { toast } from '../../components/ui/toast';
+import {
+  BUILT_IN_LIGHTING_RIGS,
+  createRigLight,
+  MAX_COLOR_TEMPERATURE,
+  MIN_COLOR_TEMPERATURE,
+  RIG_LIGHT_TYPES,
+  type LightingRig,
+  type RigLight,
+  type RigLightType
+} from "../../lib/lightingStorage";
+import { storage } from "../../lib/storage";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Card, CardContent } from "../../components/ui/card";
+import { CopyIcon, EditIcon, PlusIcon, SaveIcon, TrashIcon, XIcon } from "lucide-react";
+import LightingRigPreview from "../../components/LightingRigPreview";
+import { colorTemperatureToColor } from "../../utils/lightingRig";
+
+// 坐标轴名称
+const AXES = ['X', 'Y', 'Z'];
+
+// 表单中输入框和下拉框的样式
+const FIELD_CLASS_NAME = 'h-8 px-2 rounded-md border border-gray-200 bg-white text-gray-800 text-sm';
+
+export const LightingManagement = (): JSX.Element => {
+  const [rigs, setRigs] = useState<LightingRig[]>([]);
+  // 正在编辑的灯光方案，新建和复制的方案尚未保存
+  const [editingRig, setEditingRig] = useState<LightingRig | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // 初始化时获取灯光方案列表
+  useEffect(() => {
+    fetchRigs();
+  }, []);
+
+  // 获取管理员创建的灯光方案
+  const fetchRigs = async () => {
+    try {
+      setRigs(await storage.lightingRigs.list());
+    } catch (error) {
+      console.error('获取灯光方案列表失败:', error);
+      toast.error('获取灯光方案列表失败');
+    }
+  };
+
+  // 以已有方案为模板新建方案
+  const startCreating = (template: LightingRig) => {
+    setEditingRig({
+      ...template,
+      id: `lighting-${Date.now()}`,
+      name: `${template.name} 副本`,
+      lights: template.lights.map(light => ({ ...light, position: [...light.position] as [number, number, number] })),
+      created_at: null,
+      updated_at: null
+    });
+    setIsCreating(true);
+  };
+
+  // 开始编辑方案
+  const startEditing = (rig: LightingRig) => {
+    setEditingRig(rig);
+    setIsCreating(false);
+  };
+
+  // 取消编辑/创建
+  const cancelEdit = () => {
+    setEditingRig(null);
+    setIsCreating(false);
+  };
+
+  // 更新正在编辑的方案
+  const updateRig = (changes: Partial<LightingRig>) => {
+    setEditingRig(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  // 更新方案中的单个灯光
+  const updateLight = (lightId: string, changes: Partial<RigLight>) => {
+    setEditingRig(prev => prev ? {
+      ...prev,
+      lights: prev.lights.map(light => light.id === lightId ? { ...light, ...changes } : light)
+    } : prev);
+  };
+
+  // 更新灯光位置的一个坐标
+  const updateLightPosition = (light: RigLight, axis: number, value: number) => {
+    const position = [...light.position] as [number, number, number];
+    position[axis] = Number.isFinite(value) ? value : 0;
+    updateLight(light.id, { position });
+  };
+
+  // 添加灯光，默认放在模型右前上方
+  const addLight = () => {
+    if (!editingRig) return;
+    updateRig({
+      lights: [
+        ...editingRig.lights,
+        createRigLight(`light-${Date.now()}`, `灯光 ${editingRig.lights.length + 1}`, 'directional', [4, 5, 4])
+      ]
+    });
+  };
+
+  // 删除灯光
+  const removeLight = (lightId: string) => {
+    if (!editingRig) return;
+    updateRig({ lights: editingRig.lights.filter(light => light.id !== lightId) });
+  };
+
+  // 保存方案
+  const saveRig = async () => {
+    if (!editingRig) return;
+    if (!editingRig.name.trim()) {
+      toast.error('请输入方案名称');
+      return;
+    }
+
+    const currentTime = new Date().toISOString();
+    try {
+      await storage.lightingRigs.save({
+        ...editingRig,
+        name: editingRig.name.trim(),
+        created_at: editingRig.created_at || currentTime,
+        updated_at: currentTime
+      });
+      toast.success(isCreating ? '灯光方案创建成功!' : '灯光方案更新成功!');
+    } catch (error) {
+      console.error('保存灯光方案失败:', error);
+      toast.error('保存灯光方案失败，请重试');
+      return;
+    }
+
+    cancelEdit();
+    fetchRigs();
+  };
+
+  // 删除方案
+  const handleDeleteRig = async (rigId: string) => {
+    if (window.confirm('确定要删除此灯光方案吗？正在使用它的用户将切换到默认方案。')) {
+      try {
+        await storage.lightingRigs.delete(rigId);
+      } catch (error) {
+        console.error('删除灯光方案失败:', error);
+        toast.error('删除灯光方案失败，请重试');
+      }
+      fetchRigs();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">灯光方案</h2>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">
+          前台查看器、导出图片和转台动画使用用户选择的灯光方案，内置方案不能修改，可以复制后编辑
+        </p>
+        <Button
+          onClick={() => startCreating(BUILT_IN_LIGHTING_RIGS[0])}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+          disabled={!!editingRig}
+        >
+          <PlusIcon className="h-4 w-4 mr-2" />
+          新建方案
+        </Button>
+      </div>
+
+      {/* 编辑/创建表单 */}
+      {editingRig && (
+        <Card className="bg-white border-gray-200 shadow-sm mb-6">
+          <CardContent className="p-4">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-800">
+                {isCreating ? '新建灯光方案' : '编辑灯光方案'}
+              </h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={cancelEdit}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-3">
+                {/* 名称 */}
+                <div className="space-y-1">
+                  <label className="text-sm font-medium text-gray-700">名称</label>
+                  <Input
+                    value={editingRig.name}
+                    onChange={(e) => updateRig({ name: e.target.value })}
+                    placeholder="输入方案名称"
+                    className="border-gray-200"
+                  />
+                </div>
+
+                {/* 环境光 */}
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">环境光强度</label>
+                    <span className="text-sm text-gray-500">{editingRig.ambientIntensity}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={editingRig.ambientIntensity}
+                    onChange={(e) => updateRig({ ambientIntensity: parseFloat(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                {/* 灯光列表 */}
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-gray-700">灯光</label>
+                    <Button variant="outline" size="sm" onClick={addLight} className="border-gray-300 text-gray-600">
+                      <PlusIcon className="h-4 w-4 mr-1" />
+                      添加灯光
+                    </Button>
+                  </div>
+
+                  {editingRig.lights.length === 0 && (
+                    <p className="text-sm text-gray-500">没有灯光，模型只由环境光和环境贴图照亮</p>
+                  )}
+
+                  {editingRig.lights.map(light => (
+                    <div key={light.id} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="w-4 h-4 rounded-full border border-gray-300 flex-shrink-0"
+                          style={{ backgroundColor: colorTemperatureToColor(light.colorTemperature).getStyle() }}
+                          title={`${light.colorTemperature}K`}
+                        />
+                        <Input
+                          value={light.name}
+                          onChange={(e) => updateLight(light.id, { name: e.target.value })}
+                          className="h-8 border-gray-200"
+                        />
+                        <select
+                          value={light.type}
+                          onChange={(e) => updateLight(light.id, { type: e.target.value as RigLightType })}
+                          className={`${FIELD_CLASS_NAME} w-28 flex-shrink-0`}
+                        >
+                          {(Object.keys(RIG_LIGHT_TYPES) as RigLightType[]).map(type => (
+                            <option key={type} value={type}>{RIG_LIGHT_TYPES[type]}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => removeLight(light.id)}
+                          className="text-red-600 hover:text-red-900 flex-shrink-0"
+                          title="删除灯光"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-2">
+                        {AXES.map((axis, index) => (
+                          <label key={axis} className="flex items-center gap-1 text-sm text-gray-600">
+                            {axis}
+                            <input
+                              type="number"
+                              step={0.5}
+                              value={light.position[index]}
+                              onChange={(e) => updateLightPosition(light, index, parseFloat(e.target.value))}
+                              className={`${FIELD_CLASS_NAME} w-full`}
+                            />
+                          </label>
+                        ))}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600">
+                        <label className="flex flex-col">
+                          <span className="flex justify-between">强度<span className="text-gray-500">{light.intensity}</span></span>
+                          <input
+                            type="range"
+                            min={0}
+                            max={5}
+                            step={0.05}
+                            value={light.intensity}
+                            onChange={(e) => updateLight(light.id, { intensity: parseFloat(e.target.value) })}
+                          />
+                        </label>
+                        <label className="flex flex-col">
+                          <span className="flex justify-between">色温<span className="text-gray-500">{light.colorTemperature}K</span></span>
+                          <input
+                            type="range"
+                            min={MIN_COLOR_TEMPERATURE}
+                            max={MAX_COLOR_TEMPERATURE}
+                            step={100}
+                            value={light.colorTemperature}
+                            onChange={(e) => updateLight(light.id, { colorTemperature: parseFloat(e.target.value) })}
+                          />
+                        </label>
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={light.castShadow}
+                            onChange={(e) => updateLight(light.id, { castShadow: e.target.checked })}
+                          />
+                          投射阴影
+                        </label>
+                        <label className="flex flex-col">
+                          <span className="flex justify-between">阴影柔和度<span className="text-gray-500">{light.shadowSoftness}</span></span>
+                          <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={light.shadowSoftness}
+                            disabled={!light.castShadow && light.type !== 'spot'}
+                            onChange={(e) => updateLight(light.id, { shadowSoftness: parseFloat(e.target.value) })}
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {/* 预览 */}
+                <div className="bg-gray-50 rounded-lg p-4 flex flex-col items-center border border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-600 mb-3">灯光预览</h4>
+                  <LightingRigPreview rig={editingRig} className="w-full h-80" />
+                  <p className="mt-2 text-xs text-gray-500">
+                    灯光位置使用查看器中的模型坐标，模型最长边为 2 个单位并位于原点，灯光始终朝向原点
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button
+                variant="outline"
+                onClick={cancelEdit}
+                className="border-gray-300 text-gray-700"
+              >
+                取消
+              </Button>
+              <Button
+                onClick={saveRig}
+                className="bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                <SaveIcon className="h-4 w-4 mr-2" />
+                保存方案
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!editingRig && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  名称
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  灯光
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  来源
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  更新时间
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...BUILT_IN_LIGHTING_RIGS, ...rigs].map((rig) => {
+                const builtIn = BUILT_IN_LIGHTING_RIGS.includes(rig);
+                return (
+                  <tr key={rig.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{rig.name}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-500 max-w-xs truncate" title={rig.lights.map(light => light.name).join('、')}>
+                        {rig.lights.length > 0 ? rig.lights.map(light => light.name).join('、') : '-'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{builtIn ? '内置' : '自定义'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">
+                        {rig.updated_at ? new Date(rig.updated_at).toLocaleString() : '-'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => startCreating(rig)}
+                        className="text-blue-600 hover:text-blue-900 mr-4"
+                        title="复制"
+                      >
+                        <CopyIcon className="h-5 w-5" />
+                      </button>
+                      {!builtIn && (
+                        <>
+                          <button
+                            onClick={() => startEditing(rig)}
+                            className="text-blue-600 hover:text-blue-900 mr-4"
+                            title="编辑"
+                          >
+                            <EditIcon className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteRig(rig.id)}
+                            className="text-red-600 hover:text-red-900"
+                            title="删除"
+                          >
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
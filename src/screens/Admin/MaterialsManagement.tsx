@@ -1,11 +1,29 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { toast } from '../../components/ui/toast';
-import { getMaterials, saveMaterial, deleteMaterial, Material } from "../../lib/materialStorage";
+import {
+  Material,
+  PHYSICAL_MATERIAL_FIELDS,
+  type MaterialAppearance,
+  type MaterialTextureMaps,
+  type PhysicalMaterialKey
+} from "../../lib/materialStorage";
+import { storage } from "../../lib/storage";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
 import { Card, CardContent } from "../../components/ui/card";
 import { PlusIcon, TrashIcon, SearchIcon, EditIcon, SaveIcon, XIcon } from "lucide-react";
 import { MaterialThumbnail } from "../../components/MaterialThumbnail";
+import { getBucket, isFileSizeAllowed, isFileTypeAllowed } from "../../utils/fileStorage";
+
+// 可上传的贴图类型
+const TEXTURE_MAP_FIELDS: Array<{ key: keyof MaterialTextureMaps; label: string }> = [
+  { key: 'baseColor', label: '基础颜色贴图' },
+  { key: 'normal', label: '法线贴图' },
+  { key: 'roughness', label: '粗糙度贴图' },
+  { key: 'metalness', label: '金属度贴图' },
+  { key: 'ao', label: '环境光遮蔽贴图' },
+  { key: 'height', label: '高度贴图' },
+];
 
 export const MaterialsManagement = (): JSX.Element => {
   const [materials, setMaterials] = useState<Material[]>([]);
@@ -21,6 +39,42 @@ export const MaterialsManagement = (): JSX.Element => {
   const [formColor, setFormColor] = useState("#FFFFFF");
   const [formRoughness, setFormRoughness] = useState(0.5);
   const [formMetallic, setFormMetallic] = useState(0);
+  const [formMaps, setFormMaps] = useState<MaterialTextureMaps>({});
+  const [formUvScale, setFormUvScale] = useState(1);
+  const [formUvRotation, setFormUvRotation] = useState(0);
+  const [formPhysical, setFormPhysical] = useState<Partial<Record<PhysicalMaterialKey, number>>>({});
+  // 贴图预览URL，由贴图文件路径解析得到
+  const [formMapUrls, setFormMapUrls] = useState<MaterialTextureMaps>({});
+  // 本次编辑中上传的贴图文件，取消或被替换时删除
+  const [uploadedMapFiles, setUploadedMapFiles] = useState<string[]>([]);
+  
+  // 表单对应的材质外观，用于预览
+  const formAppearance = useMemo<MaterialAppearance>(() => ({
+    color: formColor,
+    roughness: formRoughness,
+    metallic: formMetallic,
+    maps: formMaps,
+    uvScale: formUvScale,
+    uvRotation: formUvRotation,
+    ...formPhysical
+  }), [formColor, formRoughness, formMetallic, formMaps, formUvScale, formUvRotation, formPhysical]);
+  
+  // 解析贴图预览URL
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(TEXTURE_MAP_FIELDS.map(async ({ key }) => {
+      const filePath = formMaps[key];
+      return [key, filePath ? await storage.files.getUrl(filePath) : null] as const;
+    }))
+      .then(entries => {
+        if (cancelled) return;
+        setFormMapUrls(Object.fromEntries(entries.filter(([, url]) => url)));
+      })
+      .catch(error => console.error('获取贴图预览失败:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [formMaps]);
   
   // 初始化时获取材质列表
   useEffect(() => {
@@ -28,9 +82,14 @@ export const MaterialsManagement = (): JSX.Element => {
   }, []);
   
   // 获取材质列表
-  const fetchMaterials = () => {
-    const materialsList = getMaterials();
-    setMaterials(materialsList);
+  const fetchMaterials = async () => {
+    try {
+      const materialsList = await storage.materials.list();
+      setMaterials(materialsList);
+    } catch (error) {
+      console.error('获取材质列表失败:', error);
+      toast.error('获取材质列表失败');
+    }
   };
   
   // 过滤材质列表
@@ -46,6 +105,11 @@ export const MaterialsManagement = (): JSX.Element => {
     setFormColor("#FFFFFF");
     setFormRoughness(0.5);
     setFormMetallic(0);
+    setFormMaps({});
+    setFormUvScale(1);
+    setFormUvRotation(0);
+    setFormPhysical({});
+    setUploadedMapFiles([]);
     setIsCreating(true);
     setEditingMaterial(null);
   };
@@ -57,65 +121,163 @@ export const MaterialsManagement = (): JSX.Element => {
     setFormColor(material.color);
     setFormRoughness(material.roughness);
     setFormMetallic(material.metallic);
+    setFormMaps(material.maps || {});
+    setFormUvScale(material.uvScale ?? 1);
+    setFormUvRotation(material.uvRotation ?? 0);
+    setFormPhysical(Object.fromEntries(
+      PHYSICAL_MATERIAL_FIELDS.map(({ key, defaultValue }) => [key, material[key] ?? defaultValue])
+    ));
+    setUploadedMapFiles([]);
     setEditingMaterial(material);
     setIsCreating(false);
   };
   
-  // 取消编辑/创建
-  const cancelEdit = () => {
+  // 上传贴图
+  const handleTextureUpload = async (key: keyof MaterialTextureMaps, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    const bucket = getBucket('materials');
+    if (!file.type.startsWith('image/') || (bucket && !isFileTypeAllowed(file, bucket.allowedMimeTypes))) {
+      toast.error('请上传 PNG 或 JPEG 格式的贴图');
+      return;
+    }
+    
+    const sizeLimitMB = (bucket?.fileSizeLimit || 0) / 1024 / 1024;
+    if (sizeLimitMB && !isFileSizeAllowed(file, sizeLimitMB)) {
+      toast.error(`贴图大小超过限制（最大${sizeLimitMB}MB）`);
+      return;
+    }
+    
+    try {
+      const filePath = await storage.files.save(file, file.name, 'materials');
+      setUploadedMapFiles(prev => [...prev, filePath]);
+      setFormMaps(prev => ({ ...prev, [key]: filePath }));
+    } catch (error) {
+      console.error('上传贴图失败:', error);
+      toast.error(`上传贴图失败: ${error instanceof Error ? error.message : '请重试'}`);
+    }
+  };
+  
+  // 移除贴图
+  const removeTexture = (key: keyof MaterialTextureMaps) => {
+    setFormMaps(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+  
+  /**
+   * 删除不再被材质引用的贴图文件
+   * @param candidates 可能需要删除的贴图文件
+   * @param keptMaps 材质记录中保留的贴图
+   */
+  const deleteUnusedMapFiles = (candidates: string[], keptMaps: MaterialTextureMaps | undefined) => {
+    const kept = new Set(Object.values(keptMaps || {}));
+    new Set(candidates.filter(filePath => !kept.has(filePath))).forEach(filePath => {
+      storage.files.delete(filePath).catch(error => {
+        console.error('删除贴图文件失败:', error);
+      });
+    });
+  };
+  
+  // 关闭编辑/创建表单
+  const closeForm = () => {
+    setUploadedMapFiles([]);
     setIsCreating(false);
     setEditingMaterial(null);
   };
   
+  // 取消编辑/创建
+  const cancelEdit = () => {
+    // 删除本次上传但未保存的贴图
+    deleteUnusedMapFiles(uploadedMapFiles, editingMaterial?.maps);
+    closeForm();
+  };
+  
   // 保存材质
-  const saveMaterialData = () => {
+  const saveMaterialData = async () => {
     if (!formName.trim()) {
       toast.error('请输入材质名称');
       return;
     }
     
     const currentTime = new Date().toISOString();
+    const hasMaps = Object.values(formMaps).some(Boolean);
+    const textureFields = {
+      maps: hasMaps ? formMaps : undefined,
+      uvScale: hasMaps ? formUvScale : undefined,
+      uvRotation: hasMaps ? formUvRotation : undefined
+    };
+    // 只保存与默认值不同的物理材质参数
+    const physicalFields = Object.fromEntries(
+      PHYSICAL_MATERIAL_FIELDS.map(({ key, defaultValue }) => {
+        const value = formPhysical[key];
+        return [key, value !== undefined && value !== defaultValue ? value : undefined];
+      })
+    );
     
-    if (isCreating) {
-      // 创建新材质
-      const newMaterial: Material = {
-        id: `material-${Date.now()}`,
-        name: formName.trim(),
-        description: formDescription.trim() || null,
-        color: formColor,
-        roughness: formRoughness,
-        metallic: formMetallic,
-        created_at: currentTime,
-        updated_at: currentTime
-      };
+    try {
+      if (isCreating) {
+        // 创建新材质
+        const newMaterial: Material = {
+          id: `material-${Date.now()}`,
+          name: formName.trim(),
+          description: formDescription.trim() || null,
+          color: formColor,
+          roughness: formRoughness,
+          metallic: formMetallic,
+          ...textureFields,
+          ...physicalFields,
+          created_at: currentTime,
+          updated_at: currentTime
+        };
       
-      saveMaterial(newMaterial);
-      toast.success('材质创建成功!');
-    } else if (editingMaterial) {
-      // 更新现有材质
-      const updatedMaterial: Material = {
-        ...editingMaterial,
-        name: formName.trim(),
-        description: formDescription.trim() || null,
-        color: formColor,
-        roughness: formRoughness,
-        metallic: formMetallic,
-        updated_at: currentTime
-      };
+        await storage.materials.save(newMaterial);
+        toast.success('材质创建成功!');
+      } else if (editingMaterial) {
+        // 更新现有材质
+        const updatedMaterial: Material = {
+          ...editingMaterial,
+          name: formName.trim(),
+          description: formDescription.trim() || null,
+          color: formColor,
+          roughness: formRoughness,
+          metallic: formMetallic,
+          ...textureFields,
+          ...physicalFields,
+          updated_at: currentTime
+        };
       
-      saveMaterial(updatedMaterial);
-      toast.success('材质更新成功!');
+        await storage.materials.save(updatedMaterial);
+        toast.success('材质更新成功!');
+      }
+    } catch (error) {
+      console.error('保存材质失败:', error);
+      toast.error('保存材质失败，请重试');
+      return;
     }
     
-    // 重置状态并刷新列表
-    cancelEdit();
+    // 删除被替换或移除的贴图，重置状态并刷新列表
+    deleteUnusedMapFiles(
+      [...uploadedMapFiles, ...Object.values(editingMaterial?.maps || {})],
+      textureFields.maps
+    );
+    closeForm();
     fetchMaterials();
   };
   
   // 删除材质
-  const handleDeleteMaterial = (materialId: string) => {
+  const handleDeleteMaterial = async (materialId: string) => {
     if (window.confirm('确定要删除此材质吗？')) {
-      deleteMaterial(materialId);
+      try {
+        await storage.materials.delete(materialId);
+      } catch (error) {
+        console.error('删除材质失败:', error);
+        toast.error('删除材质失败，请重试');
+      }
       fetchMaterials();
     }
   };
@@ -213,9 +375,7 @@ export const MaterialsManagement = (): JSX.Element => {
                 <div className="bg-gray-50 rounded-lg p-4 flex flex-col items-center mb-2 border border-gray-200">
                   <h4 className="text-sm font-medium text-gray-600 mb-3">材质预览</h4>
                   <MaterialThumbnail 
-                    color={formColor}
-                    roughness={formRoughness}
-                    metallic={formMetallic}
+                    material={formAppearance}
                     size={120}
                     className="border border-gray-200 shadow-lg"
                   />
@@ -257,6 +417,107 @@ export const MaterialsManagement = (): JSX.Element => {
               </div>
             </div>
             
+            {/* 物理材质参数 */}
+            <div className="mt-4 space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">物理材质参数 (可选)</h4>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+                {PHYSICAL_MATERIAL_FIELDS.map(({ key, label, min, max, step, defaultValue }) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex justify-between">
+                      <label className="text-sm font-medium text-gray-700">{label}</label>
+                      <span className="text-sm text-gray-500">{(formPhysical[key] ?? defaultValue).toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={formPhysical[key] ?? defaultValue}
+                      onChange={(e) => setFormPhysical(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                      className="w-full accent-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            
+            {/* 贴图 */}
+            <div className="mt-4 space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">贴图 (可选)</h4>
+              <div className="grid grid-cols-3 gap-3">
+                {TEXTURE_MAP_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2 p-2 border border-gray-200 rounded-lg">
+                    <div className="w-12 h-12 bg-gray-100 rounded overflow-hidden flex items-center justify-center flex-shrink-0">
+                      {formMaps[key] ? (
+                        <img src={formMapUrls[key]} alt={label} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="text-gray-400 text-xs">无</div>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="text-sm text-gray-700 truncate">{label}</div>
+                      <div className="flex gap-2">
+                        <label className="text-xs text-blue-600 hover:text-blue-800 cursor-pointer">
+                          {formMaps[key] ? '替换' : '上传'}
+                          <input
+                            type="file"
+                            accept="image/*"
+                            className="hidden"
+                            onChange={(e) => handleTextureUpload(key, e)}
+                          />
+                        </label>
+                        {formMaps[key] && (
+                          <button
+                            type="button"
+                            onClick={() => removeTexture(key)}
+                            className="text-xs text-red-600 hover:text-red-800"
+                          >
+                            移除
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4">
+                {/* 平铺倍数 */}
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">贴图平铺</label>
+                    <span className="text-sm text-gray-500">{formUvScale.toFixed(1)}x</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="20"
+                    step="0.1"
+                    value={formUvScale}
+                    onChange={(e) => setFormUvScale(parseFloat(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+                
+                {/* 旋转角度 */}
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <label className="text-sm font-medium text-gray-700">贴图旋转</label>
+                    <span className="text-sm text-gray-500">{formUvRotation}°</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="360"
+                    step="1"
+                    value={formUvRotation}
+                    onChange={(e) => setFormUvRotation(parseFloat(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+              </div>
+            </div>
+            
             <div className="mt-4 flex justify-end">
               <Button 
                 onClick={saveMaterialData}
@@ -312,9 +573,7 @@ export const MaterialsManagement = (): JSX.Element => {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex justify-center">
                           <MaterialThumbnail 
-                            color={material.color}
-                            roughness={material.roughness}
-                            metallic={material.metallic}
+                            material={material}
                             size={40}
                             className="border border-gray-200 shadow-sm"
                           />
@@ -1,29 +1,46 @@
 import { useState, useEffect, useRef } from "react";
 import { toast } from '../../components/ui/toast';
-import { getModels, saveModel, deleteModel, Model } from "../../lib/localStorage";
+import { type Model } from "../../lib/localStorage";
+import { storage } from "../../lib/storage";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
 import { UploadIcon, TrashIcon, SearchIcon } from "lucide-react";
-import { validateModelFile, processModelFile, generateModelThumbnail } from "../../utils/modelProcessor";
+import { validateModelFile, processModelFile, generateModelThumbnail, checkFileSize } from "../../utils/modelProcessor";
+import { getModelFormat } from "../../utils/modelLoaders";
+import { MODEL_UPLOAD_ACCEPT, packModelBundle, readModelBundle } from "../../utils/modelBundle";
+import { extractModelMetadata, formatCount, formatFileSize } from "../../utils/modelMetadata";
+import { hasFatalIssues, needsValidationReview, type ModelValidationReport, type UploadValidationPolicy } from "../../utils/modelValidation";
+import { getUploadValidationPolicy, saveUploadValidationPolicy, UPLOAD_POLICY_OPTIONS } from "../../lib/uploadPolicy";
+import ValidationReportDialog from "../../components/ValidationReportDialog";
 
 export const ModelsManagement = (): JSX.Element => {
   const [models, setModels] = useState<Model[]>([]);
   const [search, setSearch] = useState("");
   const [loading, setLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 用户上传模型的校验策略
+  const [uploadPolicy, setUploadPolicy] = useState<UploadValidationPolicy>(getUploadValidationPolicy);
+  // 等待管理员确认的校验报告
+  const [validationReview, setValidationReview] = useState<{
+    report: ModelValidationReport;
+    blocked: boolean;
+    resolve: (accepted: boolean) => void;
+  } | null>(null);
   
   // 初始化时获取模型列表
   useEffect(() => {
-    console.log('ModelsManagement: useEffect triggered, calling fetchModels.');
     fetchModels();
   }, []);
   
   // 获取模型列表
-  const fetchModels = () => {
-    console.log('ModelsManagement: fetchModels called.');
-    const modelsList = getModels();
-    console.log('ModelsManagement: Models from localStorage:', modelsList);
-    setModels(modelsList);
+  const fetchModels = async () => {
+    try {
+      const modelsList = await storage.models.list();
+      setModels(modelsList);
+    } catch (error) {
+      console.error('获取模型列表失败:', error);
+      toast.error('获取模型列表失败');
+    }
   };
   
   // 过滤模型列表
@@ -32,75 +49,93 @@ export const ModelsManagement = (): JSX.Element => {
     (model.description && model.description.toLowerCase().includes(search.toLowerCase()))
   );
   
+  // 修改用户上传的校验策略
+  const handleUploadPolicyChange = (policy: UploadValidationPolicy) => {
+    setUploadPolicy(policy);
+    saveUploadValidationPolicy(policy);
+  };
+
+  // 显示校验报告，等待管理员接受或拒绝上传
+  const reviewValidationReport = (report: ModelValidationReport, blocked: boolean): Promise<boolean> => {
+    return new Promise((resolve) => setValidationReview({ report, blocked, resolve }));
+  };
+
+  // 关闭校验报告
+  const closeValidationReview = (accepted: boolean) => {
+    validationReview?.resolve(accepted);
+    setValidationReview(null);
+  };
+
   // 处理文件上传
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    const file = files[0];
-    const fileName = file.name;
-
     setLoading(true);
 
     try {
-      // 验证文件
-      const isValid = await validateModelFile(file);
-      if (!isValid) {
-        toast.error('请上传有效的3D模型文件（.glb, .gltf, .obj, .fbx）');
-        setLoading(false);
+      // 读取上传的模型文件，可以同时选择模型引用的资源文件或上传 ZIP 压缩包
+      const bundle = await readModelBundle(Array.from(files));
+      const fileName = bundle.entry.name;
+
+      // 检查文件大小，超过限制的文件不再校验和解析
+      if (!checkFileSize(bundle.entry, 50)) {
+        toast.error('文件大小超过限制（最大50MB）');
         return;
       }
 
+      // 校验文件，有错误或警告时由管理员决定是否接受，模型无法使用的错误不能接受
+      const report = await validateModelFile(bundle.entry, bundle.resources, bundle.entryPath);
+      if (needsValidationReview(report)) {
+        const accepted = await reviewValidationReport(report, hasFatalIssues(report));
+        if (!accepted) {
+          return;
+        }
+      }
+
       // 处理模型文件
-      const { processedFile, metadata } = await processModelFile(file);
+      const { processedFile, metadata } = await processModelFile(bundle.entry, bundle.resources, bundle.entryPath);
+
+      // 优化后的 GLB 已内嵌外部资源，否则将模型和资源文件打包保存
+      const bundleEntry = !metadata.optimized && bundle.resources.size > 0 ? bundle.entryPath : null;
+      const storedFile = bundleEntry
+        ? await packModelBundle(processedFile, bundleEntry, bundle.resources)
+        : processedFile;
 
-      // 生成缩略图
-      const blobUrl = URL.createObjectURL(processedFile);
-      const thumbnailDataUrl = await generateModelThumbnail(blobUrl);
+      // 生成缩略图并解析模型元数据
+      const format = getModelFormat(processedFile.name) || 'gltf';
+      const blobUrl = URL.createObjectURL(storedFile);
+      const thumbnailDataUrl = await generateModelThumbnail(blobUrl, format, bundleEntry);
+      const modelMetadata = await extractModelMetadata(blobUrl, format, {
+        format: metadata.format,
+        fileSize: storedFile.size,
+        originalSize: metadata.originalSize
+      }, bundleEntry);
       URL.revokeObjectURL(blobUrl); // 释放临时URL
       
       // 如果缩略图生成失败，可以给一个默认的或者null
       const finalThumbnailUrl = thumbnailDataUrl || ''; // 或者一个默认占位图的URL
 
-      // 上传到服务器
-      const formData = new FormData();
-      formData.append('modelFile', processedFile, fileName);
+      // 保存模型文件到存储后端
+      const filePath = await storage.files.save(storedFile, storedFile.name, 'models');
       
-      // 服务器URL - 根据实际部署环境调整
-      const serverUrl = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1' 
-        ? `http://${window.location.hostname}:9000/api/upload-model`
-        : '/api/upload-model';
-      
-      const response = await fetch(serverUrl, {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!response.ok) {
-        throw new Error(`服务器响应错误: ${response.status}`);
-      }
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || '上传失败');
-      }
-      
-      // 创建新的模型对象，现在使用服务器返回的文件路径
+      // 创建新的模型对象，使用存储后端返回的文件路径
       const currentTime = new Date().toISOString();
       const newModel: Model = {
         id: `model-${Date.now()}`,
-        name: fileName,
-        // 使用服务器返回的文件路径，而不是Base64数据
-        file_path: result.filePath,
-        description: `上传的模型: ${fileName} (${(metadata.processedSize / (1024 * 1024)).toFixed(2)}MB)`,
+        name: processedFile.name,
+        // 使用存储后端返回的文件路径，而不是Base64数据
+        file_path: filePath,
+        bundle_entry: bundleEntry,
+        description: `上传的模型: ${fileName}`,
         thumbnail_url: finalThumbnailUrl,
+        metadata: modelMetadata,
         created_at: currentTime,
         updated_at: currentTime
       };
 
-      // 保存模型元数据到localStorage
-      saveModel(newModel);
+      // 保存模型元数据
+      await storage.models.save(newModel);
       fetchModels();
       
       toast.success('模型上传成功!');
@@ -117,9 +152,14 @@ export const ModelsManagement = (): JSX.Element => {
   };
   
   // 删除模型
-  const handleDeleteModel = (modelId: string) => {
+  const handleDeleteModel = async (modelId: string) => {
     if (window.confirm('确定要删除此模型吗？')) {
-      deleteModel(modelId);
+      try {
+        await storage.models.delete(modelId);
+      } catch (error) {
+        console.error('删除模型失败:', error);
+        toast.error('删除模型失败，请重试');
+      }
       fetchModels();
     }
   };
@@ -139,13 +179,26 @@ export const ModelsManagement = (): JSX.Element => {
           />
         </div>
         
-        <div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            用户上传校验
+            <select
+              value={uploadPolicy}
+              onChange={(e) => handleUploadPolicyChange(e.target.value as UploadValidationPolicy)}
+              className="h-9 px-2 rounded-md border border-gray-200 bg-white text-gray-800"
+            >
+              {UPLOAD_POLICY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
           <input
             type="file"
             ref={fileInputRef}
             onChange={handleFileUpload}
             className="hidden"
-            accept=".glb,.gltf,.obj,.fbx"
+            accept={MODEL_UPLOAD_ACCEPT}
+            multiple
           />
           <Button 
             onClick={() => fileInputRef.current?.click()}
@@ -185,6 +238,9 @@ export const ModelsManagement = (): JSX.Element => {
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 描述
               </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                模型信息
+              </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 上传时间
               </th>
@@ -216,6 +272,36 @@ export const ModelsManagement = (): JSX.Element => {
                   <div className="text-sm text-gray-500 max-w-xs truncate" title={model.description || ''}>
                     {model.description || '-'}</div>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {model.metadata ? (
+                    <div
+                      className="text-sm text-gray-500 space-y-0.5"
+                      title={[
+                        `部件: ${model.metadata.materialSlots.join('、') || '-'}`,
+                        `动画: ${model.metadata.animations.map(animation => animation.name).join('、') || '-'}`
+                      ].join('\n')}
+                    >
+                      <div>
+                        {model.metadata.format.toUpperCase()} · {formatFileSize(model.metadata.fileSize)}
+                      </div>
+                      <div>
+                        {formatCount(model.metadata.triangleCount)} 面 · {formatCount(model.metadata.vertexCount)} 顶点
+                      </div>
+                      <div>
+                        {model.metadata.materialSlots.length} 个部件 · {model.metadata.textureCount} 张贴图
+                        {model.metadata.maxTextureSize && ` (最大 ${model.metadata.maxTextureSize[0]}×${model.metadata.maxTextureSize[1]})`}
+                      </div>
+                      <div>
+                        尺寸 {model.metadata.dimensions.x} × {model.metadata.dimensions.y} × {model.metadata.dimensions.z}
+                      </div>
+                      {model.metadata.animations.length > 0 && (
+                        <div>{model.metadata.animations.length} 段动画</div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-400">-</div>
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-500">
                     {new Date(model.created_at || '').toLocaleString()}</div>
@@ -234,6 +320,16 @@ export const ModelsManagement = (): JSX.Element => {
           </tbody>
         </table>
       </div>
+
+      {validationReview && (
+        <ValidationReportDialog
+          report={validationReview.report}
+          blocked={validationReview.blocked}
+          confirmLabel="接受并上传"
+          onConfirm={() => closeValidationReview(true)}
+          onCancel={() => closeValidationReview(false)}
+        />
+      )}
     </div>
   );
 };
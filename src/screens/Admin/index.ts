@@ -3,3 +3,5 @@ export { AdminLayout } from './Layout';
 export { AdminDashboard } from './Dashboard';
 export { ModelsManagement } from './ModelsManagement';
 export { MaterialsManagement } from './MaterialsManagement';
+export { EnvironmentsManagement } from './EnvironmentsManagement';
+export { LightingManagement } from './LightingManagement';
@@ -1,13 +1,18 @@
 import {
   BoxIcon,
   CopyIcon,
+  CylinderIcon,
   DownloadIcon,
+  FilmIcon,
   HelpCircleIcon,
+  InfoIcon,
   SearchIcon,
   ShirtIcon,
+  SparklesIcon,
+  SunIcon,
   UploadIcon,
 } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
 import { Input } from "../../components/ui/input";
@@ -17,8 +22,9 @@ import {
   TabsList,
   TabsTrigger,
 } from "../../components/ui/tabs";
-import { getModels, saveModel, deleteModel, updateModelThumbnail, type Model } from "../../lib/localStorage";
-import ModelViewer from "../../components/ModelViewer";
+import { type Model, type ModelMaterialVariant, type ModelViewpoint, type SavedSlotAssignment, type SlotAssignment, type SlotMaterialMode } from "../../lib/localStorage";
+import { storage } from "../../lib/storage";
+import ModelViewer, { type MaterialSlot, type ModelViewerHandle } from "../../components/ModelViewer";
 import ThumbnailGenerator from "../../components/ThumbnailGenerator";
 import ModelSelect from "../../components/ModelSelect";
 import {
@@ -27,22 +33,71 @@ import {
   checkFileSize,
   generateModelThumbnail,
 } from "../../utils/modelProcessor";
+import { getModelFormat } from "../../utils/modelLoaders";
+import { MODEL_UPLOAD_ACCEPT, packModelBundle, readModelBundle, type ModelBundle } from "../../utils/modelBundle";
+import { extractModelMetadata } from "../../utils/modelMetadata";
+import ModelDetails from "../../components/ModelDetails";
+import ValidationReportDialog from "../../components/ValidationReportDialog";
+import TurntableExportDialog from "../../components/TurntableExportDialog";
+import ImageExportDialog from "../../components/ImageExportDialog";
+import ModelExportDialog from "../../components/ModelExportDialog";
+import MaterialVariantList from "../../components/MaterialVariantList";
+import ViewpointList from "../../components/ViewpointList";
+import EnvironmentSettingsPanel from "../../components/EnvironmentSettingsPanel";
+import StageSettingsPanel from "../../components/StageSettingsPanel";
+import PostProcessingPanel from "../../components/PostProcessingPanel";
+import {
+  BUILT_IN_ENVIRONMENTS,
+  getEnvironmentSettings,
+  saveEnvironmentSettings,
+  type EnvironmentMap,
+  type EnvironmentSettings
+} from "../../lib/environmentStorage";
+import {
+  BUILT_IN_LIGHTING_RIGS,
+  DEFAULT_LIGHTING_RIG,
+  getSelectedLightingRigId,
+  saveSelectedLightingRigId,
+  type LightingRig
+} from "../../lib/lightingStorage";
+import { getStageSettings, saveStageSettings, type StageSettings } from "../../lib/stageStorage";
+import {
+  getPostProcessingSettings,
+  savePostProcessingSettings,
+  type PostProcessingSettings
+} from "../../lib/postProcessingStorage";
+import { DEFAULT_ENVIRONMENT_LIGHTING, type EnvironmentLighting, type EnvironmentSource } from "../../utils/sceneEnvironment";
+import { type MaterialVariantPresets } from "../../utils/materialVariants";
+import { DEFAULT_IMAGE_EXPORT_OPTIONS, getImageSize } from "../../utils/imageExport";
+import { isUploadBlocked, needsValidationReview, type ModelValidationReport } from "../../utils/modelValidation";
+import { getUploadValidationPolicy } from "../../lib/uploadPolicy";
 import { preloadImages } from "../../utils/imageCache";
 import { ensureModelsBucketExists } from "../../utils/storageBuckets";
 import { MaterialThumbnail } from '../../components/MaterialThumbnail';
 import { toast } from '../../components/ui/toast';
 import { Tooltip } from '../../components/ui/tooltip';
-import { getMaterials, Material } from '../../lib/materialStorage';
+import { getMaterialAppearance, Material, PHYSICAL_MATERIAL_FIELDS, type MaterialAppearance } from '../../lib/materialStorage';
 import { base64ToBlob, extractMimeType } from '../../utils/blobUtils';
+import { isStoredFileRef, rehydrateStoredFiles } from '../../utils/fileStorage';
+
+// 部件材质使用方式的选项
+const SLOT_MATERIAL_MODES: Array<{ mode: SlotMaterialMode; label: string; description: string }> = [
+  { mode: 'override', label: '材质库', description: '使用所选材质' },
+  { mode: 'original', label: '原始', description: '恢复模型自带的材质' },
+  { mode: 'blend', label: '混合', description: '保留模型的法线和环境光遮蔽贴图，使用所选材质的颜色、粗糙度和金属度' }
+];
 
 export const Screen = (): JSX.Element => {
   const [models, setModels] = useState<Model[]>([]);
   const [selectedModel, setSelectedModel] = useState<string>("");
   const [currentModel, setCurrentModel] = useState<Model | null>(null);
   const [loading, setLoading] = useState(false);
-  const [customColor, setCustomColor] = useState("#FFFFFF");
-  const [customRoughness, setCustomRoughness] = useState(0.5);
-  const [customMetallic, setCustomMetallic] = useState(0);
+  // 未分配部件使用的基础材质
+  const [baseAppearance, setBaseAppearance] = useState<MaterialAppearance>({
+    color: "#FFFFFF",
+    roughness: 0.5,
+    metallic: 0
+  });
   const [modelsNeedingThumbnails, setModelsNeedingThumbnails] = useState<Model[]>([]);
   const [processingThumbnails, setProcessingThumbnails] = useState(false);
   const [clickCount, setClickCount] = useState(0);
@@ -51,6 +106,7 @@ export const Screen = (): JSX.Element => {
 
   useEffect(() => {
     let objectUrl: string | null = null; // 存储 blob URL 以便清理
+    let cancelled = false;
 
     if (currentModel && currentModel.file_path) {
       if (currentModel.file_path.startsWith('data:')) {
@@ -59,25 +115,31 @@ export const Screen = (): JSX.Element => {
         const blob = base64ToBlob(currentModel.file_path, mimeType);
         objectUrl = URL.createObjectURL(blob);
         setEffectiveModel({ ...currentModel, file_path: objectUrl });
-      } else if (currentModel.file_path.startsWith('/models/')) {
-        // 处理服务器上的模型文件
-        // 确定基础URL
-        const baseUrl = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
-          ? `http://${window.location.hostname}:9000`
-          : '';
-        
-        const fullPath = `${baseUrl}${currentModel.file_path}`;
-        console.log('加载服务器模型路径:', fullPath);
-        setEffectiveModel({ ...currentModel, file_path: fullPath });
       } else {
-        // 其他URL类型 (例如 blob: URL 或 HTTP URL)
-        setEffectiveModel(currentModel);
+        // 由存储后端解析文件路径（IndexedDB 中的文件、服务器上的模型文件或其他URL）
+        storage.files.getUrl(currentModel.file_path)
+          .then(url => {
+            if (cancelled) return;
+            if (url) {
+              setEffectiveModel({ ...currentModel, file_path: url });
+            } else {
+              toast.error('模型文件已丢失，请重新上传');
+              setEffectiveModel(null);
+            }
+          })
+          .catch(error => {
+            console.error('读取模型文件失败:', error);
+            if (!cancelled) {
+              setEffectiveModel(null);
+            }
+          });
       }
     } else {
       setEffectiveModel(null);
     }
 
     return () => {
+      cancelled = true;
       if (objectUrl) {
         URL.revokeObjectURL(objectUrl);
       }
@@ -110,6 +172,44 @@ export const Screen = (): JSX.Element => {
   // 上传模型相关状态
   const [uploadedModels, setUploadedModels] = useState<Model[]>([]);
   const [showUploadedModels, setShowUploadedModels] = useState(false);
+  const [showModelDetails, setShowModelDetails] = useState(false);
+  const [showTurntableExport, setShowTurntableExport] = useState(false);
+  const [showModelExport, setShowModelExport] = useState(false);
+  // 打开图片导出对话框时查看器画面的宽高比，null 为未打开
+  const [imageExportAspect, setImageExportAspect] = useState<number | null>(null);
+  const modelViewerRef = useRef<ModelViewerHandle>(null);
+  // 环境贴图和背景设置
+  const [showEnvironmentSettings, setShowEnvironmentSettings] = useState(false);
+  const [environments, setEnvironments] = useState<EnvironmentMap[]>(BUILT_IN_ENVIRONMENTS);
+  const [environmentSettings, setEnvironmentSettings] = useState<EnvironmentSettings>(getEnvironmentSettings);
+  // 当前环境贴图的可加载地址，解析完成前保留上一个环境贴图
+  const [environmentSource, setEnvironmentSource] = useState<EnvironmentSource | null>(DEFAULT_ENVIRONMENT_LIGHTING.source);
+  // 灯光方案
+  const [lightingRigs, setLightingRigs] = useState<LightingRig[]>(BUILT_IN_LIGHTING_RIGS);
+  const [lightingRigId, setLightingRigId] = useState(getSelectedLightingRigId);
+  // 地面、接触阴影和展台
+  const [showStageSettings, setShowStageSettings] = useState(false);
+  const [stageSettings, setStageSettings] = useState<StageSettings>(getStageSettings);
+  // 色调映射和后期效果
+  const [showPostProcessing, setShowPostProcessing] = useState(false);
+  const [postProcessingSettings, setPostProcessingSettings] = useState<PostProcessingSettings>(getPostProcessingSettings);
+  // 等待上传者确认的校验报告
+  const [validationReview, setValidationReview] = useState<{
+    report: ModelValidationReport;
+    blocked: boolean;
+    resolve: (accepted: boolean) => void;
+  } | null>(null);
+
+  // 显示校验报告，等待上传者继续或取消上传
+  const reviewValidationReport = (report: ModelValidationReport, blocked: boolean): Promise<boolean> => {
+    return new Promise((resolve) => setValidationReview({ report, blocked, resolve }));
+  };
+
+  // 关闭校验报告
+  const closeValidationReview = (accepted: boolean) => {
+    validationReview?.resolve(accepted);
+    setValidationReview(null);
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // 处理文件上传
@@ -117,63 +217,86 @@ export const Screen = (): JSX.Element => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    const file = files[0];
-    const fileName = file.name;
-
-    // 使用模型处理工具验证文件
-    const isValid = await validateModelFile(file);
-    if (!isValid) {
-      toast.error('请上传有效的3D模型文件（.glb, .gltf, .obj, .fbx）');
+    // 读取上传的模型文件，可以同时选择模型引用的资源文件或上传 ZIP 压缩包
+    let bundle: ModelBundle;
+    try {
+      bundle = await readModelBundle(Array.from(files));
+    } catch (error) {
+      console.error('读取上传文件失败:', error);
+      toast.error('请上传有效的3D模型文件（.glb, .gltf, .obj, .fbx, .stl, .ply, .3mf）');
       return;
     }
 
-    // 检查文件大小
+    const file = bundle.entry;
+    const fileName = file.name;
+
+    // 检查文件大小，超过限制的文件不再校验和解析
     if (!checkFileSize(file, 50)) {
       toast.error('文件大小超过限制（最大50MB）');
       return;
     }
 
+    // 使用模型处理工具校验文件，按管理员设置的策略阻止有问题的模型，警告由上传者确认
+    const report = await validateModelFile(file, bundle.resources, bundle.entryPath);
+    const blocked = isUploadBlocked(report, getUploadValidationPolicy());
+    if (blocked || needsValidationReview(report)) {
+      const accepted = await reviewValidationReport(report, blocked);
+      if (!accepted || blocked) {
+        return;
+      }
+    }
+
     try {
       // 处理模型文件（压缩和优化）
-      const { processedFile, metadata } = await processModelFile(file);
-
-      // 创建文件URL用于本地预览
-      const fileURL = URL.createObjectURL(processedFile);
-
-      // 创建新的模型对象用于本地预览
-      const currentTime = new Date().toISOString();
-      const newModel: Model = {
-        id: `uploaded-${Date.now()}`,
-        name: fileName,
-        file_path: fileURL,
-        description: `上传的模型: ${fileName} (${(metadata.processedSize / (1024 * 1024)).toFixed(2)}MB)`,
-        created_at: currentTime,
-        updated_at: currentTime
-      };
+      const { processedFile, metadata } = await processModelFile(file, bundle.resources, bundle.entryPath);
+
+      // 优化后的 GLB 已内嵌外部资源，否则将模型和资源文件打包保存
+      const bundleEntry = !metadata.optimized && bundle.resources.size > 0 ? bundle.entryPath : null;
+      const storedFile = bundleEntry
+        ? await packModelBundle(processedFile, bundleEntry, bundle.resources)
+        : processedFile;
 
       // 确保存储桶存在
       await ensureModelsBucketExists();
 
-      // 保存文件到本地存储
+      // 保存文件到存储后端，模型记录中保存文件路径，刷新页面后仍可加载
+      let fileRef: string | null = null;
       try {
-        // 使用已创建的本地URL作为文件路径
-        const publicUrl = fileURL;
-        
-        // 文件路径已经在创建模型时设置为fileURL
-
-        // 保持使用已创建的本地URL
-        newModel.file_path = publicUrl;
-
-        // 生成缩略图
-        const thumbnailDataUrl = await generateModelThumbnail(publicUrl);
+        fileRef = await storage.files.save(storedFile, storedFile.name, 'models');
+
+        // 创建新的模型对象
+        const currentTime = new Date().toISOString();
+        const newModel: Model = {
+          id: `uploaded-${Date.now()}`,
+          name: processedFile.name,
+          file_path: fileRef,
+          bundle_entry: bundleEntry,
+          description: `上传的模型: ${fileName}`,
+          created_at: currentTime,
+          updated_at: currentTime
+        };
+
+        // 使用文件的对象URL生成缩略图
+        const format = getModelFormat(processedFile.name) || 'gltf';
+        const fileURL = await storage.files.getUrl(fileRef);
+        const thumbnailDataUrl = fileURL ? await generateModelThumbnail(fileURL, format, bundleEntry) : null;
 
         if (thumbnailDataUrl) {
           // 直接将缩略图数据URL保存到模型对象中
           newModel.thumbnail_url = thumbnailDataUrl;
         }
 
-        // 将模型保存到本地存储
-        saveModel(newModel);
+        // 解析模型元数据
+        if (fileURL) {
+          newModel.metadata = await extractModelMetadata(fileURL, format, {
+            format: metadata.format,
+            fileSize: storedFile.size,
+            originalSize: metadata.originalSize
+          }, bundleEntry);
+        }
+
+        // 保存模型记录
+        await storage.models.save(newModel);
         
         // 添加到上传模型列表
         setUploadedModels(prev => [...prev, newModel]);
@@ -191,8 +314,10 @@ export const Screen = (): JSX.Element => {
         console.error('上传过程中出错:', uploadError);
         toast.error('上传过程中出错，请稍后重试');
 
-        // 清理本地资源
-        URL.revokeObjectURL(fileURL);
+        // 清理已保存的文件
+        if (fileRef) {
+          storage.files.delete(fileRef).catch(error => console.error('清理模型文件失败:', error));
+        }
       }
     } catch (processingError) {
       console.error('处理模型文件时出错:', processingError);
@@ -211,16 +336,14 @@ export const Screen = (): JSX.Element => {
     const modelToDelete = uploadedModels.find(model => model.id === modelId);
     if (!modelToDelete) return;
 
-    // 如果是记忆URL，释放内存
-    if (modelToDelete.file_path.startsWith('blob:')) {
-      URL.revokeObjectURL(modelToDelete.file_path);
-    }
+    // 如果是缩略图的对象URL，释放内存
     if (modelToDelete.thumbnail_url?.startsWith('blob:')) {
       URL.revokeObjectURL(modelToDelete.thumbnail_url);
     }
     
-    // 使用本地存储删除模型
-    deleteModel(modelId);
+    // 删除模型记录，同时删除存储后端中的模型文件
+    storage.models.delete(modelId).catch(error => console.error('删除模型失败:', error));
+    setUploadedModels(prev => prev.filter(model => model.id !== modelId));
 
     // 如果删除的是当前选中的模型，选择另一个模型
     if (modelId === selectedModel) {
@@ -249,11 +372,9 @@ export const Screen = (): JSX.Element => {
 
   // 清除所有上传的模型
   const clearUploadedModels = () => {
-    // 释放所有创建的对象URL
+    // 删除所有上传的模型，同时删除存储后端中的模型文件
     uploadedModels.forEach(model => {
-      if (model.file_path.startsWith('blob:')) {
-        URL.revokeObjectURL(model.file_path);
-      }
+      storage.models.delete(model.id).catch(error => console.error('删除模型失败:', error));
     });
 
     // 清空上传模型列表
@@ -272,15 +393,19 @@ export const Screen = (): JSX.Element => {
     }
   };
 
-  // 从本地存储获取模型数据
+  // 从存储后端获取模型数据
   const fetchModels = async () => {
     setLoading(true);
     try {
       // 检查存储桶是否存在，对于本地存储来说总是存在的
       await ensureModelsBucketExists();
 
-      // 从本地存储获取模型
-      let localModels = getModels();
+      // 从存储后端获取模型
+      let localModels = await storage.models.list();
+
+      // 恢复IndexedDB中上传模型文件的对象URL
+      await rehydrateStoredFiles(localModels.map(model => model.file_path).filter(isStoredFileRef));
+      setUploadedModels(localModels.filter(model => model.id.startsWith('uploaded-')));
       
 
       if (localModels.length > 0) {
@@ -344,8 +469,10 @@ export const Screen = (): JSX.Element => {
           : model
       );
       
-      // 使用本地存储更新缩略图
-      updateModelThumbnail(modelId, thumbnailUrl);
+      // 更新存储后端中的缩略图
+      storage.models.updateThumbnail(modelId, thumbnailUrl).catch(error => {
+        console.error('更新模型缩略图失败:', error);
+      });
       
       return updatedModels;
     });
@@ -399,12 +526,247 @@ export const Screen = (): JSX.Element => {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [selectedMaterialId, setSelectedMaterialId] = useState<string>("");
 
-  // 模型上的材质状态
-  const [modelMaterials, setModelMaterials] = useState<Array<{
-    id: number;
-    materialId: string;
-  }>>([]);
-  const [selectedModelMaterialIndex, setSelectedModelMaterialIndex] = useState<number>(0);
+  // 模型上的材质部件及其材质分配
+  const [modelSlots, setModelSlots] = useState<MaterialSlot[]>([]);
+  const [slotAssignments, setSlotAssignments] = useState<Record<string, SlotAssignment>>({});
+  const [selectedSlotId, setSelectedSlotId] = useState<string>("");
+  // 模型文件中定义的材质变体
+  const [variantPresets, setVariantPresets] = useState<MaterialVariantPresets | null>(null);
+
+  // 切换模型时清空部件和材质分配
+  useEffect(() => {
+    setModelSlots([]);
+    setSlotAssignments({});
+    setSelectedSlotId("");
+  }, [currentModel?.id]);
+
+  // 模型加载完成后，为新的部件分配当前基础材质
+  const handleSlotsChange = useCallback((slots: MaterialSlot[]) => {
+    setModelSlots(slots);
+    setSlotAssignments(prev => {
+      const next = { ...prev };
+      slots.forEach(slot => {
+        if (!next[slot.id]) {
+          next[slot.id] = { materialId: selectedMaterialId || null, appearance: baseAppearance };
+        }
+      });
+      return next;
+    });
+    setSelectedSlotId(prev => (slots.some(slot => slot.id === prev) ? prev : slots[0]?.id || ""));
+  }, [selectedMaterialId, baseAppearance]);
+
+  // 传递给模型查看器的部件材质
+  const slotMaterials = useMemo(() => {
+    const result: Record<string, MaterialAppearance> = {};
+    Object.entries(slotAssignments).forEach(([slotId, assignment]) => {
+      result[slotId] = assignment.appearance;
+    });
+    return result;
+  }, [slotAssignments]);
+
+  // 传递给模型查看器的部件材质使用方式
+  const slotModes = useMemo(() => {
+    const result: Record<string, SlotMaterialMode> = {};
+    Object.entries(slotAssignments).forEach(([slotId, assignment]) => {
+      result[slotId] = assignment.mode || 'override';
+    });
+    return result;
+  }, [slotAssignments]);
+
+  // 传递给模型查看器的使用材质变体的部件
+  const slotVariants = useMemo(() => {
+    const result: Record<string, number> = {};
+    Object.entries(slotAssignments).forEach(([slotId, assignment]) => {
+      if (assignment.variant !== undefined) {
+        result[slotId] = assignment.variant;
+      }
+    });
+    return result;
+  }, [slotAssignments]);
+
+  // 当前选中部件的材质（没有部件时使用基础材质）
+  const selectedAssignment = selectedSlotId ? slotAssignments[selectedSlotId] : undefined;
+  const currentAppearance = selectedAssignment ? selectedAssignment.appearance : baseAppearance;
+  const currentMaterialId = selectedAssignment ? selectedAssignment.materialId : selectedMaterialId;
+
+  // 选择材质后，恢复原始材质的部件改为使用所选材质，混合方式保持不变
+  const getModeAfterEdit = (assignment: SlotAssignment): SlotMaterialMode | undefined => {
+    return assignment.mode === 'original' ? undefined : assignment.mode;
+  };
+
+  // 将材质库中的材质应用到当前选中的部件
+  const applyLibraryMaterial = (material: Material) => {
+    const appearance = getMaterialAppearance(material);
+    if (selectedAssignment) {
+      setSlotAssignments(prev => ({
+        ...prev,
+        [selectedSlotId]: { materialId: material.id, appearance, mode: getModeAfterEdit(prev[selectedSlotId]) }
+      }));
+    } else {
+      setSelectedMaterialId(material.id);
+      setBaseAppearance(appearance);
+    }
+  };
+
+  // 设置部件材质的使用方式，applyToAll 为 true 时应用到所有部件
+  const setSlotMode = (mode: SlotMaterialMode, applyToAll = false) => {
+    setSlotAssignments(prev => {
+      const next = { ...prev };
+      Object.keys(prev).forEach(slotId => {
+        if (applyToAll || slotId === selectedSlotId) {
+          next[slotId] = { ...prev[slotId], mode, variant: undefined };
+        }
+      });
+      return next;
+    });
+  };
+
+  // 当前模型保存的材质变体（从模型列表读取，保存变体时不替换当前模型，避免重新加载）
+  const savedVariants = useMemo(
+    () => models.find(model => model.id === currentModel?.id)?.material_variants || [],
+    [models, currentModel?.id]
+  );
+
+  // 应用模型文件中的材质变体，各部件直接使用变体中的模型材质
+  const applyVariantPreset = (index: number) => {
+    setSlotAssignments(prev => {
+      const next = { ...prev };
+      modelSlots.forEach(slot => {
+        next[slot.id] = { materialId: null, appearance: prev[slot.id]?.appearance || baseAppearance, variant: index };
+      });
+      return next;
+    });
+  };
+
+  // 还原保存的部件材质分配，材质库材质按ID读取最新属性（已删除时使用保存的属性），变体不存在时返回null
+  const restoreSlotAssignment = (saved: SavedSlotAssignment, current: SlotAssignment | undefined): SlotAssignment | null => {
+    if (saved.variant !== undefined) {
+      if (!variantPresets || saved.variant >= variantPresets.names.length) return null;
+      return { materialId: null, appearance: current?.appearance || baseAppearance, variant: saved.variant };
+    }
+    const material = saved.materialId ? materials.find(item => item.id === saved.materialId) : undefined;
+    if (material) {
+      return { materialId: material.id, appearance: getMaterialAppearance(material), mode: saved.mode };
+    }
+    return saved.appearance ? { materialId: null, appearance: saved.appearance, mode: saved.mode } : null;
+  };
+
+  // 应用保存的材质变体，只分配当前模型上存在的部件
+  const applySavedVariant = (variant: ModelMaterialVariant) => {
+    setSlotAssignments(prev => {
+      const next = { ...prev };
+      modelSlots.forEach(slot => {
+        const saved = variant.assignments[slot.id];
+        const assignment = saved ? restoreSlotAssignment(saved, prev[slot.id]) : null;
+        if (assignment) {
+          next[slot.id] = assignment;
+        }
+      });
+      return next;
+    });
+  };
+
+  // 更新当前模型保存的材质变体
+  const updateSavedVariants = (update: (variants: ModelMaterialVariant[]) => ModelMaterialVariant[]) => {
+    const model = models.find(item => item.id === currentModel?.id);
+    if (!model) return;
+
+    const updatedModel: Model = {
+      ...model,
+      material_variants: update(model.material_variants || []),
+      updated_at: new Date().toISOString()
+    };
+    setModels(prev => prev.map(item => (item.id === updatedModel.id ? updatedModel : item)));
+    storage.models.save(updatedModel).catch(error => {
+      console.error('保存材质变体失败:', error);
+      toast.error('保存材质变体失败');
+    });
+  };
+
+  // 将当前各部件的材质分配保存为新的变体，材质库材质和模型文件中的变体只保存引用
+  const saveCurrentVariant = (name: string) => {
+    const assignments: Record<string, SavedSlotAssignment> = {};
+    Object.entries(slotAssignments).forEach(([slotId, assignment]) => {
+      if (assignment.variant !== undefined) {
+        assignments[slotId] = { variant: assignment.variant };
+      } else if (assignment.materialId) {
+        assignments[slotId] = { materialId: assignment.materialId, mode: assignment.mode };
+      } else {
+        assignments[slotId] = { appearance: assignment.appearance, mode: assignment.mode };
+      }
+    });
+    const variant: ModelMaterialVariant = {
+      id: `variant-${Date.now()}`,
+      name,
+      assignments,
+      created_at: new Date().toISOString()
+    };
+    updateSavedVariants(variants => [...variants, variant]);
+    toast.success(`已保存材质变体: ${name}`);
+  };
+
+  // 当前模型保存的视角
+  const savedViewpoints = useMemo(
+    () => models.find(model => model.id === currentModel?.id)?.viewpoints || [],
+    [models, currentModel?.id]
+  );
+
+  // 更新当前模型保存的视角
+  const updateSavedViewpoints = (update: (viewpoints: ModelViewpoint[]) => ModelViewpoint[]) => {
+    const model = models.find(item => item.id === currentModel?.id);
+    if (!model) return;
+
+    const updatedModel: Model = {
+      ...model,
+      viewpoints: update(model.viewpoints || []),
+      updated_at: new Date().toISOString()
+    };
+    setModels(prev => prev.map(item => (item.id === updatedModel.id ? updatedModel : item)));
+    storage.models.save(updatedModel).catch(error => {
+      console.error('保存视角失败:', error);
+      toast.error('保存视角失败');
+    });
+  };
+
+  // 将查看器的当前视角保存到模型上
+  const saveCurrentViewpoint = (name: string) => {
+    const current = modelViewerRef.current?.getViewpoint();
+    if (!current) {
+      toast.error('模型尚未加载');
+      return;
+    }
+    const viewpoint: ModelViewpoint = {
+      id: `viewpoint-${Date.now()}`,
+      name,
+      position: current.position,
+      target: current.target,
+      created_at: new Date().toISOString()
+    };
+    updateSavedViewpoints(viewpoints => [...viewpoints, viewpoint]);
+    toast.success(`已保存视角: ${name}`);
+  };
+
+  // 相机平滑切换到保存的视角
+  const applyViewpoint = (viewpoint: ModelViewpoint) => {
+    modelViewerRef.current?.showViewpoint(viewpoint);
+  };
+
+  // 在自定义面板中修改当前选中部件的材质属性
+  const updateCurrentAppearance = (changes: Partial<MaterialAppearance>) => {
+    if (selectedAssignment) {
+      setSlotAssignments(prev => ({
+        ...prev,
+        [selectedSlotId]: {
+          materialId: null,
+          appearance: { ...prev[selectedSlotId].appearance, ...changes },
+          mode: getModeAfterEdit(prev[selectedSlotId])
+        }
+      }));
+    } else {
+      setSelectedMaterialId("");
+      setBaseAppearance(prev => ({ ...prev, ...changes }));
+    }
+  };
 
   // 处理分隔线上的鼠标按下事件
   const handleDividerMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
@@ -500,12 +862,104 @@ export const Screen = (): JSX.Element => {
     }
   }, [isDragging, handleDragMove, handleDragEnd]);
 
+  // 加载管理员上传的环境贴图，排在内置环境贴图之后
+  useEffect(() => {
+    storage.environments.list()
+      .then(uploaded => setEnvironments([...BUILT_IN_ENVIRONMENTS, ...uploaded]))
+      .catch(error => console.error('加载环境贴图列表失败:', error));
+  }, []);
+
+  // 加载管理员创建的灯光方案，排在内置方案之后
+  useEffect(() => {
+    storage.lightingRigs.list()
+      .then(created => setLightingRigs([...BUILT_IN_LIGHTING_RIGS, ...created]))
+      .catch(error => console.error('加载灯光方案列表失败:', error));
+  }, []);
+
+  // 当前选择的灯光方案，已删除时使用默认方案
+  const selectedLightingRig = useMemo(
+    () => lightingRigs.find(rig => rig.id === lightingRigId) || DEFAULT_LIGHTING_RIG,
+    [lightingRigs, lightingRigId]
+  );
+
+  // 选择并保存灯光方案
+  const selectLightingRig = (rigId: string) => {
+    setLightingRigId(rigId);
+    saveSelectedLightingRigId(rigId);
+  };
+
+  // 当前选择的环境贴图，已删除时使用第一个内置环境贴图
+  const selectedEnvironment = useMemo(
+    () => environments.find(environment => environment.id === environmentSettings.environmentId) || BUILT_IN_ENVIRONMENTS[0],
+    [environments, environmentSettings.environmentId]
+  );
+
+  // 解析环境贴图文件地址（上传的文件可能保存在 IndexedDB 或服务器）
+  useEffect(() => {
+    let cancelled = false;
+    storage.files.getUrl(selectedEnvironment.file_path)
+      .then(url => {
+        if (cancelled) return;
+        if (url) {
+          setEnvironmentSource({ url, format: selectedEnvironment.format });
+        } else {
+          toast.error(`环境贴图文件不存在: ${selectedEnvironment.name}`);
+        }
+      })
+      .catch(error => console.error('解析环境贴图地址失败:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEnvironment]);
+
+  // 更新并保存环境设置
+  const updateEnvironmentSettings = (changes: Partial<EnvironmentSettings>) => {
+    setEnvironmentSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveEnvironmentSettings(next);
+      return next;
+    });
+  };
+
+  // 更新并保存展台设置
+  const updateStageSettings = (changes: Partial<StageSettings>) => {
+    setStageSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveStageSettings(next);
+      return next;
+    });
+  };
+
+  // 更新并保存后期处理设置
+  const updatePostProcessingSettings = (changes: Partial<PostProcessingSettings>) => {
+    setPostProcessingSettings(prev => {
+      const next = { ...prev, ...changes };
+      savePostProcessingSettings(next);
+      return next;
+    });
+  };
+
+  // 查看器、材质预览和导出共用的环境光照
+  const environmentLighting = useMemo<EnvironmentLighting>(() => ({
+    source: environmentSource,
+    rotation: environmentSettings.rotation,
+    intensity: environmentSettings.intensity,
+    exposure: environmentSettings.exposure
+  }), [environmentSource, environmentSettings.rotation, environmentSettings.intensity, environmentSettings.exposure]);
+
+  // 查看器背景
+  const sceneBackground = useMemo(() => ({
+    background: environmentSettings.background,
+    backgroundColor: environmentSettings.backgroundColor,
+    gradientColors: environmentSettings.gradientColors
+  }), [environmentSettings.background, environmentSettings.backgroundColor, environmentSettings.gradientColors]);
+
   // 加载材质数据
   useEffect(() => {
     const fetchMaterials = async () => {
       try {
-        // 从本地存储加载材质数据
-        const materialsFromStorage = getMaterials();
+        // 从存储后端加载材质数据
+        const materialsFromStorage = await storage.materials.list();
         if (materialsFromStorage.length === 0) {
           // 如果本地没有数据，从默认配置加载
           const response = await fetch('/materials/materials.json');
@@ -516,37 +970,16 @@ export const Screen = (): JSX.Element => {
           setMaterials(data);
           if (data.length > 0) {
             setSelectedMaterialId(data[0].id);
-            // 应用第一个材质的属性
-            setCustomColor(data[0].color);
-            setCustomRoughness(data[0].roughness);
-            setCustomMetallic(data[0].metallic);
-
-            // 初始化模型材质
-            // 模拟一个模型有四个不同的材质部分
-            setModelMaterials([
-              { id: 1, materialId: data[0].id }, // 默认使用第一个材质
-              { id: 2, materialId: data.length > 5 ? data[5].id : data[0].id },
-              { id: 3, materialId: data.length > 10 ? data[10].id : data[0].id },
-              { id: 4, materialId: data.length > 15 ? data[15].id : data[0].id }
-            ]);
+            // 应用第一个材质的属性作为基础材质
+            setBaseAppearance(getMaterialAppearance(data[0]));
           }
         } else {
-          // 直接使用从materialStorage.ts中获取的材质数据
+          // 直接使用从存储后端获取的材质数据
           setMaterials(materialsFromStorage);
           if (materialsFromStorage.length > 0) {
             setSelectedMaterialId(materialsFromStorage[0].id);
-            // 应用第一个材质的属性
-            setCustomColor(materialsFromStorage[0].color);
-            setCustomRoughness(materialsFromStorage[0].roughness);
-            setCustomMetallic(materialsFromStorage[0].metallic);
-
-            // 初始化模型材质
-            setModelMaterials([
-              { id: 1, materialId: materialsFromStorage[0].id }, // 默认使用第一个材质
-              { id: 2, materialId: materialsFromStorage.length > 5 ? materialsFromStorage[5].id : materialsFromStorage[0].id },
-              { id: 3, materialId: materialsFromStorage.length > 10 ? materialsFromStorage[10].id : materialsFromStorage[0].id },
-              { id: 4, materialId: materialsFromStorage.length > 15 ? materialsFromStorage[15].id : materialsFromStorage[0].id }
-            ]);
+            // 应用第一个材质的属性作为基础材质
+            setBaseAppearance(getMaterialAppearance(materialsFromStorage[0]));
           }
         }
       } catch (error) {
@@ -566,16 +999,7 @@ export const Screen = (): JSX.Element => {
         }));
         setMaterials(defaultMaterials);
         setSelectedMaterialId(defaultMaterials[0].id);
-        setCustomColor(defaultMaterials[0].color);
-        setCustomRoughness(defaultMaterials[0].roughness);
-        setCustomMetallic(defaultMaterials[0].metallic);
-        
-        setModelMaterials([
-          { id: 1, materialId: defaultMaterials[0].id },
-          { id: 2, materialId: defaultMaterials[0].id },
-          { id: 3, materialId: defaultMaterials[0].id },
-          { id: 4, materialId: defaultMaterials[0].id }
-        ]);
+        setBaseAppearance(getMaterialAppearance(defaultMaterials[0]));
       }
     };
 
@@ -620,48 +1044,58 @@ export const Screen = (): JSX.Element => {
         />
 
         <div className="inline-flex items-center justify-end gap-sm relative">
-              <Button
+          <Button
             variant="ghost"
             className="h-8 inline-flex items-center justify-center gap-1 px-md py-1.5 bg-container rounded-lg hover:bg-container-hover"
             onClick={() => {
-              // 使用模型的截图功能
-              const dataUrl = (window as any).captureModelScreenshot ? (window as any).captureModelScreenshot() : null;
-              if (dataUrl) {
-                // 将图片数据复制到剪贴板
-                // 创建一个临时的canvas元素
-                const tempCanvas = document.createElement('canvas');
-                const tempCtx = tempCanvas.getContext('2d');
-                if (!tempCtx) {
-                  toast.error('无法创建临时画布，复制失败');
-                  return;
-                }
-                
-                // 创建一个新的图像对象
-                const img = new Image();
-                img.onload = () => {
-                  // 设置canvas大小与图像相同
-                  tempCanvas.width = img.width;
-                  tempCanvas.height = img.height;
-                  // 绘制图像到canvas
-                  tempCtx.drawImage(img, 0, 0);
-                  
-                  // 尝试复制到剪贴板
-                  tempCanvas.toBlob(blob => {
-                    if (blob) {
-                      // 创建ClipboardItem
-                      const item = new ClipboardItem({ 'image/png': blob });
-                      navigator.clipboard.write([item])
-                        .then(() => toast.success('图片已复制到剪贴板'))
-                        .catch(err => {
-                          console.error('复制到剪贴板失败:', err);
-                          toast.error('复制到剪贴板失败，可能是浏览器权限问题');
-                        });
-                    }
-                  }, 'image/png');
-                };
-                img.src = dataUrl;
+              if (modelViewerRef.current) {
+                setShowTurntableExport(true);
               } else {
-                toast.error('无法获取模型渲染图片');
+                toast.error('请先选择一个模型');
+              }
+            }}
+          >
+            <FilmIcon className="w-4 h-4 text-text-secondary" />
+            <span className="text-text-secondary w-fit mt-[-1.00px] text-base font-medium leading-normal">
+              导出动画
+            </span>
+          </Button>
+
+          <Button
+            variant="ghost"
+            className="h-8 inline-flex items-center justify-center gap-1 px-md py-1.5 bg-container rounded-lg hover:bg-container-hover"
+            onClick={() => {
+              if (currentModel) {
+                setShowModelExport(true);
+              } else {
+                toast.error('请先选择一个模型');
+              }
+            }}
+          >
+            <BoxIcon className="w-4 h-4 text-text-secondary" />
+            <span className="text-text-secondary w-fit mt-[-1.00px] text-base font-medium leading-normal">
+              导出模型
+            </span>
+          </Button>
+
+              <Button
+            variant="ghost"
+            className="h-8 inline-flex items-center justify-center gap-1 px-md py-1.5 bg-container rounded-lg hover:bg-container-hover"
+            onClick={async () => {
+              if (!modelViewerRef.current) {
+                toast.error('请先选择一个模型');
+                return;
+              }
+
+              try {
+                // 按当前画面的宽高比和视角渲染图片
+                const size = getImageSize(DEFAULT_IMAGE_EXPORT_OPTIONS.width, modelViewerRef.current.getViewAspect());
+                const blob = await modelViewerRef.current.captureImage({ ...DEFAULT_IMAGE_EXPORT_OPTIONS, ...size });
+                await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+                toast.success('图片已复制到剪贴板');
+              } catch (error) {
+                console.error('复制图片失败:', error);
+                toast.error('复制到剪贴板失败，可能是浏览器权限问题');
               }
             }}
           >
@@ -675,18 +1109,10 @@ export const Screen = (): JSX.Element => {
             variant="default"
             className="h-8 inline-flex items-center justify-center gap-1 px-md py-1.5 btn-primary rounded-lg"
             onClick={() => {
-              // 使用模型的截图功能
-              const dataUrl = (window as any).captureModelScreenshot ? (window as any).captureModelScreenshot() : null;
-              if (dataUrl) {
-                // 创建一个下载链接
-                const a = document.createElement('a');
-                a.href = dataUrl;
-                a.download = `模型渲染_${new Date().getTime()}.png`;
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
+              if (modelViewerRef.current) {
+                setImageExportAspect(modelViewerRef.current.getViewAspect());
               } else {
-                toast.error('无法获取模型渲染图片');
+                toast.error('请先选择一个模型');
               }
             }}
           >
@@ -705,10 +1131,20 @@ export const Screen = (): JSX.Element => {
           <CardContent className="p-0 h-full relative">
             {effectiveModel ? (
               <ModelViewer
+                ref={modelViewerRef}
                 selectedModel={effectiveModel}
-                customColor={customColor}
-                customRoughness={customRoughness}
-                customMetallic={customMetallic}
+                slotMaterials={slotMaterials}
+                slotModes={slotModes}
+                slotVariants={slotVariants}
+                defaultMaterial={baseAppearance}
+                onSlotsChange={handleSlotsChange}
+                onSlotSelect={setSelectedSlotId}
+                onVariantPresetsChange={setVariantPresets}
+                environment={environmentLighting}
+                lighting={selectedLightingRig}
+                background={sceneBackground}
+                stage={stageSettings}
+                postProcessing={postProcessingSettings}
               />
             ) : (
               <div className="flex items-center justify-center h-full text-text-primary opacity-50">
@@ -800,7 +1236,8 @@ export const Screen = (): JSX.Element => {
               <input
                 type="file"
                 ref={fileInputRef}
-                accept=".glb,.gltf,.obj,.fbx"
+                accept={MODEL_UPLOAD_ACCEPT}
+                multiple
                 className="hidden"
                 onChange={handleFileUpload}
               />
@@ -852,6 +1289,93 @@ export const Screen = (): JSX.Element => {
                   </span>
                 </Button>
               )}
+
+              {/* 模型详情 - 上传时解析的模型元数据 */}
+              {currentModel && (
+                <>
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-full flex items-center justify-center gap-1 px-sm py-1.5 bg-container rounded-lg hover:bg-container-hover"
+                    onClick={() => setShowModelDetails(prev => !prev)}
+                  >
+                    <InfoIcon className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                    <span className={`text-text-secondary mt-[-1.00px] text-base font-medium leading-normal truncate ${showModelDetails ? 'text-brand' : ''}`}>
+                      模型信息
+                    </span>
+                  </Button>
+                  {showModelDetails && (
+                    currentModel.metadata ? (
+                      <ModelDetails metadata={currentModel.metadata} />
+                    ) : (
+                      <div className="text-text-tertiary text-sm leading-normal w-full">
+                        暂无模型信息，重新上传模型后可查看
+                      </div>
+                    )
+                  )}
+                </>
+              )}
+
+              {/* 环境设置 - 环境贴图、光照和背景 */}
+              <Button
+                variant="ghost"
+                className="h-8 w-full flex items-center justify-center gap-1 px-sm py-1.5 bg-container rounded-lg hover:bg-container-hover"
+                onClick={() => setShowEnvironmentSettings(prev => !prev)}
+              >
+                <SunIcon className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                <span className={`text-text-secondary mt-[-1.00px] text-base font-medium leading-normal truncate ${showEnvironmentSettings ? 'text-brand' : ''}`}>
+                  环境设置
+                </span>
+              </Button>
+              {showEnvironmentSettings && (
+                <EnvironmentSettingsPanel
+                  environments={environments}
+                  settings={{ ...environmentSettings, environmentId: selectedEnvironment.id }}
+                  onChange={updateEnvironmentSettings}
+                  lightingRigs={lightingRigs}
+                  lightingRigId={selectedLightingRig.id}
+                  onLightingRigChange={selectLightingRig}
+                />
+              )}
+
+              {/* 展台设置 - 地面、接触阴影和展台 */}
+              <Button
+                variant="ghost"
+                className="h-8 w-full flex items-center justify-center gap-1 px-sm py-1.5 bg-container rounded-lg hover:bg-container-hover"
+                onClick={() => setShowStageSettings(prev => !prev)}
+              >
+                <CylinderIcon className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                <span className={`text-text-secondary mt-[-1.00px] text-base font-medium leading-normal truncate ${showStageSettings ? 'text-brand' : ''}`}>
+                  展台设置
+                </span>
+              </Button>
+              {showStageSettings && (
+                <StageSettingsPanel settings={stageSettings} onChange={updateStageSettings} />
+              )}
+
+              {/* 后期效果 - 色调映射、环境光遮蔽、泛光、暗角和调色 */}
+              <Button
+                variant="ghost"
+                className="h-8 w-full flex items-center justify-center gap-1 px-sm py-1.5 bg-container rounded-lg hover:bg-container-hover"
+                onClick={() => setShowPostProcessing(prev => !prev)}
+              >
+                <SparklesIcon className="w-4 h-4 text-text-secondary flex-shrink-0" />
+                <span className={`text-text-secondary mt-[-1.00px] text-base font-medium leading-normal truncate ${showPostProcessing ? 'text-brand' : ''}`}>
+                  后期效果
+                </span>
+              </Button>
+              {showPostProcessing && (
+                <PostProcessingPanel settings={postProcessingSettings} onChange={updatePostProcessingSettings} />
+              )}
+
+              {/* 视角 - 保存在模型上的相机位置 */}
+              {currentModel && (
+                <ViewpointList
+                  viewpoints={savedViewpoints}
+                  onApply={applyViewpoint}
+                  onSave={saveCurrentViewpoint}
+                  onDelete={(viewpointId) => updateSavedViewpoints(viewpoints => viewpoints.filter(viewpoint => viewpoint.id !== viewpointId))}
+                />
+              )}
             </div>
 
             {/* Material Settings Section */}
@@ -863,37 +1387,105 @@ export const Screen = (): JSX.Element => {
                 </span>
               </div>
 
-              {/* Applied Materials - 当前模型上的材质 */}
+              {/* Applied Materials - 当前模型上的材质部件，点击选中部件（也可以在3D视图中点击模型部件） */}
               <div className="flex items-start gap-sm flex-wrap relative self-stretch w-full">
-                {/* 只显示一个材质球 */}
-                {materials.length > 0 && (
-                  <div
-                    className="relative w-10 h-10 bg-container rounded-lg cursor-pointer transition-all hover:bg-container-hover border border-solid border-border-emphasis"
-                    onClick={() => {
-                      // 已经选中当前材质
-                      setSelectedModelMaterialIndex(0);
-                      // 显示其对应的材质属性
-                      const material = materials.find(m => m.id === selectedMaterialId);
-                      if (material) {
-                        setCustomColor(material.color);
-                        setCustomRoughness(material.roughness);
-                        setCustomMetallic(material.metallic);
-                      }
-                    }}
-                  >
-                    <div className="absolute w-[27px] h-[27px] top-1.5 left-1.5 rounded-sm">
-                      {materials.length > 0 && (
-                        <MaterialThumbnail 
-                          color={materials.find(m => m.id === selectedMaterialId)?.color || materials[0].color}
-                          roughness={materials.find(m => m.id === selectedMaterialId)?.roughness || materials[0].roughness}
-                          metallic={materials.find(m => m.id === selectedMaterialId)?.metallic || materials[0].metallic}
+                {modelSlots.length > 0 ? (
+                  modelSlots.map((slot) => {
+                    const appearance = slotAssignments[slot.id]?.appearance || baseAppearance;
+                    const assignedMaterial = materials.find(m => m.id === slotAssignments[slot.id]?.materialId);
+                    const mode = slotAssignments[slot.id]?.mode || 'override';
+                    const variantIndex = slotAssignments[slot.id]?.variant;
+                    const variantName = variantIndex !== undefined ? variantPresets?.names[variantIndex] : undefined;
+                    const materialName = assignedMaterial ? assignedMaterial.name : '自定义';
+                    return (
+                      <div
+                        key={slot.id}
+                        className={`relative w-10 h-10 bg-container rounded-lg cursor-pointer transition-all hover:bg-container-hover border border-solid ${slot.id === selectedSlotId ? 'border-border-emphasis' : 'border-transparent'}`}
+                        title={variantName !== undefined
+                          ? `${slot.name}: 材质变体 ${variantName}`
+                          : `${slot.name}: ${mode === 'original' ? '原始材质' : materialName}${mode === 'blend' ? '（保留原始贴图）' : ''}`}
+                        onClick={() => setSelectedSlotId(slot.id)}
+                      >
+                        <div className="absolute w-[27px] h-[27px] top-1.5 left-1.5 rounded-sm">
+                          {variantName !== undefined ? (
+                            <div className="w-full h-full rounded-sm bg-container-hover flex items-center justify-center text-text-secondary text-xs">
+                              变体
+                            </div>
+                          ) : mode === 'original' ? (
+                            <div className="w-full h-full rounded-sm bg-container-hover flex items-center justify-center text-text-secondary text-xs">
+                              原始
+                            </div>
+                          ) : (
+                            <MaterialThumbnail
+                              material={appearance}
+                              size={27}
+                              environment={environmentLighting}
+                            />
+                          )}
+                        </div>
+                        {mode === 'blend' && variantName === undefined && (
+                          <div className="absolute right-0.5 bottom-0.5 w-2 h-2 rounded-full bg-brand" />
+                        )}
+                      </div>
+                    );
+                  })
+                ) : (
+                  materials.length > 0 && (
+                    <div className="relative w-10 h-10 bg-container rounded-lg cursor-pointer transition-all hover:bg-container-hover border border-solid border-border-emphasis">
+                      <div className="absolute w-[27px] h-[27px] top-1.5 left-1.5 rounded-sm">
+                        <MaterialThumbnail
+                          material={baseAppearance}
                           size={27}
+                          environment={environmentLighting}
                         />
-                      )}
+                      </div>
                     </div>
-                  </div>
+                  )
                 )}
               </div>
+              {selectedAssignment && (
+                <div className="text-text-tertiary text-sm font-medium leading-normal truncate w-full">
+                  当前部件: {modelSlots.find(slot => slot.id === selectedSlotId)?.name}
+                </div>
+              )}
+
+              {/* 部件材质的使用方式 */}
+              {selectedAssignment && (
+                <div className="flex items-center gap-xs w-full">
+                  <div className="h-8 p-0.5 flex-1 bg-container rounded-lg grid grid-cols-3">
+                    {SLOT_MATERIAL_MODES.map(({ mode, label, description }) => (
+                      <button
+                        key={mode}
+                        title={description}
+                        onClick={() => setSlotMode(mode)}
+                        className={`rounded-md text-sm font-medium ${selectedAssignment.variant === undefined && (selectedAssignment.mode || 'override') === mode ? 'bg-container-hover text-text-primary' : 'text-text-secondary'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    className="text-text-tertiary text-sm hover:text-text-primary whitespace-nowrap"
+                    title="所有部件使用相同的方式"
+                    onClick={() => setSlotMode(selectedAssignment.mode || 'override', true)}
+                  >
+                    应用到全部
+                  </button>
+                </div>
+              )}
+
+              {/* 材质变体 - 模型文件中定义的变体和保存在模型上的变体 */}
+              {currentModel && (
+                <MaterialVariantList
+                  presetNames={variantPresets?.names || []}
+                  savedVariants={savedVariants}
+                  canSave={modelSlots.length > 0}
+                  onApplyPreset={applyVariantPreset}
+                  onApplySaved={applySavedVariant}
+                  onSave={saveCurrentVariant}
+                  onDelete={(variantId) => updateSavedVariants(variants => variants.filter(variant => variant.id !== variantId))}
+                />
+              )}
 
               {/* Material Type Tabs */}
               <Tabs defaultValue="standard" className="w-full flex-1 flex flex-col">
@@ -928,31 +1520,17 @@ export const Screen = (): JSX.Element => {
                       {materials.map((material) => (
                         <div
                           key={material.id}
-                          className={`flex w-[calc(33.33%-6px)] h-[60px] items-center gap-1 p-2.5 relative bg-container rounded-lg overflow-hidden ${material.id === selectedMaterialId ? "border border-solid border-border-emphasis" : ""}`}
+                          className={`flex w-[calc(33.33%-6px)] h-[60px] items-center gap-1 p-2.5 relative bg-container rounded-lg overflow-hidden ${material.id === currentMaterialId ? "border border-solid border-border-emphasis" : ""}`}
                           onClick={() => {
-                            // 选中这个材质
-                            setSelectedMaterialId(material.id);
-                            setCustomColor(material.color);
-                            setCustomRoughness(material.roughness);
-                            setCustomMetallic(material.metallic);
-
-                            // 应用到当前选中的模型材质部分
-                            if (selectedModelMaterialIndex !== undefined && selectedModelMaterialIndex >= 0) {
-                              const updatedModelMaterials = [...modelMaterials];
-                              updatedModelMaterials[selectedModelMaterialIndex] = {
-                                ...updatedModelMaterials[selectedModelMaterialIndex],
-                                materialId: material.id
-                              };
-                              setModelMaterials(updatedModelMaterials);
-                            }
+                            // 应用到当前选中的模型部件
+                            applyLibraryMaterial(material);
                           }}
                         >
                           <div className="relative flex-1 self-stretch grow cursor-pointer flex items-center justify-center p-1" title={`点击应用: ${material.name}`}>
                             <MaterialThumbnail 
-                              color={material.color}
-                              roughness={material.roughness}
-                              metallic={material.metallic}
+                              material={material}
                               size={40}
+                              environment={environmentLighting}
                             />
                           </div>
                         </div>
@@ -968,13 +1546,13 @@ export const Screen = (): JSX.Element => {
                     <div className="flex gap-sm w-full">
                       <input
                         type="color"
-                        value={customColor}
-                        onChange={(e) => setCustomColor(e.target.value)}
+                        value={currentAppearance.color}
+                        onChange={(e) => updateCurrentAppearance({ color: e.target.value })}
                         className="w-8 h-8 bg-input-bg rounded-lg border-0 cursor-pointer [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:border-none flex-shrink-0"
                       />
                       <Input
-                        value={customColor.toUpperCase()}
-                        onChange={(e) => setCustomColor(e.target.value)}
+                        value={currentAppearance.color.toUpperCase()}
+                        onChange={(e) => updateCurrentAppearance({ color: e.target.value })}
                         className="flex-1 min-w-0 h-8 px-sm py-1.5 bg-input-bg text-text-primary text-base font-medium leading-normal border-0 rounded-lg focus-visible:ring-0 focus-visible:ring-offset-0 uppercase"
                       />
                     </div>
@@ -984,15 +1562,15 @@ export const Screen = (): JSX.Element => {
                   <div className="space-y-sm w-full">
                     <div className="flex justify-between w-full">
                       <label className="text-text-secondary text-base font-medium leading-normal">粗糙度</label>
-                      <span className="text-text-tertiary text-base font-medium leading-normal">{customRoughness}</span>
+                      <span className="text-text-tertiary text-base font-medium leading-normal">{currentAppearance.roughness}</span>
                     </div>
                     <input
                       type="range"
                       min="0"
                       max="1"
                       step="0.01"
-                      value={customRoughness}
-                      onChange={(e) => setCustomRoughness(parseFloat(e.target.value))}
+                      value={currentAppearance.roughness}
+                      onChange={(e) => updateCurrentAppearance({ roughness: parseFloat(e.target.value) })}
                       className="w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary"
                     />
                   </div>
@@ -1001,18 +1579,37 @@ export const Screen = (): JSX.Element => {
                   <div className="space-y-sm w-full">
                     <div className="flex justify-between w-full">
                       <label className="text-text-secondary text-base font-medium leading-normal">金属度</label>
-                      <span className="text-text-tertiary text-base font-medium leading-normal">{customMetallic}</span>
+                      <span className="text-text-tertiary text-base font-medium leading-normal">{currentAppearance.metallic}</span>
                     </div>
                     <input
                       type="range"
                       min="0"
                       max="1"
                       step="0.01"
-                      value={customMetallic}
-                      onChange={(e) => setCustomMetallic(parseFloat(e.target.value))}
+                      value={currentAppearance.metallic}
+                      onChange={(e) => updateCurrentAppearance({ metallic: parseFloat(e.target.value) })}
                       className="w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary"
                     />
                   </div>
+
+                  {/* Physical Material Sliders - 清漆、透射、折射率、绒面和不透明度 */}
+                  {PHYSICAL_MATERIAL_FIELDS.map(({ key, label, min, max, step, defaultValue }) => (
+                    <div key={key} className="space-y-sm w-full">
+                      <div className="flex justify-between w-full">
+                        <label className="text-text-secondary text-base font-medium leading-normal">{label}</label>
+                        <span className="text-text-tertiary text-base font-medium leading-normal">{currentAppearance[key] ?? defaultValue}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={currentAppearance[key] ?? defaultValue}
+                        onChange={(e) => updateCurrentAppearance({ [key]: parseFloat(e.target.value) })}
+                        className="w-full h-1 bg-container-hover rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-text-primary"
+                      />
+                    </div>
+                  ))}
                 </TabsContent>
               </Tabs>
             </div>
@@ -1030,6 +1627,54 @@ export const Screen = (): JSX.Element => {
           }}
         />
       )}
+
+      {/* 转台动画导出 */}
+      {showTurntableExport && (
+        <TurntableExportDialog
+          animationDuration={modelViewerRef.current?.getAnimationPlayer()?.getState().duration}
+          onExport={(options, onProgress, signal) => modelViewerRef.current
+            ? modelViewerRef.current.exportTurntable(options, onProgress, signal)
+            : Promise.reject(new Error('模型尚未加载'))}
+          onClose={() => setShowTurntableExport(false)}
+        />
+      )}
+
+      {/* 图片导出 */}
+      {imageExportAspect !== null && (
+        <ImageExportDialog
+          viewAspect={imageExportAspect}
+          animationDuration={modelViewerRef.current?.getAnimationPlayer()?.getState().duration}
+          onExport={(options) => modelViewerRef.current
+            ? modelViewerRef.current.captureImage(options)
+            : Promise.reject(new Error('模型尚未加载'))}
+          viewpointCount={savedViewpoints.length}
+          onExportViewpoints={(options, onProgress) => modelViewerRef.current
+            ? modelViewerRef.current.captureViewpoints(options, savedViewpoints, onProgress)
+            : Promise.reject(new Error('模型尚未加载'))}
+          onClose={() => setImageExportAspect(null)}
+        />
+      )}
+
+      {/* 模型文件导出 */}
+      {showModelExport && currentModel && (
+        <ModelExportDialog
+          modelName={currentModel.name}
+          onExport={(options) => modelViewerRef.current
+            ? modelViewerRef.current.exportModel(options)
+            : Promise.reject(new Error('模型尚未加载'))}
+          onClose={() => setShowModelExport(false)}
+        />
+      )}
+
+      {/* 模型校验报告 */}
+      {validationReview && (
+        <ValidationReportDialog
+          report={validationReview.report}
+          blocked={validationReview.blocked}
+          onConfirm={() => closeValidationReview(true)}
+          onCancel={() => closeValidationReview(false)}
+        />
+      )}
     </main>
   );
 };
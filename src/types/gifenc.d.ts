@@ -0,0 +1,47 @@
+// gifenc 没有自带类型声明，这里只声明用到的接口
+
+declare module 'gifenc' {
+  // 像素格式：不透明使用 rgb565/rgb444，需要透明度时使用 rgba4444
+  export type GifPixelFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export type GifPalette = number[][];
+
+  export type QuantizeOptions = {
+    format?: GifPixelFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  };
+
+  export type WriteFrameOptions = {
+    palette?: GifPalette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number;   // 帧间隔（毫秒）
+    repeat?: number;  // 0 为无限循环
+    dispose?: number;
+  };
+
+  export type GifEncoder = {
+    writeFrame: (index: Uint8Array, width: number, height: number, options?: WriteFrameOptions) => void;
+    finish: () => void;
+    bytes: () => Uint8Array;
+    bytesView: () => Uint8Array;
+  };
+
+  export const GIFEncoder: (options?: { auto?: boolean; initialCapacity?: number }) => GifEncoder;
+
+  export const quantize: (
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: QuantizeOptions
+  ) => GifPalette;
+
+  export const applyPalette: (
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: GifPalette,
+    format?: GifPixelFormat
+  ) => Uint8Array;
+}
@@ -0,0 +1,62 @@
+// gltf-validator 没有自带类型声明，这里只声明用到的接口
+
+declare module 'gltf-validator' {
+  // 问题严重程度：0 错误、1 警告、2 信息、3 提示
+  export type ValidatorSeverity = 0 | 1 | 2 | 3;
+
+  export type ValidatorMessage = {
+    code: string;
+    message: string;
+    severity: ValidatorSeverity;
+    pointer?: string;
+    offset?: number;
+  };
+
+  export type ValidatorResource = {
+    pointer: string;
+    mimeType?: string;
+    storage: string;
+    uri?: string;
+    byteLength?: number;
+    image?: {
+      width: number;
+      height: number;
+      format?: string;
+    };
+  };
+
+  export type ValidatorReport = {
+    issues: {
+      numErrors: number;
+      numWarnings: number;
+      numInfos: number;
+      numHints: number;
+      messages: ValidatorMessage[];
+      truncated: boolean;
+    };
+    info?: {
+      version?: string;
+      generator?: string;
+      extensionsUsed?: string[];
+      extensionsRequired?: string[];
+      resources?: ValidatorResource[];
+      animationCount?: number;
+      totalVertexCount?: number;
+      totalTriangleCount?: number;
+    };
+  };
+
+  export type ValidationOptions = {
+    uri?: string;
+    format?: 'glb' | 'gltf';
+    externalResourceFunction?: (uri: string) => Promise<Uint8Array>;
+    writeTimestamp?: boolean;
+    maxIssues?: number;
+    ignoredIssues?: string[];
+    onlyIssues?: string[];
+    severityOverrides?: Record<string, ValidatorSeverity>;
+  };
+
+  export function validateBytes(data: Uint8Array, options?: ValidationOptions): Promise<ValidatorReport>;
+  export function version(): string;
+}
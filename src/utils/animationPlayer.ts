@@ -0,0 +1,201 @@
+/**
+ * 模型动画播放器
+ * 基于 AnimationMixer 播放模型自带的动画片段，播放时间由播放器自己推进，
+ * 每帧把时间写入动作后应用姿态，便于暂停、拖动时间轴和导出指定帧
+ */
+
+import * as THREE from 'three';
+
+// 循环方式：repeat 循环播放，pingpong 往返播放，once 播放一次后停在最后一帧
+export type AnimationLoopMode = 'repeat' | 'pingpong' | 'once';
+
+// 动画片段信息
+export type AnimationClipInfo = {
+  name: string;
+  duration: number;   // 时长（秒）
+};
+
+// 播放器状态
+export type AnimationPlayerState = {
+  clipIndex: number;
+  playing: boolean;
+  time: number;       // 当前时间（秒）
+  duration: number;   // 当前片段时长（秒）
+  loopMode: AnimationLoopMode;
+  speed: number;
+};
+
+// 导出时使用的动画帧
+export type AnimationFrameOptions = {
+  animationTime?: number | null;  // 动画时间（秒），null 或不设置时使用当前画面的姿态
+};
+
+export type AnimationPlayer = {
+  clips: AnimationClipInfo[];
+  getState: () => AnimationPlayerState;
+  subscribe: (listener: (state: AnimationPlayerState) => void) => () => void;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setClip: (index: number) => void;
+  setLoopMode: (loopMode: AnimationLoopMode) => void;
+  setSpeed: (speed: number) => void;
+  update: (delta: number) => void;
+  dispose: () => void;
+};
+
+// 各循环方式的名称
+export const ANIMATION_LOOP_MODES: Record<AnimationLoopMode, string> = {
+  repeat: '循环',
+  pingpong: '往返',
+  once: '单次'
+};
+
+// 可选的播放速度
+export const ANIMATION_SPEED_OPTIONS = [0.25, 0.5, 1, 1.5, 2];
+
+/**
+ * 创建动画播放器，默认选中第一个片段并开始循环播放
+ * @param root 动画绑定的模型场景
+ * @param clips 动画片段
+ * @returns 播放器
+ */
+export const createAnimationPlayer = (root: THREE.Object3D, clips: THREE.AnimationClip[]): AnimationPlayer => {
+  const mixer = new THREE.AnimationMixer(root);
+  const listeners = new Set<(state: AnimationPlayerState) => void>();
+  let action: THREE.AnimationAction | null = null;
+  // 往返播放时的方向，1 为正向，-1 为反向
+  let direction = 1;
+  let state: AnimationPlayerState = {
+    clipIndex: 0,
+    playing: false,
+    time: 0,
+    duration: 0,
+    loopMode: 'repeat',
+    speed: 1
+  };
+
+  // 更新状态并通知订阅者
+  const setState = (changes: Partial<AnimationPlayerState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  // 将时间写入动作并立即应用姿态，动作始终处于暂停状态，由播放器推进时间
+  const applyTime = (time: number) => {
+    if (!action) return;
+    action.time = time;
+    mixer.update(0);
+  };
+
+  const setClip = (index: number) => {
+    const clip = clips[index];
+    if (!clip) return;
+
+    mixer.stopAllAction();
+    action = mixer.clipAction(clip);
+    action.play();
+    action.paused = true;
+    direction = 1;
+    applyTime(0);
+    setState({ clipIndex: index, time: 0, duration: clip.duration });
+  };
+
+  const seek = (time: number) => {
+    const clampedTime = THREE.MathUtils.clamp(time, 0, state.duration);
+    applyTime(clampedTime);
+    setState({ time: clampedTime });
+  };
+
+  const play = () => {
+    // 单次播放已经结束时从头开始
+    if (state.loopMode === 'once' && state.time >= state.duration) {
+      seek(0);
+    }
+    setState({ playing: true });
+  };
+
+  const update = (delta: number) => {
+    if (!state.playing || !action || state.duration <= 0) return;
+
+    const { duration, loopMode } = state;
+    let time = state.time + delta * state.speed * direction;
+    let playing = true;
+
+    if (loopMode === 'repeat') {
+      time = ((time % duration) + duration) % duration;
+    } else if (loopMode === 'once') {
+      if (time >= duration) {
+        time = duration;
+        playing = false;
+      }
+    } else if (time >= duration) {
+      time = 2 * duration - time;
+      direction = -1;
+    } else if (time <= 0) {
+      time = -time;
+      direction = 1;
+    }
+
+    time = THREE.MathUtils.clamp(time, 0, duration);
+    applyTime(time);
+    setState({ time, playing });
+  };
+
+  const player: AnimationPlayer = {
+    clips: clips.map(clip => ({ name: clip.name, duration: clip.duration })),
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    play,
+    pause: () => setState({ playing: false }),
+    seek,
+    setClip,
+    setLoopMode: (loopMode) => {
+      direction = 1;
+      setState({ loopMode });
+    },
+    setSpeed: (speed) => setState({ speed }),
+    update,
+    dispose: () => {
+      listeners.clear();
+      mixer.stopAllAction();
+      mixer.uncacheRoot(root);
+    }
+  };
+
+  setClip(0);
+  play();
+  return player;
+};
+
+/**
+ * 在指定的动画帧上执行导出，完成后恢复原来的播放时间和播放状态
+ * @param player 动画播放器，模型没有动画时为null
+ * @param animationTime 动画时间（秒），null 或不设置时直接使用当前姿态
+ * @param task 导出任务
+ * @returns 导出结果
+ */
+export const withAnimationFrame = async <T>(
+  player: AnimationPlayer | null,
+  animationTime: number | null | undefined,
+  task: () => Promise<T>
+): Promise<T> => {
+  if (!player || animationTime === null || animationTime === undefined) {
+    return task();
+  }
+
+  const { time, playing } = player.getState();
+  player.pause();
+  player.seek(animationTime);
+  try {
+    return await task();
+  } finally {
+    player.seek(time);
+    if (playing) player.play();
+  }
+};
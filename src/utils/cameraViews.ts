@@ -0,0 +1,103 @@
+/**
+ * 相机视角
+ * 标准视角（前、后、左、右、顶、等轴）的相机位置，以及切换视角时的平滑过渡
+ * 过渡时观察目标直线移动，相机围绕目标按球坐标插值，避免穿过模型
+ */
+
+import * as THREE from 'three';
+
+// 标准视角
+export type CameraViewPreset = 'front' | 'back' | 'left' | 'right' | 'top' | 'isometric';
+
+// 相机位置和观察目标（世界坐标）
+export type CameraPose = {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+};
+
+// 视角切换的过渡动画
+export type CameraTransition = {
+  // 推进动画，返回动画是否已结束
+  update: (delta: number) => boolean;
+};
+
+// 各标准视角的名称和相机相对观察目标的方向
+export const CAMERA_VIEW_PRESETS: Record<CameraViewPreset, { label: string; direction: [number, number, number] }> = {
+  front: { label: '前', direction: [0, 0, 1] },
+  back: { label: '后', direction: [0, 0, -1] },
+  left: { label: '左', direction: [-1, 0, 0] },
+  right: { label: '右', direction: [1, 0, 0] },
+  top: { label: '顶', direction: [0, 1, 0] },
+  isometric: { label: '等轴', direction: [1, 1, 1] }
+};
+
+// 视角切换的时长（秒）
+const TRANSITION_DURATION = 0.6;
+
+/**
+ * 缓入缓出的三次曲线
+ * @param t 进度 0-1
+ * @returns 缓动后的进度
+ */
+const easeInOutCubic = (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/**
+ * 计算标准视角的相机位置
+ * @param preset 标准视角
+ * @param target 观察目标
+ * @param distance 相机与观察目标的距离
+ * @returns 相机位置和观察目标
+ */
+export const getPresetPose = (preset: CameraViewPreset, target: THREE.Vector3, distance: number): CameraPose => {
+  const direction = new THREE.Vector3(...CAMERA_VIEW_PRESETS[preset].direction).normalize();
+  return {
+    position: target.clone().addScaledVector(direction, distance),
+    target: target.clone()
+  };
+};
+
+/**
+ * 创建视角切换的过渡动画，每次推进时直接修改相机位置和观察目标
+ * @param camera 相机
+ * @param target 当前的观察目标（例如轨道控制器的 target，会被原地修改）
+ * @param to 目标视角
+ * @param duration 时长（秒）
+ * @returns 过渡动画
+ */
+export const createCameraTransition = (
+  camera: THREE.Camera,
+  target: THREE.Vector3,
+  to: CameraPose,
+  duration = TRANSITION_DURATION
+): CameraTransition => {
+  const fromTarget = target.clone();
+  const from = new THREE.Spherical().setFromVector3(camera.position.clone().sub(target)).makeSafe();
+  const end = new THREE.Spherical().setFromVector3(to.position.clone().sub(to.target)).makeSafe();
+
+  // 方位角沿较短的方向旋转
+  let thetaDelta = end.theta - from.theta;
+  if (thetaDelta > Math.PI) thetaDelta -= Math.PI * 2;
+  if (thetaDelta < -Math.PI) thetaDelta += Math.PI * 2;
+
+  const current = new THREE.Spherical();
+  let elapsed = 0;
+
+  return {
+    update: (delta) => {
+      elapsed += delta;
+      const progress = duration > 0 ? Math.min(1, elapsed / duration) : 1;
+      const t = easeInOutCubic(progress);
+
+      target.lerpVectors(fromTarget, to.target, t);
+      current.set(
+        THREE.MathUtils.lerp(from.radius, end.radius, t),
+        THREE.MathUtils.lerp(from.phi, end.phi, t),
+        from.theta + thetaDelta * t
+      );
+      camera.position.setFromSpherical(current).add(target);
+      camera.lookAt(target);
+
+      return progress >= 1;
+    }
+  };
+};
@@ -3,6 +3,8 @@
  * 用于替代之前的Supabase存储桶功能
  */
 
+import bucketConfig from '../config/storageBuckets.json';
+
 /**
  * 生成唯一文件名
  * @param fileName 原始文件名
@@ -29,6 +31,151 @@ export const releaseFileFromMemory = (url: string): void => {
   URL.revokeObjectURL(url);
 };
 
+// IndexedDB 文件数据库配置
+const FILE_DB_NAME = 'huitong3d_files';
+const FILE_DB_VERSION = 1;
+const FILE_STORE_NAME = 'files';
+
+// 持久化文件引用前缀，模型记录中以 idb://<key> 的形式保存文件路径
+export const STORED_FILE_PREFIX = 'idb://';
+
+// IndexedDB 中保存的文件记录
+type StoredFileRecord = {
+  key: string;
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+  created_at: string;
+};
+
+// 已恢复的对象URL缓存，键为文件引用
+const storedFileUrls = new Map<string, string>();
+
+// 数据库连接，只打开一次
+let fileDatabasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开文件数据库
+ * @returns 数据库连接
+ */
+const openFileDatabase = (): Promise<IDBDatabase> => {
+  if (!fileDatabasePromise) {
+    fileDatabasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(FILE_DB_NAME, FILE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FILE_STORE_NAME)) {
+          db.createObjectStore(FILE_STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        fileDatabasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return fileDatabasePromise;
+};
+
+/**
+ * 在文件存储上执行一次请求
+ * @param mode 事务模式
+ * @param operation 创建请求的函数
+ * @returns 请求结果
+ */
+const runFileRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openFileDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FILE_STORE_NAME, mode);
+    const request = operation(transaction.objectStore(FILE_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 判断路径是否为持久化文件引用
+ * @param path 文件路径
+ * @returns 是否为 idb:// 引用
+ */
+export const isStoredFileRef = (path: string | null | undefined): boolean => {
+  return !!path && path.startsWith(STORED_FILE_PREFIX);
+};
+
+/**
+ * 保存文件到 IndexedDB，页面刷新后仍可恢复
+ * @param file 文件对象
+ * @param fileName 文件名，默认使用文件对象的名称
+ * @returns 文件引用（idb://<key>）
+ */
+export const saveFileToStorage = async (file: File | Blob, fileName?: string): Promise<string> => {
+  const name = fileName || (file instanceof File ? file.name : 'file');
+  const key = generateUniqueFileName(name);
+  const record: StoredFileRecord = {
+    key,
+    name,
+    type: file.type,
+    size: file.size,
+    blob: file,
+    created_at: new Date().toISOString()
+  };
+
+  await runFileRequest('readwrite', store => store.put(record));
+
+  const ref = `${STORED_FILE_PREFIX}${key}`;
+  storedFileUrls.set(ref, URL.createObjectURL(file));
+  return ref;
+};
+
+/**
+ * 获取持久化文件的对象URL，首次访问时从 IndexedDB 读取文件并创建URL
+ * @param ref 文件引用
+ * @returns 对象URL，文件不存在时返回null
+ */
+export const getStoredFileUrl = async (ref: string): Promise<string | null> => {
+  const cachedUrl = storedFileUrls.get(ref);
+  if (cachedUrl) return cachedUrl;
+
+  const key = ref.substring(STORED_FILE_PREFIX.length);
+  const record = await runFileRequest<StoredFileRecord | undefined>('readonly', store => store.get(key));
+  if (!record) return null;
+
+  const url = URL.createObjectURL(record.blob);
+  storedFileUrls.set(ref, url);
+  return url;
+};
+
+/**
+ * 启动时恢复持久化文件的对象URL
+ * @param refs 文件引用数组
+ * @returns 成功恢复的文件数量
+ */
+export const rehydrateStoredFiles = async (refs: string[]): Promise<number> => {
+  const results = await Promise.allSettled(refs.map(ref => getStoredFileUrl(ref)));
+  return results.filter(result => result.status === 'fulfilled' && result.value).length;
+};
+
+/**
+ * 删除持久化文件并释放对应的对象URL
+ * @param ref 文件引用
+ */
+export const deleteStoredFile = async (ref: string): Promise<void> => {
+  const cachedUrl = storedFileUrls.get(ref);
+  if (cachedUrl) {
+    URL.revokeObjectURL(cachedUrl);
+    storedFileUrls.delete(ref);
+  }
+
+  const key = ref.substring(STORED_FILE_PREFIX.length);
+  await runFileRequest('readwrite', store => store.delete(key));
+};
+
 /**
  * 检查文件类型是否允许
  * @param file 文件对象
@@ -61,21 +208,15 @@ export type StorageBucket = {
   allowedMimeTypes: string[];
 };
 
-// 预定义的存储桶
-const buckets: Record<string, StorageBucket> = {
-  models: {
-    name: 'models',
-    isPublic: true,
-    fileSizeLimit: 50 * 1024 * 1024, // 50MB
-    allowedMimeTypes: ['model/gltf-binary', 'model/gltf+json', 'application/octet-stream', '.glb', '.gltf', '.obj', '.fbx']
-  },
-  thumbnails: {
-    name: 'thumbnails',
-    isPublic: true,
-    fileSizeLimit: 5 * 1024 * 1024, // 5MB
-    allowedMimeTypes: ['image/png', 'image/jpeg', '.png', '.jpg', '.jpeg']
-  }
-};
+// 预定义的存储桶，配置与本地后端服务器（server/index.js）共享
+const buckets: Record<string, StorageBucket> = Object.fromEntries(
+  Object.entries(bucketConfig).map(([key, config]) => [key, {
+    name: config.name,
+    isPublic: config.isPublic,
+    fileSizeLimit: config.fileSizeLimitMB * 1024 * 1024,
+    allowedMimeTypes: config.allowedMimeTypes
+  }])
+);
 
 /**
  * 获取存储桶配置
@@ -0,0 +1,39 @@
+/**
+ * GLTF 加载器工厂
+ * 统一配置 Meshopt 和 Draco 解码器，上传时优化压缩过的模型也能正常加载
+ */
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+
+// Draco 解码器地址（与 drei 默认使用的版本一致）
+const DRACO_DECODER_PATH = 'https://www.gstatic.com/draco/versioned/decoders/1.5.5/';
+
+// Draco 解码器会启动 Web Worker，所有加载器共享一个实例
+let dracoLoader: DRACOLoader | null = null;
+
+/**
+ * 获取共享的 Draco 加载器
+ * @returns Draco 加载器
+ */
+const getDracoLoader = (): DRACOLoader => {
+  if (!dracoLoader) {
+    dracoLoader = new DRACOLoader();
+    dracoLoader.setDecoderPath(DRACO_DECODER_PATH);
+  }
+  return dracoLoader;
+};
+
+/**
+ * 创建配置好解码器的 GLTF 加载器
+ * @param manager 加载管理器，可选
+ * @returns GLTF 加载器
+ */
+export const createGLTFLoader = (manager?: THREE.LoadingManager): GLTFLoader => {
+  const loader = new GLTFLoader(manager);
+  loader.setDRACOLoader(getDracoLoader());
+  loader.setMeshoptDecoder(MeshoptDecoder);
+  return loader;
+};
@@ -3,8 +3,7 @@
  * 用于缓存缩略图URL，避免重复加载
  */
 
-// 缓存键前缀
-const CACHE_PREFIX = 'huitong3d_img_cache_';
+import { storage } from '../lib/storage';
 
 // 内存缓存，用于快速访问
 const memoryCache: Record<string, string> = {};
@@ -14,15 +13,15 @@ const memoryCache: Record<string, string> = {};
  * @param key 缓存键，通常是模型ID
  * @returns 缓存的图片URL，如果没有缓存则返回null
  */
-export const getCachedImageUrl = (key: string): string | null => {
+export const getCachedImageUrl = async (key: string): Promise<string | null> => {
   // 首先检查内存缓存
   if (memoryCache[key]) {
     return memoryCache[key];
   }
 
-  // 然后检查localStorage
+  // 然后检查存储后端的缓存
   try {
-    const cachedUrl = localStorage.getItem(`${CACHE_PREFIX}${key}`);
+    const cachedUrl = await storage.cache.get(key);
     if (cachedUrl) {
       // 更新内存缓存
       memoryCache[key] = cachedUrl;
@@ -40,13 +39,13 @@ export const getCachedImageUrl = (key: string): string | null => {
  * @param key 缓存键，通常是模型ID
  * @param url 图片URL
  */
-export const cacheImageUrl = (key: string, url: string): void => {
+export const cacheImageUrl = async (key: string, url: string): Promise<void> => {
   // 更新内存缓存
   memoryCache[key] = url;
 
-  // 更新localStorage
+  // 更新存储后端的缓存
   try {
-    localStorage.setItem(`${CACHE_PREFIX}${key}`, url);
+    await storage.cache.set(key, url);
   } catch (error) {
     console.warn('保存图片缓存失败:', error);
   }
@@ -56,13 +55,13 @@ export const cacheImageUrl = (key: string, url: string): void => {
  * 清除指定键的图片缓存
  * @param key 缓存键，通常是模型ID
  */
-export const clearImageCache = (key: string): void => {
+export const clearImageCache = async (key: string): Promise<void> => {
   // 清除内存缓存
   delete memoryCache[key];
 
-  // 清除localStorage
+  // 清除存储后端的缓存
   try {
-    localStorage.removeItem(`${CACHE_PREFIX}${key}`);
+    await storage.cache.remove(key);
   } catch (error) {
     console.warn('清除图片缓存失败:', error);
   }
@@ -71,24 +70,15 @@ export const clearImageCache = (key: string): void => {
 /**
  * 清除所有图片缓存
  */
-export const clearAllImageCache = (): void => {
+export const clearAllImageCache = async (): Promise<void> => {
   // 清除内存缓存
   Object.keys(memoryCache).forEach(key => {
     delete memoryCache[key];
   });
 
-  // 清除localStorage中的所有图片缓存
+  // 清除存储后端中的所有图片缓存
   try {
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(CACHE_PREFIX)) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => {
-      localStorage.removeItem(key);
-    });
+    await storage.cache.clear();
   } catch (error) {
     console.warn('清除所有图片缓存失败:', error);
   }
@@ -0,0 +1,172 @@
+/**
+ * 模型图片导出
+ * 使用模型渲染服务按任意分辨率渲染查看器中的模型，支持超采样、透明或纯色背景，
+ * 可以沿用查看器的当前视角，也可以按当前观察角度自动取景；
+ * 也可以按模型上保存的各个视角批量渲染，打包为 ZIP
+ */
+
+import * as THREE from 'three';
+import { zip } from 'fflate';
+import { getCameraAngle, renderObjectImageBlob, type RenderCameraView, type RenderOptions } from './renderService';
+import { type EnvironmentLighting } from './sceneEnvironment';
+import { type LightingRig } from '../lib/lightingStorage';
+import { type StageSettings } from '../lib/stageStorage';
+import { type PostProcessingSettings } from '../lib/postProcessingStorage';
+
+// 取景方式：match-view 与查看器画面一致，auto-fit 保持观察角度、模型自动居中充满画面
+export type ImageFraming = 'match-view' | 'auto-fit';
+
+// 图片导出参数
+export type ImageExportOptions = {
+  width: number;               // 图片宽度（像素）
+  height: number;              // 图片高度（像素）
+  background: string | null;   // 背景颜色，null 为透明背景
+  supersample: number;         // 超采样倍数，1 为不超采样
+  framing: ImageFraming;
+  environment?: EnvironmentLighting | null;  // 环境光照，默认使用渲染服务的摄影棚环境
+  lighting?: LightingRig;                    // 灯光方案，默认使用默认方案
+  stage?: StageSettings | null;              // 展台设置，默认不显示地面和展台
+  postProcessing?: PostProcessingSettings | null;  // 色调映射和后期效果，默认无后期效果
+};
+
+// 批量导出的视角，相机位置和观察目标使用世界坐标
+export type ImageViewpoint = RenderCameraView & {
+  name: string;
+};
+
+// 图片的最大边长（8K）
+export const MAX_IMAGE_SIZE = 8192;
+
+// 可选的超采样倍数
+export const SUPERSAMPLE_OPTIONS = [1, 2, 4];
+
+// 各取景方式的名称
+export const IMAGE_FRAMINGS: Record<ImageFraming, string> = {
+  'match-view': '与当前画面一致',
+  'auto-fit': '自动取景'
+};
+
+// 快速导出（复制图片）使用的参数，高度按画面宽高比计算
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  width: 2400,
+  height: 2400,
+  background: null,
+  supersample: 1,
+  framing: 'match-view'
+};
+
+/**
+ * 按宽高比计算图片尺寸，长边超过最大边长时等比缩小
+ * @param width 期望的宽度
+ * @param aspect 宽高比
+ * @returns 图片宽高
+ */
+export const getImageSize = (width: number, aspect: number): { width: number; height: number } => {
+  const scale = Math.min(1, MAX_IMAGE_SIZE / width, (MAX_IMAGE_SIZE * aspect) / width);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round((width * scale) / aspect))
+  };
+};
+
+/**
+ * 校验图片尺寸
+ * @param options 导出参数
+ * @returns 取整后的宽高
+ */
+const validateImageSize = (options: ImageExportOptions): { width: number; height: number } => {
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  if (!(width >= 1 && height >= 1)) {
+    throw new Error('图片尺寸无效');
+  }
+  if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
+    throw new Error(`图片边长不能超过 ${MAX_IMAGE_SIZE} 像素`);
+  }
+  return { width, height };
+};
+
+/**
+ * 生成渲染参数
+ * 与当前画面一致时使用指定的相机位置和观察目标，自动取景时只使用观察角度
+ * @param options 导出参数
+ * @param fov 相机垂直视角（度）
+ * @param view 相机位置和观察目标
+ * @returns 渲染参数
+ */
+const getRenderOptions = (options: ImageExportOptions, fov: number, view: RenderCameraView): RenderOptions => {
+  const { width, height } = validateImageSize(options);
+  const camera = new THREE.PerspectiveCamera(fov);
+  camera.position.copy(view.position);
+
+  return {
+    width,
+    height,
+    supersample: options.supersample,
+    background: options.background,
+    fov,
+    ...(options.environment !== undefined ? { environment: options.environment } : {}),
+    ...(options.lighting ? { lighting: options.lighting } : {}),
+    ...(options.stage ? { stage: options.stage } : {}),
+    ...(options.postProcessing ? { postProcessing: options.postProcessing } : {}),
+    ...(options.framing === 'match-view'
+      ? { cameraView: { position: view.position.clone(), target: view.target.clone() } }
+      : { cameraAngle: getCameraAngle(camera, view.target) })
+  };
+};
+
+/**
+ * 将查看器中的模型导出为 PNG 图片
+ * 与当前画面一致时使用查看器相机的位置和视角，宽高比与画面不同时保持垂直视角不变
+ * @param object 要渲染的模型对象（使用当前材质）
+ * @param camera 查看器相机
+ * @param target 相机的观察目标
+ * @param options 导出参数
+ * @returns PNG 图片数据
+ */
+export const exportImage = async (
+  object: THREE.Object3D,
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3,
+  options: ImageExportOptions
+): Promise<Blob> => {
+  const view = { position: camera.getWorldPosition(new THREE.Vector3()), target };
+  return renderObjectImageBlob(object, getRenderOptions(options, camera.fov, view));
+};
+
+/**
+ * 按多个视角依次渲染模型，所有图片打包为 ZIP，文件名为序号和视角名称
+ * @param object 要渲染的模型对象（使用当前材质）
+ * @param fov 相机垂直视角（度）
+ * @param viewpoints 各视角
+ * @param options 导出参数
+ * @param onProgress 进度回调，参数为 0-1
+ * @returns ZIP 文件数据
+ */
+export const exportViewpointImages = async (
+  object: THREE.Object3D,
+  fov: number,
+  viewpoints: ImageViewpoint[],
+  options: ImageExportOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  if (viewpoints.length === 0) {
+    throw new Error('没有可导出的视角');
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  for (let index = 0; index < viewpoints.length; index++) {
+    const viewpoint = viewpoints[index];
+    const blob = await renderObjectImageBlob(object, getRenderOptions(options, fov, viewpoint));
+    // 去掉文件名中不允许的字符
+    const name = viewpoint.name.replace(/[\\/:*?"<>|]/g, '_');
+    files[`${String(index + 1).padStart(2, '0')}_${name}.png`] = new Uint8Array(await blob.arrayBuffer());
+    onProgress?.((index + 1) / viewpoints.length);
+  }
+
+  // PNG 已经压缩过，打包时不再压缩
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+  return new Blob([data], { type: 'application/zip' });
+};
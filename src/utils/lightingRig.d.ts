@@ -0,0 +1,13 @@
+// lightingRig.js 的类型声明（实现使用 JavaScript，与批量渲染脚本共用）
+
+import * as THREE from 'three';
+import { type LightingRig } from '../lib/lightingStorage';
+
+// 将色温（K）转换为灯光颜色
+export declare const colorTemperatureToColor: (kelvin: number) => THREE.Color;
+
+// 按灯光方案创建场景灯光，返回包含所有灯光的组
+export declare const createLightingRigObject: (rig: LightingRig) => THREE.Group;
+
+// 释放灯光方案的阴影贴图
+export declare const disposeLightingRigObject: (group: THREE.Group) => void;
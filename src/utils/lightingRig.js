@@ -0,0 +1,127 @@
+/**
+ * 灯光方案
+ * 按灯光方案创建场景灯光，查看器、渲染服务和批量渲染脚本（scripts/render-catalog）共用，
+ * 保证实时画面和导出图片的光照一致。批量渲染脚本直接在 Node 中加载，因此使用 JavaScript 编写，
+ * 类型声明见 lightingRig.d.ts
+ */
+
+import * as THREE from 'three';
+
+// 平行光阴影相机的范围，覆盖归一化后的模型和地面附近区域
+const SHADOW_CAMERA_EXTENT = 4;
+
+// 阴影贴图尺寸
+const SHADOW_MAP_SIZE = 2048;
+
+// 聚光灯的照射角度（弧度）
+const SPOT_ANGLE = Math.PI / 5;
+
+// 阴影柔和度为1时的阴影模糊半径
+const MAX_SHADOW_RADIUS = 12;
+
+/**
+ * 将色温转换为灯光颜色（Tanner Helland 近似算法）
+ * @param {number} kelvin 色温（K）
+ * @returns {THREE.Color} 灯光颜色
+ */
+export const colorTemperatureToColor = (kelvin) => {
+  const temperature = THREE.MathUtils.clamp(kelvin, 1000, 40000) / 100;
+
+  const red = temperature <= 66
+    ? 255
+    : 329.698727446 * Math.pow(temperature - 60, -0.1332047592);
+  const green = temperature <= 66
+    ? 99.4708025861 * Math.log(temperature) - 161.1195681661
+    : 288.1221695283 * Math.pow(temperature - 60, -0.0755148492);
+  const blue = temperature >= 66
+    ? 255
+    : temperature <= 19
+      ? 0
+      : 138.5177312231 * Math.log(temperature - 10) - 305.0447927307;
+
+  const clampChannel = (value) => THREE.MathUtils.clamp(value, 0, 255) / 255;
+  return new THREE.Color().setRGB(clampChannel(red), clampChannel(green), clampChannel(blue), THREE.SRGBColorSpace);
+};
+
+/**
+ * 设置灯光阴影，柔和度越高阴影边缘越模糊
+ * @param {THREE.DirectionalLight | THREE.SpotLight | THREE.PointLight} light 灯光
+ * @param {import('../lib/lightingStorage').RigLight} rigLight 灯光参数
+ */
+const setupShadow = (light, rigLight) => {
+  light.castShadow = rigLight.castShadow;
+  if (!rigLight.castShadow) return;
+
+  light.shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+  light.shadow.radius = 1 + rigLight.shadowSoftness * (MAX_SHADOW_RADIUS - 1);
+  light.shadow.bias = -0.0005;
+  light.shadow.normalBias = 0.02;
+
+  if (light instanceof THREE.DirectionalLight) {
+    const camera = light.shadow.camera;
+    camera.left = -SHADOW_CAMERA_EXTENT;
+    camera.right = SHADOW_CAMERA_EXTENT;
+    camera.top = SHADOW_CAMERA_EXTENT;
+    camera.bottom = -SHADOW_CAMERA_EXTENT;
+    camera.near = 0.1;
+    camera.far = light.position.length() + SHADOW_CAMERA_EXTENT * 2;
+  }
+};
+
+/**
+ * 创建单个灯光，平行光和聚光灯朝向原点
+ * @param {import('../lib/lightingStorage').RigLight} rigLight 灯光参数
+ * @returns {THREE.Light} 灯光对象
+ */
+const createLight = (rigLight) => {
+  const color = colorTemperatureToColor(rigLight.colorTemperature);
+  let light;
+
+  if (rigLight.type === 'spot') {
+    // 不随距离衰减，强度与平行光相当
+    light = new THREE.SpotLight(color, rigLight.intensity, 0, SPOT_ANGLE, rigLight.shadowSoftness, 0);
+  } else if (rigLight.type === 'point') {
+    light = new THREE.PointLight(color, rigLight.intensity, 0, 0);
+  } else {
+    light = new THREE.DirectionalLight(color, rigLight.intensity);
+  }
+
+  light.name = rigLight.name;
+  light.position.set(...rigLight.position);
+  setupShadow(light, rigLight);
+  return light;
+};
+
+/**
+ * 按灯光方案创建场景灯光
+ * @param {import('../lib/lightingStorage').LightingRig} rig 灯光方案
+ * @returns {THREE.Group} 包含所有灯光（及平行光、聚光灯目标）的组
+ */
+export const createLightingRigObject = (rig) => {
+  const group = new THREE.Group();
+  group.name = rig.name;
+  group.add(new THREE.AmbientLight(0xffffff, rig.ambientIntensity));
+
+  rig.lights.forEach((rigLight) => {
+    const light = createLight(rigLight);
+    group.add(light);
+    // 目标需要在场景中才会更新世界矩阵
+    if (light instanceof THREE.DirectionalLight || light instanceof THREE.SpotLight) {
+      group.add(light.target);
+    }
+  });
+
+  return group;
+};
+
+/**
+ * 释放灯光方案的阴影贴图
+ * @param {THREE.Group} group createLightingRigObject 创建的组
+ */
+export const disposeLightingRigObject = (group) => {
+  group.traverse((child) => {
+    if (child instanceof THREE.Light) {
+      child.dispose();
+    }
+  });
+};
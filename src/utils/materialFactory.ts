@@ -0,0 +1,218 @@
+/**
+ * 材质构建工具
+ * 根据材质数据创建 Three.js 材质，供模型查看器和材质预览共用
+ */
+
+import * as THREE from 'three';
+import { PHYSICAL_MATERIAL_FIELDS, type MaterialAppearance, type MaterialTextureMaps } from '../lib/materialStorage';
+import { resolveFileUrl } from '../lib/storage/files';
+
+// 贴图图像加载器
+const imageLoader = new THREE.ImageLoader();
+
+// 已加载的贴图缓存，键为 颜色空间 + URL
+const textureCache = new Map<string, THREE.Texture>();
+
+// 材质数据中的贴图对应的 Three.js 材质属性
+type TextureMapKey = 'map' | 'normalMap' | 'roughnessMap' | 'metalnessMap' | 'aoMap' | 'bumpMap';
+
+// 各材质使用的贴图副本，副本带有该材质的平铺和旋转，随材质一起释放
+const materialTextures = new WeakMap<THREE.Material, Partial<Record<TextureMapKey, THREE.Texture>>>();
+
+/**
+ * 获取贴图，相同路径和颜色空间只加载一次
+ * 贴图路径先解析为可加载的URL，图像加载完成后更新贴图，共享图像数据的副本随之更新
+ * @param filePath 贴图文件路径或URL
+ * @param colorSpace 颜色空间，颜色贴图使用sRGB，其他数据贴图使用线性空间
+ * @returns 缓存的贴图，不直接分配给材质
+ */
+const getTexture = (filePath: string, colorSpace: THREE.ColorSpace): THREE.Texture => {
+  const key = `${colorSpace}|${filePath}`;
+  let texture = textureCache.get(key);
+  if (!texture) {
+    const loadedTexture = new THREE.Texture();
+    resolveFileUrl(filePath)
+      .then(url => {
+        if (!url) throw new Error('贴图文件不存在');
+        return imageLoader.loadAsync(url);
+      })
+      .then(image => {
+        loadedTexture.image = image;
+        loadedTexture.needsUpdate = true;
+      })
+      .catch(error => {
+        console.error('加载材质贴图失败:', filePath, error);
+      });
+    texture = loadedTexture;
+    texture.colorSpace = colorSpace;
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.center.set(0.5, 0.5);
+    textureCache.set(key, texture);
+  }
+  return texture;
+};
+
+/**
+ * 释放材质使用的贴图副本
+ * @param material Three.js 材质
+ */
+const disposeMaterialTextures = (material: THREE.Material): void => {
+  const textures = materialTextures.get(material);
+  if (!textures) return;
+  Object.values(textures).forEach(texture => texture?.dispose());
+  materialTextures.delete(material);
+};
+
+/**
+ * 获取材质某个贴图属性使用的贴图副本，并设置平铺和旋转
+ * 副本与缓存的贴图共享图像数据；同一贴图只更新平铺和旋转，贴图变化或不再使用时释放旧副本
+ * @param material Three.js 材质
+ * @param key 贴图属性
+ * @param filePath 贴图文件路径或URL，为空时不使用贴图
+ * @param colorSpace 颜色空间
+ * @param uvScale 平铺倍数
+ * @param uvRotation 旋转角度（度）
+ * @returns 贴图副本，没有贴图时返回null
+ */
+const getMaterialTexture = (
+  material: THREE.Material,
+  key: TextureMapKey,
+  filePath: string | undefined,
+  colorSpace: THREE.ColorSpace,
+  uvScale: number,
+  uvRotation: number
+): THREE.Texture | null => {
+  let textures = materialTextures.get(material);
+  if (!textures) {
+    textures = {};
+    materialTextures.set(material, textures);
+    material.addEventListener('dispose', () => disposeMaterialTextures(material));
+  }
+
+  const current = textures[key];
+  if (!filePath) {
+    current?.dispose();
+    delete textures[key];
+    return null;
+  }
+
+  const source = getTexture(filePath, colorSpace);
+  let texture = current;
+  if (!texture || texture.source !== source.source) {
+    current?.dispose();
+    texture = source.clone();
+    textures[key] = texture;
+  }
+  texture.repeat.set(uvScale, uvScale);
+  texture.rotation = THREE.MathUtils.degToRad(uvRotation);
+  return texture;
+};
+
+/**
+ * 判断材质是否需要使用 MeshPhysicalMaterial 渲染
+ * 设置了清漆、透射、折射率或绒面等参数时需要物理材质，不透明度使用标准材质即可
+ * @param appearance 材质外观属性
+ * @returns 是否需要物理材质
+ */
+export const needsPhysicalMaterial = (appearance: MaterialAppearance): boolean => {
+  return PHYSICAL_MATERIAL_FIELDS.some(({ key, defaultValue }) =>
+    key !== 'opacity' && appearance[key] !== undefined && appearance[key] !== defaultValue
+  );
+};
+
+/**
+ * 判断已有的 Three.js 材质类型是否与材质数据匹配，不匹配时需要重新创建
+ * @param material Three.js 材质
+ * @param appearance 材质外观属性
+ * @returns 是否匹配
+ */
+export const isMaterialCompatible = (material: THREE.MeshStandardMaterial, appearance: MaterialAppearance): boolean => {
+  return (material instanceof THREE.MeshPhysicalMaterial) === needsPhysicalMaterial(appearance);
+};
+
+/**
+ * 将材质数据应用到已有的 Three.js 材质上
+ * @param material Three.js 材质
+ * @param appearance 材质外观属性
+ * @param textureSource 提供法线和环境光遮蔽贴图的原始材质，材质数据中没有对应贴图时使用，保留模型原有的表面细节
+ */
+export const updateMaterial = (
+  material: THREE.MeshStandardMaterial,
+  appearance: MaterialAppearance,
+  textureSource: THREE.Material | null = null
+): void => {
+  const maps: MaterialTextureMaps = appearance.maps || {};
+  const uvScale = appearance.uvScale ?? 1;
+  const uvRotation = appearance.uvRotation ?? 0;
+
+  const resolve = (key: TextureMapKey, filePath: string | undefined, colorSpace: THREE.ColorSpace = THREE.NoColorSpace) =>
+    getMaterialTexture(material, key, filePath, colorSpace, uvScale, uvRotation);
+
+  const source = textureSource as Partial<THREE.MeshStandardMaterial> | null;
+  const inheritedNormalMap = !maps.normal && source?.normalMap ? source.normalMap : null;
+  const inheritedAoMap = !maps.ao && source?.aoMap ? source.aoMap : null;
+
+  const nextMaps = {
+    map: resolve('map', maps.baseColor, THREE.SRGBColorSpace),
+    normalMap: resolve('normalMap', maps.normal) || inheritedNormalMap,
+    roughnessMap: resolve('roughnessMap', maps.roughness),
+    metalnessMap: resolve('metalnessMap', maps.metalness),
+    aoMap: resolve('aoMap', maps.ao) || inheritedAoMap,
+    bumpMap: resolve('bumpMap', maps.height),
+  };
+
+  // 贴图的有无变化时需要重新编译着色器
+  const mapsChanged = (Object.keys(nextMaps) as Array<keyof typeof nextMaps>)
+    .some(key => Boolean(material[key]) !== Boolean(nextMaps[key]));
+
+  material.color.set(appearance.color);
+  material.roughness = appearance.roughness;
+  material.metalness = appearance.metallic;
+  Object.assign(material, nextMaps);
+  // 使用原始贴图时沿用原始材质的强度
+  material.normalScale.copy(inheritedNormalMap && source?.normalScale ? source.normalScale : new THREE.Vector2(1, 1));
+  material.aoMapIntensity = inheritedAoMap ? source?.aoMapIntensity ?? 1 : 1;
+
+  // 不透明度小于1时启用透明混合
+  const opacity = appearance.opacity ?? 1;
+  const transparent = opacity < 1;
+  const transparencyChanged = material.transparent !== transparent;
+  material.opacity = opacity;
+  material.transparent = transparent;
+  material.depthWrite = !transparent;
+
+  // 物理材质参数
+  if (material instanceof THREE.MeshPhysicalMaterial) {
+    material.clearcoat = appearance.clearcoat ?? 0;
+    material.clearcoatRoughness = appearance.clearcoatRoughness ?? 0;
+    material.transmission = appearance.transmission ?? 0;
+    material.thickness = appearance.thickness ?? 0;
+    material.ior = appearance.ior ?? 1.5;
+    material.sheen = appearance.sheen ?? 0;
+    material.sheenColor.set(appearance.color);
+    material.sheenRoughness = appearance.roughness;
+  }
+
+  if (mapsChanged || transparencyChanged) {
+    material.needsUpdate = true;
+  }
+};
+
+/**
+ * 根据材质数据创建 Three.js 材质
+ * 设置了物理材质参数时创建 MeshPhysicalMaterial，否则创建 MeshStandardMaterial
+ * @param appearance 材质外观属性
+ * @param textureSource 提供法线和环境光遮蔽贴图的原始材质
+ * @returns Three.js 材质
+ */
+export const createMaterial = (
+  appearance: MaterialAppearance,
+  textureSource: THREE.Material | null = null
+): THREE.MeshStandardMaterial => {
+  const material = needsPhysicalMaterial(appearance)
+    ? new THREE.MeshPhysicalMaterial()
+    : new THREE.MeshStandardMaterial();
+  updateMaterial(material, appearance, textureSource);
+  return material;
+};
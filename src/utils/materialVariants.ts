@@ -0,0 +1,114 @@
+/**
+ * glTF 材质变体（KHR_materials_variants）
+ * 设计师在建模软件中定义的配色方案，每个变体为部分网格指定另一套材质，
+ * 未指定的网格使用默认材质
+ */
+
+import * as THREE from 'three';
+import { type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+const EXTENSION_NAME = 'KHR_materials_variants';
+
+// 模型中的材质变体
+export type ModelVariants = {
+  names: string[];
+  materials: Map<number, THREE.Material>;  // 变体用到的材质，键为 glTF 材质索引
+};
+
+// 网格上的变体映射（GLTFLoader 保存在网格的 userData.gltfExtensions 中）
+type VariantMapping = {
+  material: number;
+  variants: number[];
+};
+
+// 提供给界面的变体预设
+export type MaterialVariantPresets = {
+  names: string[];
+  // 获取变体中各部件使用的模型材质，键为部件ID；材质属于模型，不能释放或修改
+  getSlotMaterials: (variantIndex: number) => Map<string, THREE.Material>;
+};
+
+/**
+ * 获取网格上的变体映射
+ * @param object 网格
+ * @returns 变体映射列表
+ */
+const getVariantMappings = (object: THREE.Object3D): VariantMapping[] => {
+  return object.userData.gltfExtensions?.[EXTENSION_NAME]?.mappings || [];
+};
+
+/**
+ * 读取 glTF 中的材质变体，并加载变体用到的材质
+ * @param gltf GLTFLoader 的加载结果
+ * @returns 材质变体，模型没有变体时返回null
+ */
+export const loadMaterialVariants = async (gltf: GLTF): Promise<ModelVariants | null> => {
+  const variantDefs: Array<{ name?: string }> = gltf.userData?.gltfExtensions?.[EXTENSION_NAME]?.variants || [];
+  if (variantDefs.length === 0) return null;
+
+  const materialIndices = new Set<number>();
+  gltf.scene.traverse((child) => {
+    getVariantMappings(child).forEach(mapping => materialIndices.add(mapping.material));
+  });
+
+  const materials = new Map<number, THREE.Material>();
+  await Promise.all(Array.from(materialIndices).map(async (index) => {
+    try {
+      materials.set(index, await gltf.parser.getDependency('material', index));
+    } catch (error) {
+      console.error('加载材质变体失败:', index, error);
+    }
+  }));
+
+  return {
+    names: variantDefs.map((variant, index) => variant.name || `变体 ${index + 1}`),
+    materials
+  };
+};
+
+/**
+ * 创建变体预设
+ * 部件由网格的原始材质推导，每个部件取变体为其网格指定的材质，没有指定时使用原始材质
+ * @param scene 已记录部件ID（userData.slotIds）和原始材质（userData.originalMaterial）的模型场景
+ * @param variants 材质变体
+ * @returns 变体预设
+ */
+export const createVariantPresets = (scene: THREE.Object3D, variants: ModelVariants): MaterialVariantPresets => {
+  // 各变体的部件材质，首次使用时计算
+  const cache = new Map<number, Map<string, THREE.Material>>();
+
+  const getSlotMaterials = (variantIndex: number): Map<string, THREE.Material> => {
+    const cached = cache.get(variantIndex);
+    if (cached) return cached;
+
+    const slotMaterials = new Map<string, THREE.Material>();
+    // 已使用变体材质的部件，同一部件的其他网格不再覆盖
+    const mappedSlots = new Set<string>();
+
+    scene.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+
+      const slotIds: string[] = child.userData.slotIds || [];
+      const original = child.userData.originalMaterial || child.material;
+      const originals: THREE.Material[] = Array.isArray(original) ? original : [original];
+      const mapping = getVariantMappings(child).find(item => item.variants.includes(variantIndex));
+      const variantMaterial = mapping ? variants.materials.get(mapping.material) : undefined;
+
+      slotIds.forEach((slotId, index) => {
+        if (mappedSlots.has(slotId)) return;
+        // glTF 的每个网格只有一个材质，变体材质对应第一个材质组
+        if (variantMaterial && index === 0) {
+          slotMaterials.set(slotId, variantMaterial);
+          mappedSlots.add(slotId);
+        } else if (!slotMaterials.has(slotId) && originals[index]) {
+          slotMaterials.set(slotId, originals[index]);
+        }
+      });
+    });
+
+    cache.set(variantIndex, slotMaterials);
+    return slotMaterials;
+  };
+
+  return { names: variants.names, getSlotMaterials };
+};
@@ -0,0 +1,308 @@
+/**
+ * 模型文件包
+ * 支持一次上传多个文件或 ZIP 压缩包（例如引用外部 .bin 和贴图的 .gltf、带 MTL 和贴图的 .obj），
+ * 上传后将模型和引用的文件打包为一个 ZIP 保存，加载时在浏览器中解压，
+ * 并通过 LoadingManager 的 URL 修改器把模型中的相对路径映射到解压出的文件
+ */
+
+import * as THREE from 'three';
+import { unzip, zip, type Unzipped } from 'fflate';
+import { getModelFormat, loadModelFile, MODEL_FILE_ACCEPT, type LoadedModel, type ModelFormat } from './modelLoaders';
+
+// 文件包中的文件，键为规范化后的相对路径
+export type BundleFiles = Map<string, File>;
+
+// 读取上传文件得到的模型文件包
+export type ModelBundle = {
+  entryPath: string;     // 主模型文件在文件包中的相对路径
+  entry: File;           // 主模型文件
+  resources: BundleFiles;  // 模型引用的其他文件（不含主模型文件）
+};
+
+// 可以和模型一起上传的资源文件扩展名
+const RESOURCE_EXTENSIONS = ['bin', 'mtl', 'png', 'jpg', 'jpeg', 'webp', 'ktx2', 'tga', 'bmp', 'gif'];
+
+// 文件选择框使用的 accept 属性，包含模型、资源文件和 ZIP 压缩包
+export const MODEL_UPLOAD_ACCEPT = [
+  MODEL_FILE_ACCEPT,
+  ...RESOURCE_EXTENSIONS.map(extension => `.${extension}`),
+  '.zip'
+].join(',');
+
+// 同一文件包中有多个模型文件时，按格式优先级选择主模型
+const ENTRY_FORMAT_PRIORITY: ModelFormat[] = ['gltf', 'fbx', 'obj', '3mf', 'stl', 'ply'];
+
+// 加载时使用的虚拟地址前缀，模型中的相对路径都会解析到这个地址下
+const BUNDLE_BASE_URL = 'https://model-bundle.invalid/';
+
+/**
+ * 规范化文件包中的路径：统一分隔符、解析 . 和 ..、忽略大小写
+ * @param filePath 文件路径
+ * @returns 规范化后的路径
+ */
+export const normalizeBundlePath = (filePath: string): string => {
+  let decoded = filePath;
+  try {
+    decoded = decodeURIComponent(filePath);
+  } catch {
+    // 路径中含有不合法的转义序列时按原样处理
+  }
+
+  const segments: string[] = [];
+  decoded.replace(/\\/g, '/').split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+
+  return segments.join('/').toLowerCase();
+};
+
+/**
+ * 获取路径所在的目录
+ * @param filePath 文件路径
+ * @returns 目录路径，以 / 结尾，位于根目录时为空字符串
+ */
+const getDirectory = (filePath: string): string => {
+  const index = filePath.lastIndexOf('/');
+  return index >= 0 ? filePath.substring(0, index + 1) : '';
+};
+
+/**
+ * 获取路径中的文件名
+ * @param filePath 文件路径
+ * @returns 文件名
+ */
+const getBaseName = (filePath: string): string => {
+  return filePath.substring(filePath.lastIndexOf('/') + 1);
+};
+
+/**
+ * 在文件包中查找模型引用的文件
+ * 先按相对主模型的路径查找，再按文件包根目录查找，最后按文件名查找
+ * （FBX 等格式常保存导出时的绝对路径）
+ * @param files 文件包中的文件
+ * @param uri 模型中引用的路径
+ * @param entryPath 主模型文件的路径
+ * @returns 找到的文件，不存在时返回undefined
+ */
+export const findBundleFile = <T>(files: Map<string, T>, uri: string, entryPath: string = ''): T | undefined => {
+  const relativeMatch = files.get(normalizeBundlePath(getDirectory(entryPath) + uri));
+  if (relativeMatch) return relativeMatch;
+
+  const rootMatch = files.get(normalizeBundlePath(uri));
+  if (rootMatch) return rootMatch;
+
+  const baseName = getBaseName(normalizeBundlePath(uri));
+  const matches = [...files.keys()].filter(key => getBaseName(key) === baseName);
+  return matches.length === 1 ? files.get(matches[0]) : undefined;
+};
+
+/**
+ * 解压 ZIP 文件
+ * @param data ZIP 数据
+ * @returns 解压后的文件，键为压缩包内的路径
+ */
+const unzipAsync = (data: Uint8Array): Promise<Unzipped> => {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+};
+
+/**
+ * 判断压缩包中的条目是否应当忽略（目录、macOS 元数据和隐藏文件）
+ * @param entryName 条目路径
+ * @returns 是否忽略
+ */
+const isIgnoredZipEntry = (entryName: string): boolean => {
+  return entryName.endsWith('/')
+    || entryName.startsWith('__MACOSX/')
+    || getBaseName(entryName).startsWith('.');
+};
+
+/**
+ * 将压缩包解压为文件包
+ * @param data ZIP 数据
+ * @returns 文件包中的文件
+ */
+const readZipFiles = async (data: Uint8Array): Promise<BundleFiles> => {
+  const files: BundleFiles = new Map();
+  const entries = await unzipAsync(data);
+
+  Object.entries(entries).forEach(([entryName, content]) => {
+    if (isIgnoredZipEntry(entryName)) return;
+    files.set(normalizeBundlePath(entryName), new File([content], getBaseName(entryName)));
+  });
+
+  return files;
+};
+
+/**
+ * 选择文件包中的主模型文件
+ * @param files 文件包中的文件
+ * @returns 主模型文件路径，没有模型文件时返回null
+ */
+const findEntryPath = (files: BundleFiles): string | null => {
+  const candidates = [...files.keys()]
+    .map(filePath => ({ filePath, format: getModelFormat(filePath) }))
+    .filter((candidate): candidate is { filePath: string; format: ModelFormat } => candidate.format !== null)
+    .sort((a, b) =>
+      ENTRY_FORMAT_PRIORITY.indexOf(a.format) - ENTRY_FORMAT_PRIORITY.indexOf(b.format)
+      || a.filePath.split('/').length - b.filePath.split('/').length
+    );
+
+  return candidates.length > 0 ? candidates[0].filePath : null;
+};
+
+/**
+ * 读取上传的文件，可以是单个模型文件、模型和资源文件，或包含它们的 ZIP 压缩包
+ * @param uploadedFiles 上传的文件
+ * @returns 模型文件包
+ */
+export const readModelBundle = async (uploadedFiles: File[]): Promise<ModelBundle> => {
+  const files: BundleFiles = new Map();
+
+  for (const file of uploadedFiles) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const zipFiles = await readZipFiles(new Uint8Array(await file.arrayBuffer()));
+      zipFiles.forEach((zipFile, filePath) => files.set(filePath, zipFile));
+    } else {
+      // 选择文件夹上传时保留目录结构
+      files.set(normalizeBundlePath(file.webkitRelativePath || file.name), file);
+    }
+  }
+
+  const entryPath = findEntryPath(files);
+  if (!entryPath) {
+    throw new Error('未找到可加载的模型文件');
+  }
+
+  const entry = files.get(entryPath)!;
+  files.delete(entryPath);
+
+  return { entryPath, entry, resources: files };
+};
+
+/**
+ * 将模型和资源文件打包为 ZIP
+ * @param entry 主模型文件（可能是处理后的文件）
+ * @param entryPath 主模型文件在文件包中的路径
+ * @param resources 资源文件
+ * @returns ZIP 文件，文件名与主模型文件相同
+ */
+export const packModelBundle = async (
+  entry: File,
+  entryPath: string,
+  resources: BundleFiles
+): Promise<File> => {
+  const entries: Record<string, Uint8Array> = {
+    [entryPath]: new Uint8Array(await entry.arrayBuffer())
+  };
+  for (const [filePath, file] of resources) {
+    entries[filePath] = new Uint8Array(await file.arrayBuffer());
+  }
+
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(entries, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+
+  return new File([data], `${entry.name.replace(/\.[^/.]+$/, '')}.zip`, { type: 'application/zip' });
+};
+
+/**
+ * 创建把文件包内路径映射到对象URL的加载管理器
+ * 加载器请求的地址都位于虚拟地址前缀下，去掉前缀后即为文件包中的路径
+ * @param fileUrls 文件包内路径到对象URL的映射
+ * @returns 加载管理器，以及等待所有资源加载完成的函数
+ */
+const createBundleLoadingManager = (fileUrls: Map<string, string>): {
+  manager: THREE.LoadingManager;
+  whenIdle: () => Promise<void>;
+} => {
+  let loading = false;
+  let idleCallbacks: (() => void)[] = [];
+
+  const manager = new THREE.LoadingManager(() => {
+    loading = false;
+    idleCallbacks.forEach(callback => callback());
+    idleCallbacks = [];
+  });
+  manager.onStart = () => {
+    loading = true;
+  };
+
+  manager.setURLModifier((url) => {
+    if (!url.startsWith(BUNDLE_BASE_URL)) return url;
+    const fileUrl = findBundleFile(fileUrls, url.substring(BUNDLE_BASE_URL.length));
+    if (!fileUrl) {
+      console.warn('文件包中缺少模型引用的文件:', url.substring(BUNDLE_BASE_URL.length));
+    }
+    return fileUrl || url;
+  });
+
+  const whenIdle = (): Promise<void> => {
+    if (!loading) return Promise.resolve();
+    return new Promise(resolve => idleCallbacks.push(resolve));
+  };
+
+  return { manager, whenIdle };
+};
+
+/**
+ * 加载保存的模型文件包
+ * 贴图等资源在模型解析后仍可能在加载（例如 MTL 材质的贴图），全部加载完成后才释放对象URL
+ * @param bundleUrl 文件包 ZIP 的URL
+ * @param entryPath 主模型文件在文件包中的路径
+ * @param format 模型格式
+ * @param onProgress 下载进度回调，参数为 0-1 的进度
+ * @returns 加载后的模型
+ */
+const loadModelBundle = async (
+  bundleUrl: string,
+  entryPath: string,
+  format: ModelFormat,
+  onProgress?: (progress: number) => void
+): Promise<LoadedModel> => {
+  const data = await new THREE.FileLoader()
+    .setResponseType('arraybuffer')
+    .loadAsync(bundleUrl, (event) => {
+      if (onProgress && event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    }) as ArrayBuffer;
+
+  const files = await readZipFiles(new Uint8Array(data));
+  const fileUrls = new Map<string, string>();
+  files.forEach((file, filePath) => fileUrls.set(filePath, URL.createObjectURL(file)));
+
+  const { manager, whenIdle } = createBundleLoadingManager(fileUrls);
+
+  try {
+    const model = await loadModelFile(`${BUNDLE_BASE_URL}${normalizeBundlePath(entryPath)}`, format, undefined, manager);
+    await whenIdle();
+    return model;
+  } finally {
+    fileUrls.forEach(url => URL.revokeObjectURL(url));
+  }
+};
+
+/**
+ * 加载保存的模型，模型为文件包时先解压
+ * @param url 模型文件或文件包的URL
+ * @param format 模型格式
+ * @param bundleEntry 模型为文件包时，主模型文件在包中的路径
+ * @param onProgress 下载进度回调，参数为 0-1 的进度
+ * @returns 加载后的模型
+ */
+export const loadStoredModel = (
+  url: string,
+  format: ModelFormat,
+  bundleEntry?: string | null,
+  onProgress?: (progress: number) => void
+): Promise<LoadedModel> => {
+  return bundleEntry
+    ? loadModelBundle(url, bundleEntry, format, onProgress)
+    : loadModelFile(url, format, onProgress);
+};
@@ -0,0 +1,98 @@
+/**
+ * 模型解析缓存
+ * 缓存已解析的模型，切换回已加载过的模型时无需重新下载和解析
+ */
+
+import * as THREE from 'three';
+import { clone as cloneWithSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { type LoadedModel, type ModelFormat } from './modelLoaders';
+import { loadStoredModel } from './modelBundle';
+
+// 最多缓存的模型数量，超出时释放最久未使用的模型
+const MAX_CACHED_MODELS = 5;
+
+// 模型URL到解析结果的缓存，Map 的插入顺序即使用顺序
+const modelCache = new Map<string, Promise<LoadedModel>>();
+
+/**
+ * 释放材质及其贴图
+ * @param material 材质
+ */
+const disposeMaterial = (material: THREE.Material): void => {
+  Object.values(material).forEach((value) => {
+    if (value instanceof THREE.Texture) {
+      value.dispose();
+    }
+  });
+  material.dispose();
+};
+
+/**
+ * 释放模型占用的几何体、材质和贴图资源
+ * @param model 解析后的模型
+ */
+const disposeModel = (model: LoadedModel): void => {
+  model.scene.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(disposeMaterial);
+    }
+  });
+  // 材质变体用到的材质不一定在场景中
+  model.variants?.materials.forEach(disposeMaterial);
+};
+
+/**
+ * 加载并解析模型，相同URL只解析一次
+ * @param url 模型URL
+ * @param format 模型格式
+ * @param onProgress 下载进度回调，参数为 0-1 的进度
+ * @param bundleEntry 模型为文件包时，主模型文件在包中的路径
+ * @returns 解析后的模型
+ */
+export const loadModel = (
+  url: string,
+  format: ModelFormat,
+  onProgress?: (progress: number) => void,
+  bundleEntry?: string | null
+): Promise<LoadedModel> => {
+  const cacheKey = `${format}|${url}|${bundleEntry || ''}`;
+  const cached = modelCache.get(cacheKey);
+  if (cached) {
+    // 重新插入，标记为最近使用
+    modelCache.delete(cacheKey);
+    modelCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const promise = loadStoredModel(url, format, bundleEntry, onProgress);
+
+  // 加载失败时从缓存中移除，以便重试
+  promise.catch(() => {
+    if (modelCache.get(cacheKey) === promise) {
+      modelCache.delete(cacheKey);
+    }
+  });
+
+  modelCache.set(cacheKey, promise);
+
+  // 超出缓存数量时释放最久未使用的模型
+  while (modelCache.size > MAX_CACHED_MODELS) {
+    const [oldestKey, oldest] = modelCache.entries().next().value as [string, Promise<LoadedModel>];
+    modelCache.delete(oldestKey);
+    oldest.then(disposeModel, () => undefined);
+  }
+
+  return promise;
+};
+
+/**
+ * 克隆模型场景，克隆体与缓存共享几何体和原始材质
+ * 使用 SkeletonUtils 克隆以保证蒙皮网格的骨骼绑定正确
+ * @param model 解析后的模型
+ * @returns 克隆的场景
+ */
+export const cloneModelScene = (model: LoadedModel): THREE.Group => {
+  return cloneWithSkeleton(model.scene) as THREE.Group;
+};
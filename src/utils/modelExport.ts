@@ -0,0 +1,96 @@
+/**
+ * 模型导出
+ * 将查看器中已应用部件材质的模型导出为 GLB（材质和贴图内嵌），
+ * 或导出为只包含网格的 OBJ、STL 文件，用于打样和 3D 打印
+ */
+
+import * as THREE from 'three';
+import { clone as cloneWithSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+
+// 导出格式
+export type ModelExportFormat = 'glb' | 'obj' | 'stl';
+
+// 模型导出参数
+export type ModelExportOptions = {
+  format: ModelExportFormat;
+  keepViewerScale: boolean;  // 保留查看器中的归一化尺寸（最长边为2并居中），否则恢复模型的原始尺寸和位置
+};
+
+// 各格式的名称、文件扩展名和说明
+export const MODEL_EXPORT_FORMATS: Record<ModelExportFormat, { label: string; extension: string; description: string }> = {
+  glb: { label: 'GLB', extension: 'glb', description: '包含材质和贴图，可导入其他三维软件' },
+  obj: { label: 'OBJ', extension: 'obj', description: '只包含网格，用于打样' },
+  stl: { label: 'STL', extension: 'stl', description: '只包含网格，转换为 Z 轴向上，用于 3D 打印' }
+};
+
+/**
+ * 复制要导出的模型
+ * 查看器加载模型时记录了归一化前的变换（userData.sourceTransform），不保留归一化尺寸时恢复该变换；
+ * 部件ID、材质变体映射等查看器内部数据不写入导出文件
+ * @param object 查看器中的模型对象
+ * @param keepViewerScale 是否保留查看器中的归一化尺寸
+ * @returns 模型副本
+ */
+const cloneForExport = (object: THREE.Object3D, keepViewerScale: boolean): THREE.Object3D => {
+  const copy = cloneWithSkeleton(object);
+  copy.traverse((child) => {
+    const sourceTransform = child.userData.sourceTransform;
+    if (sourceTransform && !keepViewerScale) {
+      child.position.fromArray(sourceTransform.position);
+      child.scale.fromArray(sourceTransform.scale);
+    }
+    child.userData = {};
+  });
+  copy.updateMatrixWorld(true);
+  return copy;
+};
+
+/**
+ * 导出为 GLB，使用模型当前的材质和动画姿态
+ * @param object 模型副本
+ * @returns GLB 数据
+ */
+const exportGLB = async (object: THREE.Object3D): Promise<Blob> => {
+  const result = await new GLTFExporter().parseAsync(object, { binary: true, onlyVisible: true });
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+};
+
+/**
+ * 导出为 STL
+ * 查看器使用 Y 轴向上，切片软件使用 Z 轴向上，导出时绕 X 轴旋转90°
+ * @param object 模型副本
+ * @returns 二进制 STL 数据
+ */
+const exportSTL = (object: THREE.Object3D): Blob => {
+  const zUp = new THREE.Group();
+  zUp.rotation.x = Math.PI / 2;
+  zUp.add(object);
+  zUp.updateMatrixWorld(true);
+  const result = new STLExporter().parse(zUp, { binary: true });
+  return new Blob([result], { type: 'model/stl' });
+};
+
+/**
+ * 导出查看器中的模型
+ * OBJ 和 STL 按网格的原始顶点导出，不包含蒙皮和变形动画的当前姿态
+ * @param object 查看器中的模型对象
+ * @param options 导出参数
+ * @returns 导出的文件数据
+ */
+export const exportModel = async (object: THREE.Object3D, options: ModelExportOptions): Promise<Blob> => {
+  const copy = cloneForExport(object, options.keepViewerScale);
+
+  switch (options.format) {
+    case 'glb':
+      return exportGLB(copy);
+    case 'obj':
+      return new Blob([new OBJExporter().parse(copy)], { type: 'model/obj' });
+    case 'stl':
+      return exportSTL(copy);
+    default:
+      throw new Error(`不支持的导出格式: ${options.format}`);
+  }
+};
@@ -0,0 +1,174 @@
+/**
+ * 模型加载器
+ * 根据文件格式选择对应的 three.js 加载器，统一返回场景和动画
+ * 支持 glTF/GLB、OBJ（含 MTL 材质）、FBX、STL、PLY 和 3MF
+ */
+
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { createGLTFLoader } from './gltfLoader';
+import { loadMaterialVariants, type ModelVariants } from './materialVariants';
+
+// 支持的模型格式，glb 和 gltf 使用同一个加载器
+export type ModelFormat = 'gltf' | 'obj' | 'fbx' | 'stl' | 'ply' | '3mf';
+
+// 支持的文件扩展名到格式的映射
+const EXTENSION_FORMATS: Record<string, ModelFormat> = {
+  glb: 'gltf',
+  gltf: 'gltf',
+  obj: 'obj',
+  fbx: 'fbx',
+  stl: 'stl',
+  ply: 'ply',
+  '3mf': '3mf'
+};
+
+// 支持的文件扩展名
+export const SUPPORTED_MODEL_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+// 文件选择框使用的 accept 属性
+export const MODEL_FILE_ACCEPT = SUPPORTED_MODEL_EXTENSIONS.map(extension => `.${extension}`).join(',');
+
+// 加载后的模型
+export type LoadedModel = {
+  scene: THREE.Group;
+  animations: THREE.AnimationClip[];
+  variants?: ModelVariants | null;  // glTF 中设计师定义的材质变体（KHR_materials_variants）
+};
+
+// 加载进度回调，参数为 0-1 的进度
+type ProgressCallback = (progress: number) => void;
+
+/**
+ * 根据文件名获取模型格式
+ * @param fileName 文件名或URL
+ * @returns 模型格式，不支持时返回null
+ */
+export const getModelFormat = (fileName: string): ModelFormat | null => {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] || null;
+};
+
+/**
+ * 将加载器的进度事件转换为 0-1 的进度
+ * @param onProgress 进度回调
+ * @returns 加载器进度事件处理函数
+ */
+const toProgressHandler = (onProgress?: ProgressCallback) => (event: ProgressEvent) => {
+  if (onProgress && event.lengthComputable) {
+    onProgress(event.loaded / event.total);
+  }
+};
+
+/**
+ * 为只有几何体的格式（STL、PLY）创建网格
+ * @param geometry 几何体
+ * @returns 包含网格的场景
+ */
+const createGeometryScene = (geometry: THREE.BufferGeometry): THREE.Group => {
+  if (!geometry.hasAttribute('normal')) {
+    geometry.computeVertexNormals();
+  }
+
+  // STL 和 PLY 没有材质信息，带顶点颜色时使用顶点颜色
+  const material = new THREE.MeshStandardMaterial({
+    color: 0xcccccc,
+    roughness: 0.5,
+    metalness: 0,
+    vertexColors: geometry.hasAttribute('color')
+  });
+
+  const group = new THREE.Group();
+  group.add(new THREE.Mesh(geometry, material));
+  return group;
+};
+
+/**
+ * CAD 导出的 STL 和 3MF 通常以 Z 轴向上，转换为 three.js 的 Y 轴向上
+ * @param object 模型对象
+ * @returns 包裹后的场景
+ */
+const convertZUpToYUp = (object: THREE.Object3D): THREE.Group => {
+  object.rotation.set(-Math.PI / 2, 0, 0);
+  const group = new THREE.Group();
+  group.add(object);
+  return group;
+};
+
+/**
+ * 加载 OBJ 模型，文件中引用了 MTL 材质库时一并加载
+ * MTL 加载失败时使用默认材质，不影响模型显示
+ * @param url 模型URL
+ * @param manager 加载管理器
+ * @param onProgress 进度回调
+ * @returns 模型场景
+ */
+const loadOBJ = async (url: string, manager?: THREE.LoadingManager, onProgress?: ProgressCallback): Promise<THREE.Group> => {
+  const text = await new THREE.FileLoader(manager).loadAsync(url, toProgressHandler(onProgress)) as string;
+  const objLoader = new OBJLoader(manager);
+
+  const mtlMatch = text.match(/^mtllib\s+(.+)$/m);
+  if (mtlMatch) {
+    const mtlFileName = mtlMatch[1].trim();
+    try {
+      const mtlLoader = new MTLLoader(manager);
+      mtlLoader.setResourcePath(THREE.LoaderUtils.extractUrlBase(url));
+      const materials = await mtlLoader.loadAsync(`${THREE.LoaderUtils.extractUrlBase(url)}${mtlFileName}`);
+      materials.preload();
+      objLoader.setMaterials(materials);
+    } catch (error) {
+      console.warn('加载MTL材质失败，使用默认材质:', mtlFileName, error);
+    }
+  }
+
+  return objLoader.parse(text);
+};
+
+/**
+ * 加载模型文件
+ * @param url 模型URL
+ * @param format 模型格式
+ * @param onProgress 下载进度回调
+ * @param manager 加载管理器，可用于重定向模型引用的其他文件
+ * @returns 加载后的模型
+ */
+export const loadModelFile = async (
+  url: string,
+  format: ModelFormat,
+  onProgress?: ProgressCallback,
+  manager?: THREE.LoadingManager
+): Promise<LoadedModel> => {
+  const handleProgress = toProgressHandler(onProgress);
+
+  switch (format) {
+    case 'gltf': {
+      const gltf = await createGLTFLoader(manager).loadAsync(url, handleProgress);
+      return { scene: gltf.scene, animations: gltf.animations, variants: await loadMaterialVariants(gltf) };
+    }
+    case 'obj':
+      return { scene: await loadOBJ(url, manager, onProgress), animations: [] };
+    case 'fbx': {
+      const group = await new FBXLoader(manager).loadAsync(url, handleProgress);
+      return { scene: group, animations: group.animations };
+    }
+    case 'stl': {
+      const geometry = await new STLLoader(manager).loadAsync(url, handleProgress);
+      return { scene: convertZUpToYUp(createGeometryScene(geometry)), animations: [] };
+    }
+    case 'ply': {
+      const geometry = await new PLYLoader(manager).loadAsync(url, handleProgress);
+      return { scene: createGeometryScene(geometry), animations: [] };
+    }
+    case '3mf': {
+      const group = await new ThreeMFLoader(manager).loadAsync(url, handleProgress);
+      return { scene: convertZUpToYUp(group), animations: [] };
+    }
+    default:
+      throw new Error(`不支持的模型格式: ${format}`);
+  }
+};
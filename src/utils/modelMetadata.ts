@@ -0,0 +1,142 @@
+/**
+ * 模型元数据
+ * 上传时解析模型，统计几何体、部件、贴图和动画信息，保存在模型记录中
+ */
+
+import * as THREE from 'three';
+import { type ModelMetadata } from '../lib/localStorage';
+import { type ModelFormat } from './modelLoaders';
+import { loadStoredModel } from './modelBundle';
+
+// 模型文件信息
+export type ModelFileInfo = {
+  format: string;
+  fileSize: number;
+  originalSize: number;
+};
+
+/**
+ * 获取贴图图像的尺寸
+ * @param texture 贴图
+ * @returns 宽高，图像未加载时返回null
+ */
+const getTextureSize = (texture: THREE.Texture): [number, number] | null => {
+  const image = texture.image as { width?: number; height?: number } | undefined;
+  if (!image || !image.width || !image.height) return null;
+  return [image.width, image.height];
+};
+
+/**
+ * 统计已加载模型的元数据
+ * @param scene 模型场景
+ * @param animations 动画片段
+ * @param fileInfo 模型文件信息
+ * @returns 模型元数据
+ */
+export const collectModelMetadata = (
+  scene: THREE.Object3D,
+  animations: THREE.AnimationClip[],
+  fileInfo: ModelFileInfo
+): ModelMetadata => {
+  let vertexCount = 0;
+  let triangleCount = 0;
+  const meshNames: string[] = [];
+  const materialSlots = new Map<string, string>();
+  const textureSizes = new Map<string, [number, number] | null>();
+
+  scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    const instanceCount = child instanceof THREE.InstancedMesh ? child.count : 1;
+    if (position) {
+      vertexCount += position.count * instanceCount;
+      triangleCount += Math.floor((geometry.index ? geometry.index.count : position.count) / 3) * instanceCount;
+    }
+    meshNames.push(child.name || `网格 ${meshNames.length + 1}`);
+
+    // 部件划分与模型查看器一致：共享同一原始材质的网格归为同一部件
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.forEach((material, index) => {
+      const key = material ? material.uuid : `${child.uuid}_${index}`;
+      if (!materialSlots.has(key)) {
+        materialSlots.set(key, material?.name || child.name || `部件 ${materialSlots.size + 1}`);
+      }
+
+      if (!material) return;
+      Object.values(material).forEach((value) => {
+        if (value instanceof THREE.Texture && !textureSizes.has(value.source.uuid)) {
+          textureSizes.set(value.source.uuid, getTextureSize(value));
+        }
+      });
+    });
+  });
+
+  // 包围盒尺寸，保留4位小数
+  const size = new THREE.Box3().setFromObject(scene).getSize(new THREE.Vector3());
+  const round = (value: number) => Number(value.toFixed(4));
+
+  // 按像素数选出最大的贴图
+  const maxTextureSize = [...textureSizes.values()].reduce<[number, number] | null>((largest, textureSize) => {
+    if (!textureSize) return largest;
+    return !largest || textureSize[0] * textureSize[1] > largest[0] * largest[1] ? textureSize : largest;
+  }, null);
+
+  return {
+    format: fileInfo.format,
+    fileSize: fileInfo.fileSize,
+    originalSize: fileInfo.originalSize,
+    vertexCount,
+    triangleCount,
+    meshNames,
+    materialSlots: Array.from(materialSlots.values()),
+    dimensions: { x: round(size.x), y: round(size.y), z: round(size.z) },
+    textureCount: textureSizes.size,
+    maxTextureSize,
+    animations: animations.map(clip => ({ name: clip.name, duration: round(clip.duration) }))
+  };
+};
+
+/**
+ * 加载模型并提取元数据
+ * @param modelUrl 模型文件或文件包的URL
+ * @param format 模型格式
+ * @param fileInfo 模型文件信息
+ * @param bundleEntry 模型为文件包时，主模型文件在包中的路径
+ * @returns 模型元数据，解析失败时返回null
+ */
+export const extractModelMetadata = async (
+  modelUrl: string,
+  format: ModelFormat,
+  fileInfo: ModelFileInfo,
+  bundleEntry?: string | null
+): Promise<ModelMetadata | null> => {
+  try {
+    const loadedModel = await loadStoredModel(modelUrl, format, bundleEntry);
+    return collectModelMetadata(loadedModel.scene, loadedModel.animations, fileInfo);
+  } catch (error) {
+    console.error('提取模型元数据失败:', error);
+    return null;
+  }
+};
+
+/**
+ * 格式化文件大小
+ * @param bytes 字节数
+ * @returns 带单位的文件大小
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)}MB`;
+};
+
+/**
+ * 格式化较大的数量，例如面数
+ * @param count 数量
+ * @returns 带千分位的数量
+ */
+export const formatCount = (count: number): string => {
+  return count.toLocaleString('zh-CN');
+};
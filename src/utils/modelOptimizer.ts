@@ -0,0 +1,117 @@
+/**
+ * GLB/glTF 模型优化
+ * 使用 glTF-Transform 合并重复数据、焊接顶点、缩小超大贴图，并用 Meshopt 量化和压缩网格。
+ * 依赖体积较大，由 processModelFile 按需动态加载。
+ */
+
+import { ImageUtils, Logger, WebIO, type Document } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import { compressTexture, dedup, meshopt, prune, weld } from '@gltf-transform/functions';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+import { findBundleFile, type BundleFiles } from './modelBundle';
+
+// 贴图最大边长，超过时等比缩小
+export const MAX_TEXTURE_SIZE = 2048;
+
+// 优化结果
+export type ModelOptimizationResult = {
+  data: Uint8Array;
+  resizedTextures: number;  // 缩小的贴图数量
+};
+
+/**
+ * 读取模型文件为 glTF-Transform 文档
+ * @param io 读写器
+ * @param file 模型文件（.glb 或 .gltf）
+ * @param resources .gltf 引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径，用于解析相对路径
+ * @returns 文档
+ */
+const readDocument = async (
+  io: WebIO,
+  file: File,
+  resources: BundleFiles,
+  entryPath: string
+): Promise<Document> => {
+  if (file.name.toLowerCase().endsWith('.gltf')) {
+    const json = JSON.parse(await file.text());
+
+    // 外部 .bin 和贴图按 URI 读入，data: URI 由 glTF-Transform 自行解码
+    const externalResources: Record<string, Uint8Array> = {};
+    const uris = [...(json.buffers || []), ...(json.images || [])]
+      .map((item: { uri?: string }) => item.uri)
+      .filter((uri): uri is string => !!uri && !uri.startsWith('data:'));
+    for (const uri of uris) {
+      const resource = findBundleFile(resources, uri, entryPath);
+      if (resource) {
+        externalResources[uri] = new Uint8Array(await resource.arrayBuffer());
+      }
+    }
+
+    return io.readJSON({ json, resources: externalResources });
+  }
+  return io.readBinary(new Uint8Array(await file.arrayBuffer()));
+};
+
+/**
+ * 缩小超过最大尺寸的贴图，并按原格式重新编码
+ * @param document 文档
+ * @returns 缩小的贴图数量
+ */
+const resizeOversizedTextures = async (document: Document): Promise<number> => {
+  let resized = 0;
+
+  for (const texture of document.getRoot().listTextures()) {
+    const image = texture.getImage();
+    const mimeType = texture.getMimeType();
+    if (!image) continue;
+
+    const size = ImageUtils.getSize(image, mimeType);
+    if (!size || Math.max(size[0], size[1]) <= MAX_TEXTURE_SIZE) continue;
+
+    await compressTexture(texture, { resize: [MAX_TEXTURE_SIZE, MAX_TEXTURE_SIZE] });
+    resized++;
+  }
+
+  return resized;
+};
+
+/**
+ * 优化模型，输出 GLB，外部资源会一并内嵌
+ * 已使用 Draco 压缩或缺少外部资源的模型无法读取，会抛出错误，由调用方回退到原始文件
+ * @param file 模型文件
+ * @param resources .gltf 引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径
+ * @returns 优化后的 GLB 数据
+ */
+export const optimizeGLTF = async (
+  file: File,
+  resources: BundleFiles = new Map(),
+  entryPath: string = file.name
+): Promise<ModelOptimizationResult> => {
+  await MeshoptEncoder.ready;
+  await MeshoptDecoder.ready;
+
+  const io = new WebIO()
+    .setLogger(new Logger(Logger.Verbosity.WARN))
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({
+      'meshopt.encoder': MeshoptEncoder,
+      'meshopt.decoder': MeshoptDecoder
+    });
+
+  const document = await readDocument(io, file, resources, entryPath);
+
+  // 合并重复的访问器、网格、材质和贴图，焊接相同顶点
+  await document.transform(dedup(), weld(), prune());
+
+  const resizedTextures = await resizeOversizedTextures(document);
+
+  // 量化顶点属性并使用 Meshopt 压缩（EXT_meshopt_compression）
+  await document.transform(meshopt({ encoder: MeshoptEncoder, level: 'medium' }));
+
+  return {
+    data: await io.writeBinary(document),
+    resizedTextures
+  };
+};
@@ -3,10 +3,11 @@
  * 用于处理模型上传前的预处理，包括压缩和优化
  */
 
-import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { saveFileToMemory } from './fileStorage';
+import { getModelFormat, SUPPORTED_MODEL_EXTENSIONS, type ModelFormat } from './modelLoaders';
+import { type BundleFiles } from './modelBundle';
+import { createValidationReport, inspectModelContent, type ModelValidationReport } from './modelValidation';
+import { renderModelImage, THUMBNAIL_RENDER_OPTIONS, type RenderOptions } from './renderService';
 import { ensureThumbnailsBucketExists } from './storageBuckets';
 
 /**
@@ -35,168 +36,112 @@ export const getFileMimeType = (file: File): string => {
   }
 };
 
+// 模型处理元数据
+export type ModelProcessMetadata = {
+  originalSize: number;      // 包含外部资源文件的总大小
+  processedSize: number;
+  compressionRatio: number;  // 原始大小 / 处理后大小，1 表示未压缩
+  format: string;
+  optimized: boolean;        // 是否经过优化
+  resizedTextures: number;   // 缩小的超大贴图数量
+};
+
 /**
  * 处理模型文件
- * 注意：当前版本直接返回原始文件，未实现实际压缩
+ * GLB/glTF 模型会被优化（去重、焊接、缩小超大贴图、Meshopt 量化压缩）并统一输出为 GLB，
+ * .gltf 引用的外部资源会内嵌到 GLB 中；其他格式或优化失败时返回原始文件
  * @param file 模型文件
+ * @param resources 模型引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径
  * @returns 处理后的文件和元数据
  */
-export const processModelFile = async (file: File): Promise<{
-  processedFile: File | Blob;
-  metadata: {
-    originalSize: number;
-    processedSize: number;
-    compressionRatio: number;
-    format: string;
-  };
+export const processModelFile = async (
+  file: File,
+  resources: BundleFiles = new Map(),
+  entryPath: string = file.name
+): Promise<{
+  processedFile: File;
+  metadata: ModelProcessMetadata;
 }> => {
   // 获取文件扩展名
   const fileExtension = file.name.split('.').pop()?.toLowerCase() || '';
 
-  // 返回原始文件和元数据
-  return {
+  // 原始大小包含外部资源，优化后的 GLB 会内嵌这些资源
+  const originalSize = [...resources.values()].reduce((total, resource) => total + resource.size, file.size);
+
+  // 原始文件和元数据
+  const unprocessed = {
     processedFile: file,
     metadata: {
-      originalSize: file.size,
-      processedSize: file.size,
+      originalSize,
+      processedSize: originalSize,
       compressionRatio: 1,
-      format: fileExtension
+      format: fileExtension,
+      optimized: false,
+      resizedTextures: 0
     }
   };
+
+  if (!['glb', 'gltf'].includes(fileExtension)) {
+    return unprocessed;
+  }
+
+  try {
+    // 按需加载优化模块
+    const { optimizeGLTF } = await import('./modelOptimizer');
+    const { data, resizedTextures } = await optimizeGLTF(file, resources, entryPath);
+
+    // 优化后反而更大时保留原始文件
+    if (data.byteLength >= originalSize) {
+      return unprocessed;
+    }
+
+    const processedFile = new File(
+      [data],
+      file.name.replace(/\.gltf$/i, '.glb'),
+      { type: 'model/gltf-binary' }
+    );
+
+    return {
+      processedFile,
+      metadata: {
+        originalSize,
+        processedSize: processedFile.size,
+        compressionRatio: originalSize / processedFile.size,
+        format: 'glb',
+        optimized: true,
+        resizedTextures
+      }
+    };
+  } catch (error) {
+    console.error('优化模型失败，使用原始文件:', error);
+    return unprocessed;
+  }
 };
 
 
 
 /**
  * 生成模型的缩略图
- * 注意：这个功能需要在 Canvas 环境中运行
+ * 使用模型渲染服务，与缩略图补全队列和导出图片的效果一致
  * @param modelUrl 模型的 URL
- * @returns 缩略图的 Data URL
+ * @param format 模型格式，默认为 glTF
+ * @param bundleEntry 模型为文件包时，主模型文件在包中的路径
+ * @param options 渲染参数，默认使用缩略图参数
+ * @returns 缩略图的 Data URL，生成失败时返回null
  */
-export const generateModelThumbnail = async (modelUrl: string): Promise<string | null> => {
-  return new Promise((resolve) => {
-    try {
-      // 创建一个临时的 DOM 元素来挂载渲染器
-      const container = document.createElement('div');
-      container.style.position = 'absolute';
-      container.style.left = '-9999px';
-      container.style.top = '-9999px';
-      document.body.appendChild(container);
-
-      // 创建场景
-      const scene = new THREE.Scene();
-      scene.background = null; // 透明背景
-
-      // 创建相机
-      const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 1000);
-      camera.position.set(0, 0, 5);
-
-      // 添加光源
-      const ambientLight = new THREE.AmbientLight(0xffffff, 0.7);
-      scene.add(ambientLight);
-
-      const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-      directionalLight.position.set(1, 1, 1);
-      scene.add(directionalLight);
-
-      // 创建渲染器
-      const renderer = new THREE.WebGLRenderer({
-        antialias: true,
-        alpha: true,
-        preserveDrawingBuffer: true
-      });
-      renderer.setSize(256, 256);
-      renderer.setClearColor(0x000000, 0); // 透明背景
-      container.appendChild(renderer.domElement);
-
-      // 创建控制器
-      const controls = new OrbitControls(camera, renderer.domElement);
-      controls.enableDamping = true;
-      controls.dampingFactor = 0.25;
-      controls.screenSpacePanning = false;
-      controls.maxPolarAngle = Math.PI / 2;
-
-      // 加载模型
-      const loader = new GLTFLoader();
-
-      // 设置加载超时
-      const timeoutId = setTimeout(() => {
-        cleanup();
-        resolve(null);
-      }, 10000); // 10秒超时
-
-      loader.load(
-        modelUrl,
-        (gltf) => {
-          clearTimeout(timeoutId);
-
-          const model = gltf.scene;
-
-          // 计算包围盒并居中模型
-          const box = new THREE.Box3().setFromObject(model);
-          const center = box.getCenter(new THREE.Vector3());
-          const size = box.getSize(new THREE.Vector3());
-
-          // 重置模型位置到中心
-          model.position.x = -center.x;
-          model.position.y = -center.y;
-          model.position.z = -center.z;
-
-          // 调整相机位置以适应模型大小
-          const maxDim = Math.max(size.x, size.y, size.z);
-          const fov = camera.fov * (Math.PI / 180);
-          let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
-
-          // 添加一些边距
-          cameraZ *= 1.5;
-
-          // 更新相机位置
-          camera.position.z = cameraZ;
-
-          // 确保相机看向模型中心
-          camera.lookAt(new THREE.Vector3(0, 0, 0));
-          camera.updateProjectionMatrix();
-
-          // 添加模型到场景
-          scene.add(model);
-
-          // 渲染场景
-          renderer.render(scene, camera);
-
-          // 获取缩略图
-          const dataUrl = renderer.domElement.toDataURL('image/png');
-
-          // 清理资源
-          cleanup();
-
-          resolve(dataUrl);
-        },
-        undefined,
-        (error) => {
-          // 加载错误
-          clearTimeout(timeoutId);
-          cleanup();
-          resolve(null);
-        }
-      );
-
-      // 清理函数
-      function cleanup() {
-        if (container && container.parentNode) {
-          container.parentNode.removeChild(container);
-        }
-        if (renderer) {
-          renderer.dispose();
-        }
-        if (controls) {
-          controls.dispose();
-        }
-      }
-
-    } catch (error) {
-      resolve(null);
-    }
-  });
+export const generateModelThumbnail = async (
+  modelUrl: string,
+  format: ModelFormat = 'gltf',
+  bundleEntry?: string | null,
+  options: RenderOptions = THUMBNAIL_RENDER_OPTIONS
+): Promise<string | null> => {
+  try {
+    return await renderModelImage({ url: modelUrl, format, bundleEntry }, options);
+  } catch (error) {
+    console.error('生成缩略图失败:', error);
+    return null;
+  }
 };
 
 /**
@@ -229,58 +174,141 @@ export const uploadThumbnail = async (thumbnailDataUrl: string, modelName: strin
   }
 };
 
+// 文件头检查读取的字节数
+const HEADER_BYTES = 1024;
+
+/**
+ * 读取文件开头的字节
+ * @param file 文件对象
+ * @param length 读取的字节数
+ * @returns 文件开头的字节
+ */
+const readFileHeader = async (file: File, length: number = HEADER_BYTES): Promise<Uint8Array> => {
+  return new Uint8Array(await file.slice(0, length).arrayBuffer());
+};
+
+/**
+ * 将字节按 ASCII 解码为文本
+ * @param bytes 字节
+ * @returns 文本
+ */
+const decodeAscii = (bytes: Uint8Array): string => {
+  return new TextDecoder('ascii').decode(bytes);
+};
+
+/**
+ * 检查 STL 文件（二进制或 ASCII）
+ * 二进制 STL 的文件头也可能以 solid 开头，因此先按三角形数量校验文件大小
+ * @param file 文件对象
+ * @param header 文件头
+ * @returns 是否有效
+ */
+const isValidSTL = (file: File, header: Uint8Array): boolean => {
+  if (header.byteLength >= 84) {
+    const triangleCount = new DataView(header.buffer, header.byteOffset, header.byteLength).getUint32(80, true);
+    if (84 + triangleCount * 50 === file.size) {
+      return true;
+    }
+  }
+
+  const text = decodeAscii(header).trimStart().toLowerCase();
+  return text.startsWith('solid') && (text.includes('facet') || file.size <= HEADER_BYTES);
+};
+
 /**
- * 验证模型文件是否有效
- * @param file 模型文件
+ * 根据格式检查文件头（魔数）
+ * @param file 文件对象
+ * @param format 模型格式
  * @returns 是否有效
  */
-export const validateModelFile = async (file: File): Promise<boolean> => {
+const checkModelFileHeader = async (file: File, format: ModelFormat): Promise<boolean> => {
+  const header = await readFileHeader(file);
+  const headerText = decodeAscii(header);
+
+  switch (format) {
+    case 'gltf': {
+      // GLB 文件的魔数是 0x46546C67 ('glTF' in ASCII)
+      if (file.name.toLowerCase().endsWith('.glb')) {
+        return header.byteLength >= 4 &&
+          new DataView(header.buffer, header.byteOffset, header.byteLength).getUint32(0, true) === 0x46546C67;
+      }
+
+      // 对于 GLTF 文件，尝试解析 JSON
+      try {
+        const json = JSON.parse(await file.text());
+        return !!(json.asset && json.asset.version);
+      } catch {
+        return false;
+      }
+    }
+    case 'obj':
+      // OBJ 是文本格式，至少包含一行顶点或面定义
+      return /^\s*(v|vn|vt|f|o|g|mtllib)\s/m.test(headerText);
+    case 'fbx':
+      // 二进制 FBX 以 "Kaydara FBX Binary" 开头，ASCII FBX 以注释或文件头扩展开始
+      return headerText.startsWith('Kaydara FBX Binary') ||
+        headerText.includes('FBXHeaderExtension') ||
+        headerText.trimStart().startsWith('; FBX');
+    case 'stl':
+      return isValidSTL(file, header);
+    case 'ply':
+      return /^ply\r?\n/.test(headerText);
+    case '3mf':
+      // 3MF 是 ZIP 压缩包，以 "PK\x03\x04" 开头
+      return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+    default:
+      return false;
+  }
+};
+
+/**
+ * 校验模型文件，返回按严重程度分级的问题报告
+ * 先检查扩展名、大小和文件头，通过后再深入检查模型内容
+ * @param file 模型文件
+ * @param resources 模型引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径
+ * @returns 校验报告
+ */
+export const validateModelFile = async (
+  file: File,
+  resources: BundleFiles = new Map(),
+  entryPath: string = file.name
+): Promise<ModelValidationReport> => {
   // 检查文件扩展名
   const fileExtension = file.name.split('.').pop()?.toLowerCase() || '';
-  if (!['glb', 'gltf', 'obj', 'fbx'].includes(fileExtension)) {
-    return false;
+  const format = getModelFormat(file.name);
+  if (!format || !SUPPORTED_MODEL_EXTENSIONS.includes(fileExtension)) {
+    return createValidationReport(file.name, null, [{
+      severity: 'error',
+      code: 'UNSUPPORTED_FORMAT',
+      message: `不支持的文件格式，请上传 ${SUPPORTED_MODEL_EXTENSIONS.map(extension => `.${extension}`).join(', ')} 文件`
+    }]);
   }
 
   // 检查文件大小
   if (!checkFileSize(file, 50)) {
-    return false;
+    return createValidationReport(file.name, format, [{
+      severity: 'error',
+      code: 'FILE_TOO_LARGE',
+      message: '文件大小超过限制（最大50MB）'
+    }]);
   }
 
-  // 对于 GLB/GLTF 文件，可以尝试解析头部
-  if (['glb', 'gltf'].includes(fileExtension)) {
-    try {
-      // 读取文件的前几个字节
-      const buffer = await file.arrayBuffer();
-
-      // 对于 GLB 文件，检查魔数
-      if (fileExtension === 'glb') {
-        const view = new DataView(buffer);
-        const magic = view.getUint32(0, true);
-        // GLB 文件的魔数是 0x46546C67 ('glTF' in ASCII)
-        if (magic !== 0x46546C67) {
-          return false;
-        }
-      }
-
-      // 对于 GLTF 文件，尝试解析 JSON
-      if (fileExtension === 'gltf') {
-        const text = await file.text();
-        try {
-          const json = JSON.parse(text);
-          if (!json.asset || !json.asset.version) {
-            return false;
-          }
-        } catch {
-          return false;
-        }
-      }
-
-      return true;
-    } catch {
-      return false;
-    }
+  // 检查文件头
+  let isValidHeader = false;
+  try {
+    isValidHeader = await checkModelFileHeader(file, format);
+  } catch {
+    isValidHeader = false;
+  }
+  if (!isValidHeader) {
+    return createValidationReport(file.name, format, [{
+      severity: 'error',
+      code: 'INVALID_HEADER',
+      message: `文件内容不是有效的 ${fileExtension.toUpperCase()} 模型`
+    }]);
   }
 
-  // 对于其他格式，我们只能基于扩展名和大小进行基本验证
-  return true;
+  const { issues, triangleCount } = await inspectModelContent(file, format, resources, entryPath);
+  return createValidationReport(file.name, format, issues, triangleCount);
 };
@@ -0,0 +1,321 @@
+/**
+ * 模型校验报告
+ * 上传前检查模型文件，按严重程度（错误、警告、信息）列出问题：
+ * glTF/GLB 使用 Khronos glTF-Validator 检查缺失的缓冲区、无效的访问器等，
+ * 并补充检查 three.js 不支持的扩展、非2的幂尺寸的贴图和过高的面数；
+ * 其他格式尝试解析模型，检查能否加载以及面数
+ */
+
+import type { ValidatorReport, ValidatorSeverity } from 'gltf-validator';
+import { collectModelMetadata } from './modelMetadata';
+import { findBundleFile, type BundleFiles } from './modelBundle';
+import { loadModelFile, type ModelFormat } from './modelLoaders';
+
+// 问题严重程度
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+// 校验发现的问题
+export type ValidationIssue = {
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+  pointer?: string;  // 问题在 glTF JSON 中的位置，例如 /meshes/0/primitives/0
+};
+
+// 校验报告
+export type ModelValidationReport = {
+  fileName: string;
+  format: ModelFormat | null;
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  triangleCount: number | null;  // 无法统计时为null
+};
+
+// 上传校验策略：出现错误时阻止、出现错误或警告时阻止、不阻止
+export type UploadValidationPolicy = 'block-errors' | 'block-warnings' | 'allow-all';
+
+// 导致模型完全无法使用的问题，任何策略下都会阻止上传
+const FATAL_ISSUE_CODES = ['UNSUPPORTED_FORMAT', 'FILE_TOO_LARGE', 'INVALID_HEADER', 'PARSE_ERROR', 'EMPTY_MODEL'];
+
+// 面数超过该值时给出警告
+export const TRIANGLE_COUNT_WARNING = 500000;
+
+// 报告中最多列出的 glTF-Validator 问题数
+const MAX_VALIDATOR_ISSUES = 100;
+
+// three.js GLTFLoader 支持的扩展（KHR_texture_basisu 需要额外配置 KTX2 加载器，这里未启用）
+const SUPPORTED_GLTF_EXTENSIONS = [
+  'KHR_binary_glTF',
+  'KHR_draco_mesh_compression',
+  'KHR_lights_punctual',
+  'KHR_materials_clearcoat',
+  'KHR_materials_dispersion',
+  'KHR_materials_ior',
+  'KHR_materials_sheen',
+  'KHR_materials_specular',
+  'KHR_materials_transmission',
+  'KHR_materials_iridescence',
+  'KHR_materials_anisotropy',
+  'KHR_materials_unlit',
+  'KHR_materials_volume',
+  'KHR_materials_emissive_strength',
+  'KHR_materials_variants',
+  'KHR_texture_transform',
+  'KHR_mesh_quantization',
+  'EXT_materials_bump',
+  'EXT_texture_webp',
+  'EXT_texture_avif',
+  'EXT_meshopt_compression',
+  'EXT_mesh_gpu_instancing'
+];
+
+// glTF-Validator 的严重程度对应的级别，提示按信息处理
+const VALIDATOR_SEVERITIES: Record<ValidatorSeverity, ValidationSeverity> = {
+  0: 'error',
+  1: 'warning',
+  2: 'info',
+  3: 'info'
+};
+
+/**
+ * 根据问题列表创建校验报告
+ * @param fileName 文件名
+ * @param format 模型格式
+ * @param issues 问题列表
+ * @param triangleCount 面数
+ * @returns 校验报告
+ */
+export const createValidationReport = (
+  fileName: string,
+  format: ModelFormat | null,
+  issues: ValidationIssue[],
+  triangleCount: number | null = null
+): ModelValidationReport => ({
+  fileName,
+  format,
+  issues,
+  errorCount: issues.filter(issue => issue.severity === 'error').length,
+  warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  infoCount: issues.filter(issue => issue.severity === 'info').length,
+  triangleCount
+});
+
+/**
+ * 检查面数是否过高
+ * @param triangleCount 面数
+ * @returns 面数过高时返回警告
+ */
+const checkTriangleCount = (triangleCount: number): ValidationIssue[] => {
+  if (triangleCount <= TRIANGLE_COUNT_WARNING) return [];
+  return [{
+    severity: 'warning',
+    code: 'EXCESSIVE_POLYCOUNT',
+    message: `模型面数过高（${triangleCount.toLocaleString('zh-CN')} 个三角面，建议不超过 ${TRIANGLE_COUNT_WARNING.toLocaleString('zh-CN')}），可能导致加载缓慢和卡顿`
+  }];
+};
+
+/**
+ * 判断是否为2的幂
+ * @param value 数值
+ * @returns 是否为2的幂
+ */
+const isPowerOfTwo = (value: number): boolean => value > 0 && (value & (value - 1)) === 0;
+
+/**
+ * 将 glTF-Validator 的报告转换为问题列表，并补充扩展、贴图尺寸和面数检查
+ * @param report glTF-Validator 报告
+ * @returns 问题列表
+ */
+const convertValidatorReport = (report: ValidatorReport): ValidationIssue[] => {
+  const issues: ValidationIssue[] = report.issues.messages
+    // 验证器自身不支持的扩展由下面的 three.js 扩展检查代替
+    .filter(message => message.code !== 'UNSUPPORTED_EXTENSION')
+    .map(message => ({
+      severity: VALIDATOR_SEVERITIES[message.severity],
+      code: message.code,
+      message: message.code === 'IO_ERROR'
+        ? `无法读取模型引用的外部文件，请同时上传 .bin 和贴图文件或打包为 ZIP（${message.message}）`
+        : message.message,
+      pointer: message.pointer
+    }));
+
+  if (report.issues.truncated) {
+    issues.push({
+      severity: 'info',
+      code: 'ISSUES_TRUNCATED',
+      message: `问题过多，仅列出前 ${MAX_VALIDATOR_ISSUES} 条`
+    });
+  }
+
+  const info = report.info || {};
+  const requiredExtensions = info.extensionsRequired || [];
+  (info.extensionsUsed || [])
+    .filter(extension => !SUPPORTED_GLTF_EXTENSIONS.includes(extension))
+    .forEach((extension) => {
+      const required = requiredExtensions.includes(extension);
+      issues.push({
+        severity: required ? 'error' : 'warning',
+        code: 'UNSUPPORTED_EXTENSION',
+        message: required
+          ? `模型必需的扩展 ${extension} 不受支持，模型无法加载`
+          : `模型使用的扩展 ${extension} 不受支持，相关效果将被忽略`,
+        pointer: '/extensionsUsed'
+      });
+    });
+
+  (info.resources || []).forEach((resource) => {
+    if (resource.image && (!isPowerOfTwo(resource.image.width) || !isPowerOfTwo(resource.image.height))) {
+      issues.push({
+        severity: 'warning',
+        code: 'TEXTURE_NOT_POWER_OF_TWO',
+        message: `贴图尺寸 ${resource.image.width}×${resource.image.height} 不是2的幂，部分设备上可能无法生成完整的 Mipmap，显示模糊或有锯齿`,
+        pointer: resource.pointer
+      });
+    }
+  });
+
+  return [...issues, ...checkTriangleCount(info.totalTriangleCount || 0)];
+};
+
+/**
+ * 使用 glTF-Validator 校验 glTF/GLB 模型
+ * @param file 模型文件
+ * @param resources 模型引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径
+ * @returns 问题列表和面数
+ */
+const validateGLTF = async (
+  file: File,
+  resources: BundleFiles,
+  entryPath: string
+): Promise<{ issues: ValidationIssue[]; triangleCount: number | null }> => {
+  // 验证器体积较大，按需加载
+  const validator = await import('gltf-validator');
+  const report = await validator.validateBytes(new Uint8Array(await file.arrayBuffer()), {
+    uri: file.name,
+    maxIssues: MAX_VALIDATOR_ISSUES,
+    // three.js 会在运行时生成切线空间，显示效果没有问题，按信息处理
+    severityOverrides: { MESH_PRIMITIVE_GENERATED_TANGENT_SPACE: 2 },
+    externalResourceFunction: async (uri) => {
+      const resource = findBundleFile(resources, uri, entryPath);
+      if (!resource) {
+        throw new Error(`缺少文件 ${decodeURIComponent(uri)}`);
+      }
+      return new Uint8Array(await resource.arrayBuffer());
+    }
+  });
+
+  return {
+    issues: convertValidatorReport(report),
+    triangleCount: report.info?.totalTriangleCount ?? null
+  };
+};
+
+/**
+ * 尝试解析其他格式的模型，检查能否加载以及面数
+ * 引用的外部文件（例如 MTL 贴图）缺失时加载器会使用默认材质，不作为错误
+ * @param file 模型文件
+ * @param format 模型格式
+ * @returns 问题列表和面数
+ */
+const validateByParsing = async (
+  file: File,
+  format: ModelFormat
+): Promise<{ issues: ValidationIssue[]; triangleCount: number | null }> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const loadedModel = await loadModelFile(url, format);
+    const { triangleCount } = collectModelMetadata(loadedModel.scene, loadedModel.animations, {
+      format,
+      fileSize: file.size,
+      originalSize: file.size
+    });
+
+    const issues: ValidationIssue[] = triangleCount === 0
+      ? [{ severity: 'error', code: 'EMPTY_MODEL', message: '模型中没有可显示的三角面' }]
+      : checkTriangleCount(triangleCount);
+    return { issues, triangleCount };
+  } catch (error) {
+    return {
+      issues: [{
+        severity: 'error',
+        code: 'PARSE_ERROR',
+        message: `模型解析失败: ${error instanceof Error ? error.message : String(error)}`
+      }],
+      triangleCount: null
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * 深入校验模型内容
+ * @param file 模型文件
+ * @param format 模型格式
+ * @param resources 模型引用的外部文件
+ * @param entryPath 模型文件在文件包中的路径
+ * @returns 问题列表和面数
+ */
+export const inspectModelContent = async (
+  file: File,
+  format: ModelFormat,
+  resources: BundleFiles = new Map(),
+  entryPath: string = file.name
+): Promise<{ issues: ValidationIssue[]; triangleCount: number | null }> => {
+  if (format === 'gltf') {
+    try {
+      return await validateGLTF(file, resources, entryPath);
+    } catch (error) {
+      console.error('glTF校验失败:', error);
+      return {
+        issues: [{
+          severity: 'warning',
+          code: 'VALIDATOR_FAILED',
+          message: '无法完成 glTF 校验，模型可能无法正常显示'
+        }],
+        triangleCount: null
+      };
+    }
+  }
+  return validateByParsing(file, format);
+};
+
+/**
+ * 判断报告中是否有导致模型无法使用的问题
+ * @param report 校验报告
+ * @returns 是否有致命问题
+ */
+export const hasFatalIssues = (report: ModelValidationReport): boolean => {
+  return report.issues.some(issue => FATAL_ISSUE_CODES.includes(issue.code));
+};
+
+/**
+ * 根据上传校验策略判断是否阻止上传
+ * @param report 校验报告
+ * @param policy 上传校验策略
+ * @returns 是否阻止上传
+ */
+export const isUploadBlocked = (report: ModelValidationReport, policy: UploadValidationPolicy): boolean => {
+  if (hasFatalIssues(report)) return true;
+
+  switch (policy) {
+    case 'block-warnings':
+      return report.errorCount > 0 || report.warningCount > 0;
+    case 'allow-all':
+      return false;
+    default:
+      return report.errorCount > 0;
+  }
+};
+
+/**
+ * 判断报告中是否有需要上传者确认的问题（错误或警告）
+ * @param report 校验报告
+ * @returns 是否需要确认
+ */
+export const needsValidationReview = (report: ModelValidationReport): boolean => {
+  return report.errorCount > 0 || report.warningCount > 0;
+};
@@ -0,0 +1,47 @@
+/**
+ * 对象变换工具
+ * 模型渲染服务、展台和查看器共用的对象复制和模型归一化方法。
+ * 灯光方案的灯光位置和阴影范围按归一化后的模型尺寸设置，渲染模型前都需要先归一化
+ */
+
+import * as THREE from 'three';
+import { clone as cloneWithSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
+
+/**
+ * 复制已在场景中的对象，副本共享几何体和材质，并保持对象在原场景中的世界变换
+ * 使用 SkeletonUtils 克隆以保证蒙皮网格的骨骼绑定正确
+ * @param object 对象
+ * @returns 副本
+ */
+export const cloneWithWorldTransform = (object: THREE.Object3D): THREE.Object3D => {
+  const copy = cloneWithSkeleton(object);
+  object.updateWorldMatrix(true, false);
+  object.matrixWorld.decompose(copy.position, copy.quaternion, copy.scale);
+  return copy;
+};
+
+// 归一化后模型包围盒的最长边
+export const NORMALIZED_MODEL_SIZE = 2;
+
+/**
+ * 将模型缩放到最长边为 NORMALIZED_MODEL_SIZE 并移到原点，
+ * 归一化前的位置和缩放记录在 userData.sourceTransform，导出模型时可以恢复原始尺寸
+ * @param scene 模型场景（原地修改）
+ */
+export const normalizeModelScene = (scene: THREE.Object3D): void => {
+  scene.userData.sourceTransform = { position: scene.position.toArray(), scale: scene.scale.toArray() };
+  scene.updateWorldMatrix(true, true);
+  const box = new THREE.Box3().setFromObject(scene);
+  if (box.isEmpty()) return;
+
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  if (!(maxDim > 0)) return;
+  const scale = NORMALIZED_MODEL_SIZE / maxDim;
+  scene.scale.set(scale, scale, scale);
+
+  // 将模型置于中心
+  const center = box.getCenter(new THREE.Vector3());
+  scene.position.set(-center.x * scale, -center.y * scale, -center.z * scale);
+  scene.updateMatrixWorld(true);
+};
@@ -0,0 +1,304 @@
+/**
+ * 后期处理
+ * 按后期处理设置组装环境光遮蔽、泛光、色调映射输出、调色查找表和暗角，查看器和渲染服务共用，
+ * 保证导出图片与实时画面一致。效果顺序：场景 → 环境光遮蔽 → 泛光（线性 HDR）→ 色调映射 → 调色 → 暗角
+ */
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { GTAOPass } from 'three/examples/jsm/postprocessing/GTAOPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { LUTPass } from 'three/examples/jsm/postprocessing/LUTPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import {
+  DEFAULT_POST_PROCESSING_SETTINGS,
+  type ColorGradingLut,
+  type PostProcessingSettings,
+  type ToneMappingOperator
+} from '../lib/postProcessingStorage';
+
+// 当前帧在完整画面中的位置（像素，从左上角计算），分块渲染时暗角按完整画面计算
+export type PostProcessingRegion = {
+  fullWidth: number;
+  fullHeight: number;
+  x: number;
+  y: number;
+};
+
+// 后期处理管线
+export type PostProcessingPipeline = {
+  // 设置输出尺寸（像素）
+  setSize: (width: number, height: number, region?: PostProcessingRegion) => void;
+  // 按后期处理设置更新效果强度、阈值和调色查找表，结构键相同的设置才能原地更新
+  update: (settings: PostProcessingSettings) => void;
+  // 渲染一帧到画布
+  render: () => void;
+  dispose: () => void;
+};
+
+// 各色调映射算法对应的 three.js 常量
+const TONE_MAPPINGS: Record<ToneMappingOperator, THREE.ToneMapping> = {
+  aces: THREE.ACESFilmicToneMapping,
+  agx: THREE.AgXToneMapping,
+  neutral: THREE.NeutralToneMapping
+};
+
+// 高质量下的多重采样数
+const MULTISAMPLE_COUNT = 4;
+
+// 泛光的扩散半径
+const BLOOM_RADIUS = 0.4;
+
+// 调色查找表的边长
+const LUT_SIZE = 33;
+
+// 已生成的调色查找表
+const lutCache = new Map<ColorGradingLut, THREE.Data3DTexture>();
+
+type ColorTransform = (r: number, g: number, b: number) => [number, number, number];
+
+/**
+ * 计算颜色的亮度
+ * @returns 亮度 0-1
+ */
+const getLuminance = (r: number, g: number, b: number): number => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/**
+ * 增加对比度的 S 曲线
+ * @param value 颜色分量 0-1
+ * @param amount 对比度强度 0-1
+ * @returns 颜色分量
+ */
+const applyContrast = (value: number, amount: number): number => {
+  return THREE.MathUtils.lerp(value, value * value * (3 - 2 * value), amount);
+};
+
+/**
+ * 调整饱和度
+ * @returns 调整后的颜色
+ */
+const applySaturation = (r: number, g: number, b: number, saturation: number): [number, number, number] => {
+  const luminance = getLuminance(r, g, b);
+  return [
+    luminance + (r - luminance) * saturation,
+    luminance + (g - luminance) * saturation,
+    luminance + (b - luminance) * saturation
+  ];
+};
+
+// 各调色查找表的颜色变换，输入输出均为色调映射后的显示颜色
+const LUT_TRANSFORMS: Record<Exclude<ColorGradingLut, 'none'>, ColorTransform> = {
+  warm: (r, g, b) => [r * 1.06 + 0.02, g * 1.01 + 0.01, b * 0.9],
+  cool: (r, g, b) => [r * 0.92, g * 0.99 + 0.01, b * 1.08 + 0.02],
+  // 暗部偏青、亮部偏橙，并增加对比度
+  cinematic: (r, g, b) => {
+    const tint = (getLuminance(r, g, b) - 0.5) * 0.1;
+    return [applyContrast(r, 0.4) + tint, applyContrast(g, 0.4), applyContrast(b, 0.4) - tint];
+  },
+  vivid: (r, g, b) => {
+    const [sr, sg, sb] = applySaturation(r, g, b, 1.3);
+    return [applyContrast(sr, 0.2), applyContrast(sg, 0.2), applyContrast(sb, 0.2)];
+  },
+  mono: (r, g, b) => {
+    const luminance = applyContrast(getLuminance(r, g, b), 0.3);
+    return [luminance, luminance, luminance];
+  }
+};
+
+/**
+ * 获取调色查找表，首次使用时按颜色变换生成
+ * @param lut 调色查找表
+ * @returns 三维查找表贴图
+ */
+const getColorGradingLut = (lut: Exclude<ColorGradingLut, 'none'>): THREE.Data3DTexture => {
+  const cached = lutCache.get(lut);
+  if (cached) return cached;
+
+  const transform = LUT_TRANSFORMS[lut];
+  const data = new Uint8Array(LUT_SIZE * LUT_SIZE * LUT_SIZE * 4);
+  for (let b = 0; b < LUT_SIZE; b++) {
+    for (let g = 0; g < LUT_SIZE; g++) {
+      for (let r = 0; r < LUT_SIZE; r++) {
+        const color = transform(r / (LUT_SIZE - 1), g / (LUT_SIZE - 1), b / (LUT_SIZE - 1));
+        const index = (r + g * LUT_SIZE + b * LUT_SIZE * LUT_SIZE) * 4;
+        data[index] = Math.round(THREE.MathUtils.clamp(color[0], 0, 1) * 255);
+        data[index + 1] = Math.round(THREE.MathUtils.clamp(color[1], 0, 1) * 255);
+        data[index + 2] = Math.round(THREE.MathUtils.clamp(color[2], 0, 1) * 255);
+        data[index + 3] = 255;
+      }
+    }
+  }
+
+  const texture = new THREE.Data3DTexture(data, LUT_SIZE, LUT_SIZE, LUT_SIZE);
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.wrapR = THREE.ClampToEdgeWrapping;
+  texture.unpackAlignment = 1;
+  texture.needsUpdate = true;
+  lutCache.set(lut, texture);
+  return texture;
+};
+
+// 暗角着色器，offset 和 scale 将当前帧的纹理坐标换算到完整画面
+const VignetteShader = {
+  name: 'VignetteShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    strength: { value: 0.4 },
+    offset: { value: new THREE.Vector2(0, 0) },
+    scale: { value: new THREE.Vector2(1, 1) }
+  },
+  vertexShader: /* glsl */`
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+    }
+  `,
+  fragmentShader: /* glsl */`
+    uniform sampler2D tDiffuse;
+    uniform float strength;
+    uniform vec2 offset;
+    uniform vec2 scale;
+    varying vec2 vUv;
+
+    void main() {
+      vec4 color = texture2D( tDiffuse, vUv );
+      vec2 position = offset + vUv * scale - 0.5;
+      color.rgb *= 1.0 - strength * smoothstep( 0.25, 0.75, length( position ) );
+      gl_FragColor = color;
+    }
+  `
+};
+
+/**
+ * 获取色调映射算法对应的 three.js 常量
+ * @param operator 色调映射算法
+ * @returns 色调映射常量
+ */
+export const getToneMapping = (operator: ToneMappingOperator = DEFAULT_POST_PROCESSING_SETTINGS.toneMapping): THREE.ToneMapping => {
+  return TONE_MAPPINGS[operator] ?? THREE.ACESFilmicToneMapping;
+};
+
+/**
+ * 判断后期处理设置是否启用了后期效果（色调映射和曝光不需要后期处理管线）
+ * @param settings 后期处理设置
+ * @returns 是否需要后期处理管线
+ */
+export const hasPostEffects = (settings: PostProcessingSettings): boolean => {
+  if (settings.quality === 'off') return false;
+  return (settings.quality === 'high' && settings.ssao)
+    || settings.bloom
+    || settings.vignette
+    || settings.lut !== 'none';
+};
+
+/**
+ * 生成后期处理管线结构的键，效果质量或启用的效果变化时键才会变化，此时需要重新创建管线；
+ * 只有强度、阈值或调色查找表的选择变化时使用管线的 update 更新
+ * @param settings 后期处理设置
+ * @returns 结构键
+ */
+export const getPostProcessingStructureKey = (settings: PostProcessingSettings): string => {
+  return JSON.stringify({
+    effects: hasPostEffects(settings),
+    quality: settings.quality,
+    ssao: settings.ssao,
+    bloom: settings.bloom,
+    vignette: settings.vignette,
+    lut: settings.lut !== 'none'
+  });
+};
+
+/**
+ * 创建后期处理管线，输出尺寸默认为渲染器当前的绘制尺寸
+ * 色调映射和曝光使用渲染器的 toneMapping 和 toneMappingExposure
+ * @param renderer 渲染器
+ * @param scene 场景
+ * @param camera 相机
+ * @param settings 后期处理设置
+ * @returns 后期处理管线
+ */
+export const createPostProcessing = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  settings: PostProcessingSettings
+): PostProcessingPipeline => {
+  const highQuality = settings.quality === 'high';
+  const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+
+  const composer = new EffectComposer(renderer, new THREE.WebGLRenderTarget(size.x, size.y, {
+    type: THREE.HalfFloatType,
+    samples: highQuality ? MULTISAMPLE_COUNT : 0
+  }));
+  // 尺寸直接使用像素
+  composer.setPixelRatio(1);
+
+  composer.addPass(new RenderPass(scene, camera));
+
+  const gtaoPass = highQuality && settings.ssao ? new GTAOPass(scene, camera, size.x, size.y) : null;
+  if (gtaoPass) {
+    composer.addPass(gtaoPass);
+  }
+
+  const bloomPass = settings.bloom
+    ? new UnrealBloomPass(size.clone(), settings.bloomStrength, BLOOM_RADIUS, settings.bloomThreshold)
+    : null;
+  if (bloomPass) {
+    composer.addPass(bloomPass);
+  }
+
+  composer.addPass(new OutputPass());
+
+  const lutPass = settings.lut !== 'none' ? new LUTPass({}) : null;
+  if (lutPass) {
+    composer.addPass(lutPass);
+  }
+
+  const vignettePass = settings.vignette ? new ShaderPass(VignetteShader) : null;
+  if (vignettePass) {
+    composer.addPass(vignettePass);
+  }
+
+  const update = (nextSettings: PostProcessingSettings) => {
+    if (gtaoPass) {
+      gtaoPass.blendIntensity = nextSettings.ssaoIntensity;
+    }
+    if (bloomPass) {
+      bloomPass.strength = nextSettings.bloomStrength;
+      bloomPass.threshold = nextSettings.bloomThreshold;
+    }
+    if (lutPass && nextSettings.lut !== 'none') {
+      lutPass.lut = getColorGradingLut(nextSettings.lut);
+      lutPass.intensity = nextSettings.lutIntensity;
+    }
+    if (vignettePass) {
+      vignettePass.uniforms.strength.value = nextSettings.vignetteStrength;
+    }
+  };
+  update(settings);
+
+  return {
+    setSize: (width, height, region) => {
+      composer.setSize(width, height);
+      if (vignettePass) {
+        const { fullWidth, fullHeight, x, y } = region || { fullWidth: width, fullHeight: height, x: 0, y: 0 };
+        // 纹理坐标从左下角计算
+        vignettePass.uniforms.offset.value.set(x / fullWidth, 1 - (y + height) / fullHeight);
+        vignettePass.uniforms.scale.value.set(width / fullWidth, height / fullHeight);
+      }
+    },
+    update,
+    render: () => composer.render(),
+    dispose: () => {
+      composer.passes.forEach(pass => pass.dispose());
+      composer.dispose();
+    }
+  };
+};
@@ -0,0 +1,551 @@
+/**
+ * 模型渲染服务
+ * 上传缩略图、缩略图补全队列和导出图片共用同一套离屏渲染流程：
+ * 相同的灯光、环境贴图、展台、色调映射、后期效果和相机取景，保证各处得到的图片效果一致。
+ * 默认灯光方案和取景参数来自 src/config/renderSettings.json（与命令行批量渲染脚本共用）
+ */
+
+import * as THREE from 'three';
+import { clone as cloneWithSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import renderSettings from '../config/renderSettings.json';
+import { type MaterialAppearance } from '../lib/materialStorage';
+import { DEFAULT_LIGHTING_RIG, type LightingRig } from '../lib/lightingStorage';
+import { hasStageObjects, type StageSettings } from '../lib/stageStorage';
+import { type PostProcessingSettings } from '../lib/postProcessingStorage';
+import { createMaterial } from './materialFactory';
+import { cloneWithWorldTransform, normalizeModelScene } from './objectTransform';
+import { loadStoredModel } from './modelBundle';
+import { type ModelFormat } from './modelLoaders';
+import {
+  applyEnvironmentLighting,
+  DEFAULT_ENVIRONMENT_LIGHTING,
+  loadEnvironmentTexture,
+  type EnvironmentLighting,
+  type EnvironmentSource
+} from './sceneEnvironment';
+import { createLightingRigObject, disposeLightingRigObject } from './lightingRig';
+import { createStageObject, disposeStageObject, STAGE_GROUND_RADIUS, STAGE_PEDESTAL_NAME } from './sceneStage';
+import {
+  createPostProcessing,
+  getToneMapping,
+  hasPostEffects,
+  type PostProcessingPipeline,
+  type PostProcessingRegion
+} from './postProcessing';
+
+// 相机观察角度（度），方位角从正面绕Y轴逆时针计算，仰角向上为正
+export type RenderCameraAngle = {
+  azimuth: number;
+  elevation: number;
+};
+
+// 指定的相机位置和观察目标（世界坐标），用于按查看器当前视角渲染
+export type RenderCameraView = {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+};
+
+// 渲染参数
+export type RenderOptions = {
+  width?: number;
+  height?: number;
+  pixelRatio?: number;            // 像素比，输出图片尺寸为 宽高 × 像素比
+  supersample?: number;           // 超采样倍数，按倍数放大渲染后缩小输出
+  cameraAngle?: RenderCameraAngle;
+  cameraView?: RenderCameraView | null;  // 指定相机位置时不自动取景，cameraAngle 和 padding 不生效
+  fov?: number;                   // 相机垂直视角（度）
+  padding?: number;               // 取景边距倍数，1 表示模型刚好充满画面
+  background?: string | null;     // 背景颜色，null 为透明背景
+  environment?: EnvironmentLighting | null;  // 环境光照，null 不使用环境贴图
+  lighting?: LightingRig;         // 灯光方案
+  stage?: StageSettings | null;   // 展台设置，null 不显示地面和展台
+  postProcessing?: PostProcessingSettings | null;  // 色调映射和后期效果，null 使用 ACES 色调映射、无后期效果
+  material?: MaterialAppearance | null;  // 统一应用到所有网格的材质，null 保留模型材质
+};
+
+// 渲染的模型文件
+export type RenderModelSource = {
+  url: string;
+  format: ModelFormat;
+  bundleEntry?: string | null;
+};
+
+// 默认的相机角度：从右前方略高处观察
+export const DEFAULT_CAMERA_ANGLE: RenderCameraAngle = renderSettings.cameraAngle;
+
+// 模型缩略图的渲染参数
+export const THUMBNAIL_RENDER_OPTIONS: RenderOptions = renderSettings.thumbnail;
+
+// 模型加载超时时间（毫秒）
+const MODEL_LOAD_TIMEOUT = 30000;
+
+const DEFAULT_RENDER_OPTIONS: Required<RenderOptions> = {
+  width: 512,
+  height: 512,
+  pixelRatio: 1,
+  supersample: 1,
+  cameraAngle: DEFAULT_CAMERA_ANGLE,
+  cameraView: null,
+  fov: renderSettings.fov,
+  padding: renderSettings.padding,
+  background: null,
+  environment: DEFAULT_ENVIRONMENT_LIGHTING,
+  lighting: DEFAULT_LIGHTING_RIG,
+  stage: null,
+  postProcessing: null,
+  material: null
+};
+
+// 分块渲染的块边长，超过该尺寸的画面分块渲染后拼接，避免超出 WebGL 画布尺寸限制
+const RENDER_TILE_SIZE = 2048;
+
+// 使用后期处理时每块四周多渲染的保护带宽度（像素），拼接时裁掉
+// 泛光最低一级模糊（1/32 分辨率、11 像素核）的扩散范围约 352 像素，保护带覆盖该范围，块边缘的泛光和环境光遮蔽与整幅渲染一致
+const RENDER_TILE_GUARD = 384;
+
+// 超采样后的最大渲染边长，超过时自动降低超采样倍数
+const MAX_SUPERSAMPLED_SIZE = 16384;
+
+// 共享的离屏渲染器，避免每次渲染都创建新的 WebGL 上下文
+let sharedRenderer: THREE.WebGLRenderer | null = null;
+
+// 渲染任务队列，共享渲染器同一时间只执行一个任务
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 获取共享的离屏渲染器，颜色空间与模型查看器的画布一致，色调映射在每次渲染时按参数设置
+ * @returns 渲染器
+ */
+const getRenderer = (): THREE.WebGLRenderer => {
+  if (!sharedRenderer) {
+    sharedRenderer = new THREE.WebGLRenderer({
+      antialias: true,
+      alpha: true,
+      preserveDrawingBuffer: true
+    });
+    sharedRenderer.toneMapping = THREE.ACESFilmicToneMapping;
+    sharedRenderer.outputColorSpace = THREE.SRGBColorSpace;
+    // 与查看器画布相同的阴影类型，阴影柔和度通过阴影半径实现
+    sharedRenderer.shadowMap.enabled = true;
+    sharedRenderer.shadowMap.type = THREE.PCFShadowMap;
+  }
+  return sharedRenderer;
+};
+
+/**
+ * 将任务加入渲染队列，按顺序执行
+ * @param task 渲染任务
+ * @returns 任务结果
+ */
+const enqueueRender = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * 加载环境贴图，渲染器会在首次使用时将其预过滤为 PMREM 贴图
+ * @param source 环境贴图文件
+ * @returns 环境贴图，加载失败时返回null
+ */
+const loadEnvironment = async (source: EnvironmentSource): Promise<THREE.Texture | null> => {
+  try {
+    return await loadEnvironmentTexture(source);
+  } catch (error) {
+    console.warn('加载环境贴图失败，将只使用灯光渲染:', source.url, error);
+    return null;
+  }
+};
+
+/**
+ * 根据相机位置计算相对观察目标的角度
+ * @param camera 相机
+ * @param target 观察目标
+ * @returns 相机角度
+ */
+export const getCameraAngle = (
+  camera: THREE.Camera,
+  target: THREE.Vector3 = new THREE.Vector3()
+): RenderCameraAngle => {
+  const offset = camera.position.clone().sub(target);
+  const spherical = new THREE.Spherical().setFromVector3(offset);
+  return {
+    azimuth: THREE.MathUtils.radToDeg(spherical.theta),
+    elevation: 90 - THREE.MathUtils.radToDeg(spherical.phi)
+  };
+};
+
+/**
+ * 按角度放置相机，使包围球完整显示在画面中
+ * @param camera 相机
+ * @param sphere 模型的包围球
+ * @param angle 相机角度
+ * @param padding 取景边距倍数
+ */
+const fitCameraToSphere = (
+  camera: THREE.PerspectiveCamera,
+  sphere: THREE.Sphere,
+  angle: RenderCameraAngle,
+  padding: number
+): void => {
+  // 画面较窄的方向决定取景距离
+  const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+  const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+  const fitFov = Math.min(verticalFov, horizontalFov);
+  const radius = Math.max(sphere.radius, 0.001);
+  const distance = (radius / Math.sin(fitFov / 2)) * padding;
+
+  const direction = new THREE.Vector3().setFromSphericalCoords(
+    1,
+    THREE.MathUtils.degToRad(90 - angle.elevation),
+    THREE.MathUtils.degToRad(angle.azimuth)
+  );
+  camera.position.copy(sphere.center).addScaledVector(direction, distance);
+  camera.near = Math.max(distance - radius * 2, distance / 100);
+  camera.far = distance + radius * 2;
+  camera.lookAt(sphere.center);
+  camera.updateProjectionMatrix();
+};
+
+/**
+ * 按指定的位置和观察目标放置相机，远近裁剪面按包围球计算
+ * @param camera 相机
+ * @param sphere 模型的包围球
+ * @param view 相机位置和观察目标
+ */
+const placeCameraAtView = (
+  camera: THREE.PerspectiveCamera,
+  sphere: THREE.Sphere,
+  view: RenderCameraView
+): void => {
+  const radius = Math.max(sphere.radius, 0.001);
+  const distance = view.position.distanceTo(sphere.center);
+
+  camera.position.copy(view.position);
+  camera.near = Math.max(distance - radius * 2, distance / 100, 0.001);
+  camera.far = distance + radius * 2;
+  camera.lookAt(view.target);
+  camera.updateProjectionMatrix();
+};
+
+/**
+ * 扩大相机的远近裁剪范围，使相机附近和远处的展台地面不被裁剪
+ * @param camera 已放置好的相机
+ * @param sphere 模型的包围球
+ */
+const extendCameraForStage = (camera: THREE.PerspectiveCamera, sphere: THREE.Sphere): void => {
+  const distance = camera.position.distanceTo(sphere.center);
+  camera.near = Math.min(camera.near, Math.max(distance / 100, 0.001));
+  camera.far = distance + STAGE_GROUND_RADIUS * 2;
+  camera.updateProjectionMatrix();
+};
+
+/**
+ * 渲染一帧画面
+ * 不超过分块尺寸且不超采样时直接渲染到共享渲染器的画布；
+ * 否则按放大后的尺寸分块渲染（每块使用相机的 viewOffset 截取对应区域），缩小后拼接到输出画布；
+ * 使用后期处理时每块连同四周的保护带一起渲染，拼接时只取块本身，避免泛光和环境光遮蔽在块边界处产生接缝
+ * @param renderer 渲染器
+ * @param scene 场景
+ * @param camera 相机
+ * @param postProcessing 后期处理管线，null 时直接渲染场景
+ * @param width 输出宽度（像素）
+ * @param height 输出高度（像素）
+ * @param supersample 超采样倍数
+ * @param outputCanvas 分块渲染时的输出画布
+ * @returns 渲染结果所在的画布
+ */
+const renderFrame = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  postProcessing: PostProcessingPipeline | null,
+  width: number,
+  height: number,
+  supersample: number,
+  outputCanvas: HTMLCanvasElement
+): HTMLCanvasElement => {
+  // 按当前画布尺寸渲染，分块时传入块在完整画面中的位置
+  const draw = (drawWidth: number, drawHeight: number, region?: PostProcessingRegion) => {
+    renderer.setSize(drawWidth, drawHeight, false);
+    if (postProcessing) {
+      postProcessing.setSize(drawWidth, drawHeight, region);
+      postProcessing.render();
+    } else {
+      renderer.render(scene, camera);
+    }
+  };
+
+  if (supersample === 1 && width <= RENDER_TILE_SIZE && height <= RENDER_TILE_SIZE) {
+    draw(width, height);
+    return renderer.domElement;
+  }
+
+  const fullWidth = width * supersample;
+  const fullHeight = height * supersample;
+  const guard = postProcessing ? RENDER_TILE_GUARD : 0;
+  // 块边长取超采样倍数的整数倍，保证每块缩小后落在整数像素上；加上保护带后不超过分块尺寸
+  const tileSize = Math.floor((RENDER_TILE_SIZE - guard * 2) / supersample) * supersample;
+
+  outputCanvas.width = width;
+  outputCanvas.height = height;
+  const context = outputCanvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, width, height);
+
+  try {
+    for (let y = 0; y < fullHeight; y += tileSize) {
+      for (let x = 0; x < fullWidth; x += tileSize) {
+        const tileWidth = Math.min(tileSize, fullWidth - x);
+        const tileHeight = Math.min(tileSize, fullHeight - y);
+        // 渲染区域向四周扩展保护带，不超出完整画面
+        const left = Math.max(0, x - guard);
+        const top = Math.max(0, y - guard);
+        const drawWidth = Math.min(fullWidth, x + tileWidth + guard) - left;
+        const drawHeight = Math.min(fullHeight, y + tileHeight + guard) - top;
+        camera.setViewOffset(fullWidth, fullHeight, left, top, drawWidth, drawHeight);
+        draw(drawWidth, drawHeight, { fullWidth, fullHeight, x: left, y: top });
+        context.drawImage(
+          renderer.domElement,
+          x - left, y - top, tileWidth, tileHeight,
+          x / supersample, y / supersample, tileWidth / supersample, tileHeight / supersample
+        );
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+  }
+
+  return outputCanvas;
+};
+
+/**
+ * 将材质应用到对象的所有网格
+ * @param object 对象
+ * @param material 材质
+ */
+const applyMaterialOverride = (object: THREE.Object3D, material: THREE.Material): void => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.material = material;
+    }
+  });
+};
+
+/**
+ * 释放对象的几何体、材质和贴图
+ * @param object 对象
+ */
+const disposeObject = (object: THREE.Object3D): void => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material) => {
+        Object.values(material).forEach((value) => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    }
+  });
+};
+
+// 每帧渲染完成后的回调，参数为渲染画布和帧序号，返回Promise时等待其完成再渲染下一帧
+export type RenderFrameCallback = (canvas: HTMLCanvasElement, index: number) => void | Promise<void>;
+
+/**
+ * 在共享渲染器上从多个角度依次渲染对象，取景距离按包围球计算，各角度下模型大小一致
+ * 指定 cameraView 时每帧都使用该视角
+ * @param object 要渲染的对象，会被移入离屏场景，不能是其他场景中正在显示的对象
+ * @param options 渲染参数
+ * @param cameraAngles 各帧的相机角度
+ * @param onFrame 每帧渲染完成后的回调
+ */
+const renderObjectViews = async (
+  object: THREE.Object3D,
+  options: RenderOptions,
+  cameraAngles: RenderCameraAngle[],
+  onFrame: RenderFrameCallback
+): Promise<void> => {
+  const settings = { ...DEFAULT_RENDER_OPTIONS, ...options };
+  const renderer = getRenderer();
+  const environment = settings.environment?.source ? await loadEnvironment(settings.environment.source) : null;
+
+  const scene = new THREE.Scene();
+  if (settings.environment) {
+    applyEnvironmentLighting(scene, environment, settings.environment);
+  }
+  scene.background = settings.background ? new THREE.Color(settings.background) : null;
+  const lights = createLightingRigObject(settings.lighting);
+  scene.add(lights);
+
+  // 覆盖材质时使用对象的副本，不修改原对象的材质
+  const overrideMaterial = settings.material ? createMaterial(settings.material) : null;
+  const target = overrideMaterial ? cloneWithSkeleton(object) : object;
+  if (overrideMaterial) {
+    applyMaterialOverride(target, overrideMaterial);
+  }
+
+  scene.add(target);
+  target.updateMatrixWorld(true);
+
+  // 展台按模型的包围盒放置，取景时包含展台
+  const stage = settings.stage && hasStageObjects(settings.stage)
+    ? createStageObject(renderer, target, settings.stage)
+    : null;
+  if (stage) {
+    scene.add(stage);
+  }
+
+  let postProcessing: PostProcessingPipeline | null = null;
+  try {
+    const camera = new THREE.PerspectiveCamera(settings.fov, settings.width / settings.height);
+    if (settings.postProcessing && hasPostEffects(settings.postProcessing)) {
+      postProcessing = createPostProcessing(renderer, scene, camera, settings.postProcessing);
+    }
+    const box = new THREE.Box3().setFromObject(target);
+    const pedestal = stage?.getObjectByName(STAGE_PEDESTAL_NAME);
+    if (pedestal) {
+      box.expandByObject(pedestal);
+    }
+    const sphere = box.isEmpty()
+      ? new THREE.Sphere(new THREE.Vector3(), 1)
+      : box.getBoundingSphere(new THREE.Sphere());
+
+    const outputWidth = Math.round(settings.width * settings.pixelRatio);
+    const outputHeight = Math.round(settings.height * settings.pixelRatio);
+    const supersample = Math.max(1, Math.min(
+      Math.round(settings.supersample),
+      Math.floor(MAX_SUPERSAMPLED_SIZE / Math.max(outputWidth, outputHeight))
+    ));
+    const outputCanvas = document.createElement('canvas');
+
+    renderer.setPixelRatio(1);
+    renderer.setClearColor(0x000000, 0);
+    renderer.toneMapping = getToneMapping(settings.postProcessing?.toneMapping);
+    renderer.toneMappingExposure = settings.environment?.exposure ?? 1;
+
+    for (let index = 0; index < cameraAngles.length; index++) {
+      if (settings.cameraView) {
+        placeCameraAtView(camera, sphere, settings.cameraView);
+      } else {
+        fitCameraToSphere(camera, sphere, cameraAngles[index], settings.padding);
+      }
+      if (stage) {
+        extendCameraForStage(camera, sphere);
+      }
+      const canvas = renderFrame(renderer, scene, camera, postProcessing, outputWidth, outputHeight, supersample, outputCanvas);
+      await onFrame(canvas, index);
+    }
+  } finally {
+    scene.remove(target);
+    overrideMaterial?.dispose();
+    disposeLightingRigObject(lights);
+    if (stage) {
+      disposeStageObject(stage);
+    }
+    postProcessing?.dispose();
+  }
+};
+
+/**
+ * 在共享渲染器上渲染对象
+ * @param object 要渲染的对象，会被移入离屏场景，不能是其他场景中正在显示的对象
+ * @param options 渲染参数
+ * @returns PNG 图片的 Data URL
+ */
+const renderObject = async (object: THREE.Object3D, options: RenderOptions): Promise<string> => {
+  let dataUrl = '';
+  await renderObjectViews(object, options, [options.cameraAngle || DEFAULT_CAMERA_ANGLE], (canvas) => {
+    dataUrl = canvas.toDataURL('image/png');
+  });
+  return dataUrl;
+};
+
+/**
+ * 在共享渲染器上渲染对象，适用于大尺寸图片（Data URL 会占用数倍内存）
+ * @param object 要渲染的对象，会被移入离屏场景，不能是其他场景中正在显示的对象
+ * @param options 渲染参数
+ * @returns PNG 图片数据
+ */
+const renderObjectToBlob = async (object: THREE.Object3D, options: RenderOptions): Promise<Blob> => {
+  let blob: Blob | null = null;
+  await renderObjectViews(object, options, [options.cameraAngle || DEFAULT_CAMERA_ANGLE], async (canvas) => {
+    blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  });
+  if (!blob) {
+    throw new Error('导出图片失败');
+  }
+  return blob;
+};
+
+/**
+ * 渲染已在场景中的对象（例如查看器中已应用材质的模型）
+ * 渲染使用对象的副本，共享几何体和材质，不影响原场景
+ * @param object 要渲染的对象
+ * @param options 渲染参数
+ * @returns PNG 图片的 Data URL
+ */
+export const renderObjectImage = (object: THREE.Object3D, options: RenderOptions = {}): Promise<string> => {
+  return enqueueRender(() => renderObject(cloneWithWorldTransform(object), options));
+};
+
+/**
+ * 渲染已在场景中的对象为 PNG 图片数据，用于导出高分辨率图片
+ * @param object 要渲染的对象
+ * @param options 渲染参数
+ * @returns PNG 图片数据
+ */
+export const renderObjectImageBlob = (object: THREE.Object3D, options: RenderOptions = {}): Promise<Blob> => {
+  return enqueueRender(() => renderObjectToBlob(cloneWithWorldTransform(object), options));
+};
+
+/**
+ * 从多个角度依次渲染已在场景中的对象，例如转台动画的各帧
+ * 回调中抛出的错误会中止渲染，可用于取消
+ * @param object 要渲染的对象
+ * @param cameraAngles 各帧的相机角度
+ * @param options 渲染参数
+ * @param onFrame 每帧渲染完成后的回调，画布内容在回调返回后会被下一帧覆盖
+ */
+export const renderObjectFrames = (
+  object: THREE.Object3D,
+  cameraAngles: RenderCameraAngle[],
+  options: RenderOptions,
+  onFrame: RenderFrameCallback
+): Promise<void> => {
+  return enqueueRender(() => renderObjectViews(cloneWithWorldTransform(object), options, cameraAngles, onFrame));
+};
+
+/**
+ * 加载模型文件并渲染
+ * @param source 模型文件
+ * @param options 渲染参数
+ * @returns PNG 图片的 Data URL
+ */
+export const renderModelImage = (source: RenderModelSource, options: RenderOptions = {}): Promise<string> => {
+  return enqueueRender(async () => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error('模型加载超时')), MODEL_LOAD_TIMEOUT);
+    });
+
+    try {
+      const loadedModel = await Promise.race([
+        loadStoredModel(source.url, source.format, source.bundleEntry),
+        timeoutPromise
+      ]);
+
+      try {
+        // 与查看器一样归一化模型尺寸，灯光位置和阴影范围按归一化后的尺寸设置
+        normalizeModelScene(loadedModel.scene);
+        return await renderObject(loadedModel.scene, options);
+      } finally {
+        disposeObject(loadedModel.scene);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+};
@@ -0,0 +1,95 @@
+/**
+ * 场景环境
+ * 查看器、材质预览和渲染服务共用的环境贴图加载和环境光照设置，
+ * 按文件格式选择 HDR 或 EXR 加载器，同一文件只加载一次
+ */
+
+import * as THREE from 'three';
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import renderSettings from '../config/renderSettings.json';
+import { type EnvironmentFormat } from '../lib/environmentStorage';
+
+// 环境贴图文件
+export type EnvironmentSource = {
+  url: string;
+  format: EnvironmentFormat;
+};
+
+// 环境光照参数
+export type EnvironmentLighting = {
+  source: EnvironmentSource | null;  // null 不使用环境贴图
+  rotation: number;   // 绕竖直方向的旋转角度（度）
+  intensity: number;  // 环境光照强度
+  exposure: number;   // 色调映射曝光
+};
+
+// 默认的环境光照，使用 renderSettings.json 中配置的摄影棚环境贴图
+export const DEFAULT_ENVIRONMENT_LIGHTING: EnvironmentLighting = {
+  source: { url: renderSettings.environment, format: 'hdr' },
+  rotation: 0,
+  intensity: 1,
+  exposure: 1
+};
+
+// 模糊环境背景的模糊程度（0-1）
+export const BLURRED_BACKGROUND_BLURRINESS = 0.4;
+
+// 已加载的环境贴图，键为文件URL
+const environmentTextureCache = new Map<string, Promise<THREE.Texture>>();
+
+/**
+ * 加载等距柱状投影的环境贴图
+ * 加载失败的结果也会缓存，避免重复请求不存在的文件
+ * @param source 环境贴图文件
+ * @returns 环境贴图
+ */
+export const loadEnvironmentTexture = (source: EnvironmentSource): Promise<THREE.Texture> => {
+  let cached = environmentTextureCache.get(source.url);
+  if (!cached) {
+    const loader = source.format === 'exr' ? new EXRLoader() : new RGBELoader();
+    cached = loader.loadAsync(source.url).then((texture) => {
+      texture.mapping = THREE.EquirectangularReflectionMapping;
+      return texture;
+    });
+    environmentTextureCache.set(source.url, cached);
+  }
+  return cached;
+};
+
+/**
+ * 设置场景的环境光照，曝光需要在渲染器上单独设置
+ * @param scene 场景
+ * @param texture 环境贴图，null 不使用环境贴图
+ * @param lighting 环境光照参数
+ */
+export const applyEnvironmentLighting = (
+  scene: THREE.Scene,
+  texture: THREE.Texture | null,
+  lighting: EnvironmentLighting
+): void => {
+  scene.environment = texture;
+  scene.environmentIntensity = lighting.intensity;
+  scene.environmentRotation.set(0, THREE.MathUtils.degToRad(lighting.rotation), 0);
+};
+
+/**
+ * 创建上下渐变的背景贴图，作为场景背景时铺满画面
+ * @param colors 顶部和底部颜色
+ * @returns 背景贴图
+ */
+export const createGradientTexture = (colors: [string, string]): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 2;
+  canvas.height = 256;
+  const context = canvas.getContext('2d')!;
+  const gradient = context.createLinearGradient(0, 0, 0, canvas.height);
+  gradient.addColorStop(0, colors[0]);
+  gradient.addColorStop(1, colors[1]);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
@@ -0,0 +1,365 @@
+/**
+ * 展台
+ * 按展台设置在模型下方创建地面、接触阴影和展台，查看器和渲染服务共用，保证导出图片与实时画面一致。
+ * 地面自动对齐到归一化后模型包围盒的底部，有展台时展台顶面对齐模型底部、地面对齐展台底部
+ */
+
+import * as THREE from 'three';
+import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
+import { HorizontalBlurShader } from 'three/examples/jsm/shaders/HorizontalBlurShader.js';
+import { VerticalBlurShader } from 'three/examples/jsm/shaders/VerticalBlurShader.js';
+import { type StageSettings } from '../lib/stageStorage';
+import { cloneWithWorldTransform } from './objectTransform';
+
+// 地面半径，足够大使地面边缘接近地平线
+export const STAGE_GROUND_RADIUS = 50;
+
+// 展台对象的名称，渲染服务取景时包含展台
+export const STAGE_PEDESTAL_NAME = 'stage-pedestal';
+
+// 反射贴图尺寸
+const REFLECTION_TEXTURE_SIZE = 1024;
+
+// 接触阴影贴图尺寸
+const CONTACT_SHADOW_RESOLUTION = 512;
+
+// 接触阴影范围相对模型底面尺寸的倍数
+const CONTACT_SHADOW_SPREAD = 1.5;
+
+// 地面上各层之间的间隔，避免深度冲突
+const LAYER_OFFSET = 0.001;
+
+// 只影响材质颜色和不透明度的展台设置，修改时更新现有材质，无需重新创建展台
+const STAGE_APPEARANCE_KEYS = ['shadowOpacity', 'reflectivity', 'floorColor', 'contactShadowOpacity', 'pedestalColor'] as const;
+
+// 展台各部分的材质，修改外观设置时直接更新
+type StageMaterials = {
+  shadowGround?: THREE.ShadowMaterial;
+  floor?: THREE.MeshStandardMaterial;
+  contactShadow?: THREE.MeshBasicMaterial;
+  pedestal?: THREE.MeshStandardMaterial;
+};
+
+// 展台对象需要额外释放的资源（反射和接触阴影的渲染目标）
+const stageDisposers = new WeakMap<THREE.Group, Array<() => void>>();
+
+// 展台对象各部分的材质
+const stageMaterials = new WeakMap<THREE.Group, StageMaterials>();
+
+/**
+ * 创建水平放置的圆形地面
+ * @param material 地面材质
+ * @param y 地面高度
+ * @returns 地面网格
+ */
+const createGroundMesh = (material: THREE.Material, y: number): THREE.Mesh => {
+  const mesh = new THREE.Mesh(new THREE.CircleGeometry(STAGE_GROUND_RADIUS, 64), material);
+  mesh.rotation.x = -Math.PI / 2;
+  mesh.position.y = y;
+  mesh.receiveShadow = true;
+  return mesh;
+};
+
+/**
+ * 创建展台，顶面对齐模型底部并居中
+ * @param modelBox 模型包围盒
+ * @param settings 展台设置
+ * @returns 展台网格
+ */
+const createPedestal = (modelBox: THREE.Box3, settings: StageSettings): THREE.Mesh => {
+  const size = modelBox.getSize(new THREE.Vector3());
+  const center = modelBox.getCenter(new THREE.Vector3());
+  const height = settings.pedestalHeight;
+
+  // 圆柱展台按底面对角线计算半径，保证模型底面完全落在展台上
+  const geometry = settings.pedestalShape === 'box'
+    ? new THREE.BoxGeometry(size.x + settings.pedestalMargin * 2, height, size.z + settings.pedestalMargin * 2)
+    : new THREE.CylinderGeometry(
+        Math.hypot(size.x, size.z) / 2 + settings.pedestalMargin,
+        Math.hypot(size.x, size.z) / 2 + settings.pedestalMargin,
+        height,
+        64
+      );
+
+  const pedestal = new THREE.Mesh(
+    geometry,
+    new THREE.MeshStandardMaterial({ color: settings.pedestalColor, roughness: 0.5 })
+  );
+  pedestal.name = STAGE_PEDESTAL_NAME;
+  pedestal.position.set(center.x, modelBox.min.y - height / 2, center.z);
+  pedestal.castShadow = true;
+  pedestal.receiveShadow = true;
+  pedestal.updateMatrixWorld();
+  return pedestal;
+};
+
+/**
+ * 烘焙接触阴影：从地面向上以正交相机渲染物体的深度，越靠近地面越暗，模糊后贴到地面上
+ * 阴影只在创建时烘焙一次，不随动画播放更新
+ * @param renderer 渲染器
+ * @param casters 投射阴影的物体（会被移入临时场景）
+ * @param bounds 投射阴影的物体的包围盒
+ * @param groundY 地面高度
+ * @param settings 展台设置
+ * @param disposers 需要随展台释放的资源
+ * @returns 接触阴影网格
+ */
+const bakeContactShadow = (
+  renderer: THREE.WebGLRenderer,
+  casters: THREE.Object3D[],
+  bounds: THREE.Box3,
+  groundY: number,
+  settings: StageSettings,
+  disposers: Array<() => void>
+): THREE.Mesh => {
+  const size = bounds.getSize(new THREE.Vector3());
+  const center = bounds.getCenter(new THREE.Vector3());
+  const width = Math.max(size.x, size.z, 0.001) * CONTACT_SHADOW_SPREAD;
+  const height = Math.max(bounds.max.y - groundY, 0.001);
+
+  const renderTarget = new THREE.WebGLRenderTarget(CONTACT_SHADOW_RESOLUTION, CONTACT_SHADOW_RESOLUTION);
+  renderTarget.texture.generateMipmaps = false;
+  const blurTarget = new THREE.WebGLRenderTarget(CONTACT_SHADOW_RESOLUTION, CONTACT_SHADOW_RESOLUTION);
+  blurTarget.texture.generateMipmaps = false;
+
+  // 位于地面、朝上的正交相机
+  const camera = new THREE.OrthographicCamera(-width / 2, width / 2, width / 2, -width / 2, 0, height);
+  camera.position.set(center.x, groundY, center.z);
+  camera.rotation.x = Math.PI / 2;
+  camera.updateMatrixWorld();
+
+  // 输出黑色，不透明度随与地面的距离递减
+  const depthMaterial = new THREE.MeshDepthMaterial({ depthTest: false, depthWrite: false });
+  depthMaterial.onBeforeCompile = (shader) => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      'gl_FragColor = vec4( vec3( 1.0 - fragCoordZ ), opacity );',
+      'gl_FragColor = vec4( vec3( 0.0 ), 1.0 - fragCoordZ );'
+    );
+  };
+
+  const shadowScene = new THREE.Scene();
+  shadowScene.overrideMaterial = depthMaterial;
+  casters.forEach(caster => shadowScene.add(caster));
+
+  const planeGeometry = new THREE.PlaneGeometry(width, width).rotateX(Math.PI / 2);
+  const horizontalBlur = new THREE.ShaderMaterial({
+    ...HorizontalBlurShader,
+    uniforms: THREE.UniformsUtils.clone(HorizontalBlurShader.uniforms),
+    depthTest: false
+  });
+  const verticalBlur = new THREE.ShaderMaterial({
+    ...VerticalBlurShader,
+    uniforms: THREE.UniformsUtils.clone(VerticalBlurShader.uniforms),
+    depthTest: false
+  });
+  const blurPlane = new THREE.Mesh(planeGeometry, horizontalBlur);
+  blurPlane.position.set(center.x, groundY + height / 2, center.z);
+
+  // 先水平后垂直模糊，结果写回 renderTarget
+  const blurShadow = (amount: number) => {
+    blurPlane.material = horizontalBlur;
+    horizontalBlur.uniforms.tDiffuse.value = renderTarget.texture;
+    horizontalBlur.uniforms.h.value = amount / 256;
+    renderer.setRenderTarget(blurTarget);
+    renderer.render(blurPlane, camera);
+
+    blurPlane.material = verticalBlur;
+    verticalBlur.uniforms.tDiffuse.value = blurTarget.texture;
+    verticalBlur.uniforms.v.value = amount / 256;
+    renderer.setRenderTarget(renderTarget);
+    renderer.render(blurPlane, camera);
+  };
+
+  const previousRenderTarget = renderer.getRenderTarget();
+  const previousClearColor = renderer.getClearColor(new THREE.Color());
+  const previousClearAlpha = renderer.getClearAlpha();
+
+  try {
+    renderer.setClearColor(0x000000, 0);
+    renderer.setRenderTarget(renderTarget);
+    renderer.render(shadowScene, camera);
+
+    if (settings.contactShadowBlur > 0) {
+      blurShadow(settings.contactShadowBlur);
+      blurShadow(settings.contactShadowBlur * 0.4);
+    }
+  } finally {
+    renderer.setRenderTarget(previousRenderTarget);
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+    shadowScene.clear();
+    depthMaterial.dispose();
+    horizontalBlur.dispose();
+    verticalBlur.dispose();
+    blurTarget.dispose();
+  }
+
+  const shadow = new THREE.Mesh(
+    planeGeometry,
+    new THREE.MeshBasicMaterial({
+      map: renderTarget.texture,
+      transparent: true,
+      opacity: settings.contactShadowOpacity,
+      depthWrite: false
+    })
+  );
+  // 平面朝下，翻转后朝上，并与相机看到的方向一致
+  shadow.scale.y = -1;
+  shadow.position.set(center.x, groundY + LAYER_OFFSET, center.z);
+  shadow.renderOrder = 1;
+  disposers.push(() => renderTarget.dispose());
+  return shadow;
+};
+
+/**
+ * 创建反光地面：镜面反射上叠加一层半透明的地面颜色，反射强度越高地面颜色越淡
+ * @param y 地面高度
+ * @param settings 展台设置
+ * @param hiddenInReflection 渲染反射时需要隐藏的贴地物体（与反射平面重合）
+ * @param disposers 需要随展台释放的资源
+ * @returns 反射平面和地面颜色层
+ */
+const createReflectiveGround = (
+  y: number,
+  settings: StageSettings,
+  hiddenInReflection: THREE.Object3D[],
+  disposers: Array<() => void>
+): [Reflector, THREE.Mesh] => {
+  const reflector = new Reflector(new THREE.CircleGeometry(STAGE_GROUND_RADIUS, 64), {
+    clipBias: 0.003,
+    textureWidth: REFLECTION_TEXTURE_SIZE,
+    textureHeight: REFLECTION_TEXTURE_SIZE
+  });
+  reflector.rotation.x = -Math.PI / 2;
+  reflector.position.y = y;
+  disposers.push(() => reflector.dispose());
+
+  const floor = createGroundMesh(new THREE.MeshStandardMaterial({
+    color: settings.floorColor,
+    roughness: 0.6,
+    transparent: true,
+    opacity: 1 - settings.reflectivity,
+    depthWrite: false
+  }), y + LAYER_OFFSET / 2);
+  hiddenInReflection.push(floor);
+
+  // 渲染反射时隐藏贴地的颜色层和接触阴影，否则它们会遮住反射画面
+  const renderReflection = reflector.onBeforeRender;
+  reflector.onBeforeRender = (...args) => {
+    hiddenInReflection.forEach(object => { object.visible = false; });
+    try {
+      renderReflection.apply(reflector, args);
+    } finally {
+      hiddenInReflection.forEach(object => { object.visible = true; });
+    }
+  };
+
+  return [reflector, floor];
+};
+
+/**
+ * 按展台设置创建地面、接触阴影和展台
+ * @param renderer 渲染器，用于烘焙接触阴影
+ * @param model 归一化后的模型（使用其世界坐标下的包围盒）
+ * @param settings 展台设置
+ * @returns 包含展台各部分的组
+ */
+export const createStageObject = (
+  renderer: THREE.WebGLRenderer,
+  model: THREE.Object3D,
+  settings: StageSettings
+): THREE.Group => {
+  const group = new THREE.Group();
+  group.name = 'stage';
+  const disposers: Array<() => void> = [];
+  const materials: StageMaterials = {};
+  stageDisposers.set(group, disposers);
+  stageMaterials.set(group, materials);
+
+  model.updateWorldMatrix(true, true);
+  const modelBox = new THREE.Box3().setFromObject(model);
+  if (modelBox.isEmpty()) return group;
+
+  const pedestal = settings.pedestal ? createPedestal(modelBox, settings) : null;
+  const bounds = modelBox.clone();
+  if (pedestal) {
+    bounds.expandByObject(pedestal);
+  }
+  const groundY = bounds.min.y;
+  const groundLayers: THREE.Object3D[] = [];
+
+  if (settings.contactShadow) {
+    const casters = [cloneWithWorldTransform(model), ...(pedestal ? [pedestal.clone()] : [])];
+    const contactShadow = bakeContactShadow(renderer, casters, bounds, groundY, settings, disposers);
+    materials.contactShadow = contactShadow.material as THREE.MeshBasicMaterial;
+    groundLayers.push(contactShadow);
+    group.add(contactShadow);
+  }
+
+  if (pedestal) {
+    materials.pedestal = pedestal.material as THREE.MeshStandardMaterial;
+    group.add(pedestal);
+  }
+
+  if (settings.ground === 'shadow') {
+    materials.shadowGround = new THREE.ShadowMaterial({ opacity: settings.shadowOpacity });
+    group.add(createGroundMesh(materials.shadowGround, groundY));
+  } else if (settings.ground === 'reflective') {
+    const [reflector, floor] = createReflectiveGround(groundY, settings, groundLayers, disposers);
+    materials.floor = floor.material as THREE.MeshStandardMaterial;
+    group.add(reflector, floor);
+  }
+
+  return group;
+};
+
+/**
+ * 生成展台结构的键，外观以外的设置（地面类型、接触阴影模糊、展台形状和尺寸等）变化时键才会变化，
+ * 此时需要重新创建展台；只有外观变化时使用 updateStageObject 更新
+ * @param settings 展台设置
+ * @returns 结构键
+ */
+export const getStageStructureKey = (settings: StageSettings): string => {
+  const structure: Partial<StageSettings> = { ...settings };
+  STAGE_APPEARANCE_KEYS.forEach(key => { delete structure[key]; });
+  return JSON.stringify(structure);
+};
+
+/**
+ * 按展台设置更新现有展台的颜色和不透明度
+ * @param group createStageObject 创建的组
+ * @param settings 展台设置
+ */
+export const updateStageObject = (group: THREE.Group, settings: StageSettings): void => {
+  const materials = stageMaterials.get(group);
+  if (!materials) return;
+
+  if (materials.shadowGround) {
+    materials.shadowGround.opacity = settings.shadowOpacity;
+  }
+  if (materials.floor) {
+    materials.floor.color.set(settings.floorColor);
+    materials.floor.opacity = 1 - settings.reflectivity;
+  }
+  if (materials.contactShadow) {
+    materials.contactShadow.opacity = settings.contactShadowOpacity;
+  }
+  if (materials.pedestal) {
+    materials.pedestal.color.set(settings.pedestalColor);
+  }
+};
+
+/**
+ * 释放展台的几何体、材质和渲染目标
+ * @param group createStageObject 创建的组
+ */
+export const disposeStageObject = (group: THREE.Group): void => {
+  group.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+  stageDisposers.get(group)?.forEach(dispose => dispose());
+  stageDisposers.delete(group);
+  stageMaterials.delete(group);
+};
@@ -0,0 +1,269 @@
+/**
+ * 转台动画导出
+ * 相机环绕模型一周逐帧渲染（使用模型渲染服务，灯光、环境、展台和后期效果与截图一致），
+ * 编码为 GIF 动画、WebM 视频或 PNG 序列帧压缩包
+ */
+
+import * as THREE from 'three';
+import { zip } from 'fflate';
+import { applyPalette, GIFEncoder, quantize } from 'gifenc';
+import { renderObjectFrames, type RenderCameraAngle } from './renderService';
+import { type EnvironmentLighting } from './sceneEnvironment';
+import { type LightingRig } from '../lib/lightingStorage';
+import { type StageSettings } from '../lib/stageStorage';
+import { type PostProcessingSettings } from '../lib/postProcessingStorage';
+
+// 导出格式
+export type TurntableFormat = 'gif' | 'webm' | 'png-zip';
+
+// 转台动画参数
+export type TurntableOptions = {
+  format: TurntableFormat;
+  duration: number;            // 旋转一周的时长（秒）
+  size: number;                // 画面边长（像素）
+  elevation: number;           // 相机仰角（度）
+  background: string | null;   // 背景颜色，null 为透明背景（WebM 不支持透明，使用白色）
+  startAzimuth?: number;       // 起始方位角（度），默认从正面开始
+  fov?: number;                // 相机垂直视角（度）
+  environment?: EnvironmentLighting | null;  // 环境光照，默认使用渲染服务的摄影棚环境
+  lighting?: LightingRig;                    // 灯光方案，默认使用默认方案
+  stage?: StageSettings | null;              // 展台设置，默认不显示地面和展台
+  postProcessing?: PostProcessingSettings | null;  // 色调映射和后期效果，默认无后期效果
+};
+
+// 各格式的名称、文件扩展名和帧率
+export const TURNTABLE_FORMATS: Record<TurntableFormat, { label: string; extension: string; fps: number }> = {
+  gif: { label: 'GIF 动画', extension: 'gif', fps: 15 },
+  webm: { label: 'WebM 视频', extension: 'webm', fps: 30 },
+  'png-zip': { label: 'PNG 序列帧 (ZIP)', extension: 'zip', fps: 30 }
+};
+
+// WebM 不支持透明背景时使用的背景颜色
+const VIDEO_FALLBACK_BACKGROUND = '#ffffff';
+
+// WebM 视频码率
+const VIDEO_BITS_PER_SECOND = 8000000;
+
+// 可用的 WebM 编码，按优先级排列
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// 逐帧接收渲染结果并编码的接收器
+type FrameSink = {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+};
+
+/**
+ * 计算环绕一周的各帧相机角度
+ * @param frameCount 帧数
+ * @param elevation 仰角（度）
+ * @param startAzimuth 起始方位角（度）
+ * @returns 相机角度列表
+ */
+const getTurntableAngles = (frameCount: number, elevation: number, startAzimuth: number): RenderCameraAngle[] => {
+  return Array.from({ length: frameCount }, (_, index) => ({
+    azimuth: startAzimuth + (360 * index) / frameCount,
+    elevation
+  }));
+};
+
+/**
+ * 将画布内容导出为 PNG
+ * @param canvas 画布
+ * @returns PNG 数据
+ */
+const canvasToPNG = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('导出帧图片失败'))), 'image/png');
+  });
+};
+
+/**
+ * 创建 GIF 接收器，每帧单独量化调色板；透明背景使用1位透明度
+ * @param size 画面边长
+ * @param fps 帧率
+ * @param transparent 是否透明背景
+ * @returns 帧接收器
+ */
+const createGifSink = (size: number, fps: number, transparent: boolean): FrameSink => {
+  const encoder = GIFEncoder();
+  const frameCanvas = document.createElement('canvas');
+  frameCanvas.width = size;
+  frameCanvas.height = size;
+  const context = frameCanvas.getContext('2d', { willReadFrequently: true })!;
+  const format = transparent ? 'rgba4444' : 'rgb565';
+
+  return {
+    addFrame: async (canvas) => {
+      context.clearRect(0, 0, size, size);
+      context.drawImage(canvas, 0, 0, size, size);
+      const { data } = context.getImageData(0, 0, size, size);
+
+      const palette = quantize(data, 256, { format, oneBitAlpha: transparent });
+      const transparentIndex = transparent ? palette.findIndex(color => color[3] === 0) : -1;
+      encoder.writeFrame(applyPalette(data, palette, format), size, size, {
+        palette,
+        delay: Math.round(1000 / fps),
+        transparent: transparentIndex >= 0,
+        transparentIndex: Math.max(transparentIndex, 0),
+        // 透明背景需要在下一帧前清除当前帧，否则各帧会叠加
+        dispose: transparent ? 2 : -1
+      });
+    },
+    finish: async () => {
+      encoder.finish();
+      return new Blob([encoder.bytes()], { type: 'image/gif' });
+    }
+  };
+};
+
+/**
+ * 创建 PNG 序列帧接收器，所有帧打包为 ZIP
+ * @returns 帧接收器
+ */
+const createPngZipSink = (): FrameSink => {
+  const frames: Record<string, Uint8Array> = {};
+
+  return {
+    addFrame: async (canvas, index) => {
+      const png = await canvasToPNG(canvas);
+      frames[`frame_${String(index).padStart(4, '0')}.png`] = new Uint8Array(await png.arrayBuffer());
+    },
+    finish: async () => {
+      // PNG 已经压缩过，打包时不再压缩
+      const data = await new Promise<Uint8Array>((resolve, reject) => {
+        zip(frames, { level: 0 }, (error, result) => (error ? reject(error) : resolve(result)));
+      });
+      return new Blob([data], { type: 'application/zip' });
+    }
+  };
+};
+
+/**
+ * 获取浏览器支持的 WebM 编码
+ * @returns MIME 类型，不支持录制时返回null
+ */
+const getSupportedVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_MIME_TYPES.find(mimeType => MediaRecorder.isTypeSupported(mimeType)) || null;
+};
+
+/**
+ * 创建 WebM 接收器
+ * MediaRecorder 按实际时间录制，渲染速度不稳定，因此先保存各帧，
+ * 全部渲染完成后再按帧率回放到画布上录制
+ * @param size 画面边长
+ * @param fps 帧率
+ * @param mimeType 视频编码
+ * @returns 帧接收器
+ */
+const createWebmSink = (size: number, fps: number, mimeType: string): FrameSink => {
+  const frames: Blob[] = [];
+
+  return {
+    addFrame: async (canvas) => {
+      frames.push(await canvasToPNG(canvas));
+    },
+    finish: async () => {
+      const playbackCanvas = document.createElement('canvas');
+      playbackCanvas.width = size;
+      playbackCanvas.height = size;
+      const context = playbackCanvas.getContext('2d')!;
+      const stream = playbackCanvas.captureStream(0);
+      const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+      });
+
+      const frameInterval = 1000 / fps;
+      recorder.start();
+      const startTime = performance.now();
+
+      for (let index = 0; index < frames.length; index++) {
+        const bitmap = await createImageBitmap(frames[index]);
+        // 等到该帧的播放时间再绘制
+        const delay = startTime + index * frameInterval - performance.now();
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+        context.drawImage(bitmap, 0, 0, size, size);
+        bitmap.close();
+        track.requestFrame();
+      }
+
+      // 保留最后一帧的显示时长
+      await new Promise(resolve => setTimeout(resolve, frameInterval));
+      recorder.stop();
+      await stopped;
+      track.stop();
+
+      return new Blob(chunks, { type: 'video/webm' });
+    }
+  };
+};
+
+/**
+ * 导出模型的转台动画
+ * @param object 要渲染的模型对象（使用当前材质）
+ * @param options 转台动画参数
+ * @param onProgress 进度回调，参数为 0-1 的进度
+ * @param signal 取消信号
+ * @returns 导出的文件数据
+ */
+export const exportTurntable = async (
+  object: THREE.Object3D,
+  options: TurntableOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { fps } = TURNTABLE_FORMATS[options.format];
+  const frameCount = Math.max(2, Math.round(options.duration * fps));
+  const background = options.format === 'webm'
+    ? options.background || VIDEO_FALLBACK_BACKGROUND
+    : options.background;
+
+  let sink: FrameSink;
+  if (options.format === 'gif') {
+    sink = createGifSink(options.size, fps, background === null);
+  } else if (options.format === 'webm') {
+    const mimeType = getSupportedVideoMimeType();
+    if (!mimeType) {
+      throw new Error('当前浏览器不支持录制 WebM 视频');
+    }
+    sink = createWebmSink(options.size, fps, mimeType);
+  } else {
+    sink = createPngZipSink();
+  }
+
+  // 渲染占进度的 90%，编码和打包占剩余部分
+  await renderObjectFrames(
+    object,
+    getTurntableAngles(frameCount, options.elevation, options.startAzimuth ?? 0),
+    {
+      width: options.size,
+      height: options.size,
+      background,
+      ...(options.fov ? { fov: options.fov } : {}),
+      ...(options.environment !== undefined ? { environment: options.environment } : {}),
+      ...(options.lighting ? { lighting: options.lighting } : {}),
+      ...(options.stage ? { stage: options.stage } : {}),
+      ...(options.postProcessing ? { postProcessing: options.postProcessing } : {})
+    },
+    async (canvas, index) => {
+      signal?.throwIfAborted();
+      await sink.addFrame(canvas, index);
+      onProgress?.(((index + 1) / frameCount) * 0.9);
+    }
+  );
+
+  signal?.throwIfAborted();
+  const result = await sink.finish();
+  onProgress?.(1);
+  return result;
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 存储后端: local（默认，localStorage）、indexeddb 或 rest（本地后端服务器）
+  readonly VITE_STORAGE_BACKEND?: string;
+  // 后端服务器地址，默认本地开发时为 http://localhost:9000，部署时为同源
+  readonly VITE_API_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}